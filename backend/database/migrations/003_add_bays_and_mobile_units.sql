@@ -0,0 +1,46 @@
+-- Wash bays in the studio
+CREATE TABLE IF NOT EXISTS bays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) UNIQUE NOT NULL,
+    notes TEXT,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Mobile detailing vans
+CREATE TABLE IF NOT EXISTS mobile_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) UNIQUE NOT NULL,
+    registration_number VARCHAR(50),
+    notes TEXT,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Each booking occupies one bay (studio) or one van (mobile)
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS bay_id UUID REFERENCES bays(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS mobile_unit_id UUID REFERENCES mobile_units(id) ON DELETE SET NULL;
+
+-- Overlaps are now checked per bay or van, so the single-lane constraint from 002
+-- would reject parallel bookings; the time range it needed is computed from the service
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS no_overlapping_bookings;
+ALTER TABLE bookings DROP COLUMN IF EXISTS time_slot;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_bay_id ON bookings(bay_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_mobile_unit_id ON bookings(mobile_unit_id);
+
+CREATE TRIGGER update_bays_updated_at BEFORE UPDATE ON bays
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_mobile_units_updated_at BEFORE UPDATE ON mobile_units
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Initial capacity
+INSERT INTO bays (name) VALUES ('Bay 1'), ('Bay 2'), ('Bay 3')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO mobile_units (name) VALUES ('Van 1'), ('Van 2')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,36 @@
+-- Weekly trading hours (0 = Sunday ... 6 = Saturday)
+CREATE TABLE IF NOT EXISTS operating_hours (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    day_of_week INTEGER UNIQUE NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    open_time VARCHAR(5) NOT NULL,
+    close_time VARCHAR(5) NOT NULL,
+    is_closed BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One-off closures (maintenance, staff functions, load shedding, ...)
+CREATE TABLE IF NOT EXISTS closures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    date DATE UNIQUE NOT NULL,
+    reason VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_operating_hours_updated_at BEFORE UPDATE ON operating_hours
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_closures_updated_at BEFORE UPDATE ON closures
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Open every day 08:00 - 18:00
+INSERT INTO operating_hours (day_of_week, open_time, close_time) VALUES
+    (0, '08:00', '18:00'),
+    (1, '08:00', '18:00'),
+    (2, '08:00', '18:00'),
+    (3, '08:00', '18:00'),
+    (4, '08:00', '18:00'),
+    (5, '08:00', '18:00'),
+    (6, '08:00', '18:00')
+ON CONFLICT (day_of_week) DO NOTHING;
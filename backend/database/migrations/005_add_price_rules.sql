@@ -0,0 +1,35 @@
+-- Pricing rules shared by price quotes and booking creation
+CREATE TABLE IF NOT EXISTS price_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('vehicle_multiplier', 'condition_multiplier', 'extra_price')),
+    code VARCHAR(50) NOT NULL,
+    value DECIMAL(10,4) NOT NULL,
+    label VARCHAR(100),
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (rule_type, code)
+);
+
+CREATE TRIGGER update_price_rules_updated_at BEFORE UPDATE ON price_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO price_rules (rule_type, code, value, label) VALUES
+    ('vehicle_multiplier', 'SEDAN', 1.0, 'Sedan'),
+    ('vehicle_multiplier', 'COUPE', 1.1, 'Coupe'),
+    ('vehicle_multiplier', 'HATCHBACK', 1.0, 'Hatchback'),
+    ('vehicle_multiplier', 'SUV', 1.3, 'SUV'),
+    ('vehicle_multiplier', 'TRUCK', 1.5, 'Bakkie / Truck'),
+    ('vehicle_multiplier', 'LUXURY', 1.8, 'Luxury / Sports'),
+    ('condition_multiplier', 'LIGHT', 1.0, 'Light'),
+    ('condition_multiplier', 'MODERATE', 1.2, 'Moderate'),
+    ('condition_multiplier', 'HEAVY', 1.5, 'Heavy'),
+    ('extra_price', 'INTERIOR', 150, 'Interior Rejuvenation'),
+    ('extra_price', 'WAX', 200, 'Nano-Ceramic Wax'),
+    ('extra_price', 'ENGINE', 300, 'Precision Engine Clean')
+ON CONFLICT (rule_type, code) DO NOTHING;
+
+-- Keep sedan prices at what the website quoted before (R100 base + package)
+UPDATE services SET base_price = 100.00 WHERE name = 'Eco Refresh' AND base_price = 0.00;
+UPDATE services SET base_price = 400.00 WHERE name = 'Aqua Glow Deluxe' AND base_price = 300.00;
+UPDATE services SET base_price = 950.00 WHERE name = 'Executive Detail' AND base_price = 850.00;
@@ -0,0 +1,20 @@
+-- Price quotes that lock in a total until they expire or are booked
+CREATE TABLE IF NOT EXISTS quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_type VARCHAR(100) NOT NULL,
+    vehicle_type VARCHAR(50) NOT NULL,
+    condition VARCHAR(50),
+    extras TEXT[] DEFAULT '{}',
+    line_items JSONB NOT NULL,
+    total_price DECIMAL(10,2) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_expires_at ON quotes(expires_at);
+CREATE INDEX IF NOT EXISTS idx_quotes_booking_id ON quotes(booking_id);
+
+CREATE TRIGGER update_quotes_updated_at BEFORE UPDATE ON quotes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,23 @@
+-- Glow Points ledger: every credit and debit to a customer's loyalty balance
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('earn', 'redeem', 'reversal', 'adjustment')),
+    points INTEGER NOT NULL,
+    balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+    description VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer_id ON loyalty_transactions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_booking_id ON loyalty_transactions(booking_id);
+
+CREATE TRIGGER update_loyalty_transactions_updated_at BEFORE UPDATE ON loyalty_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Points redeemed against a booking and the Rand value taken off
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS points_redeemed INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS loyalty_discount DECIMAL(10,2) DEFAULT 0;
@@ -0,0 +1,46 @@
+-- Login accounts with roles. Customer accounts link to their customer record;
+-- admin and staff accounts have none.
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'customer' CHECK (role IN ('admin', 'staff', 'customer')),
+    customer_id UUID UNIQUE REFERENCES customers(id) ON DELETE CASCADE,
+    active BOOLEAN DEFAULT true,
+    password_reset_token_hash VARCHAR(255),
+    password_reset_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (role <> 'customer' OR customer_id IS NOT NULL)
+);
+
+CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Move existing customer credentials onto user accounts
+INSERT INTO users (email, name, password_hash, role, customer_id, password_reset_token_hash, password_reset_expires_at)
+SELECT email, name, password_hash, 'customer', id, password_reset_token_hash, password_reset_expires_at
+FROM customers
+WHERE password_hash IS NOT NULL
+ON CONFLICT (email) DO NOTHING;
+
+-- Sessions belong to users rather than customers
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+UPDATE refresh_tokens rt
+SET user_id = u.id
+FROM users u
+WHERE u.customer_id = rt.customer_id AND rt.user_id IS NULL;
+
+DELETE FROM refresh_tokens WHERE user_id IS NULL;
+
+ALTER TABLE refresh_tokens ALTER COLUMN user_id SET NOT NULL;
+DROP INDEX IF EXISTS idx_refresh_tokens_customer_id;
+ALTER TABLE refresh_tokens DROP COLUMN IF EXISTS customer_id;
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+
+ALTER TABLE customers
+    DROP COLUMN IF EXISTS password_hash,
+    DROP COLUMN IF EXISTS password_reset_token_hash,
+    DROP COLUMN IF EXISTS password_reset_expires_at;
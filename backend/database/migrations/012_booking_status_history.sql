@@ -0,0 +1,29 @@
+-- Booking lifecycle: jobs can be started and customers can fail to arrive
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+    CHECK (status IN ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'));
+
+-- Every status change, who made it and why
+CREATE TABLE IF NOT EXISTS booking_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    from_status VARCHAR(50),
+    to_status VARCHAR(50) NOT NULL,
+    changed_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking_id ON booking_status_history(booking_id);
+
+CREATE TRIGGER update_booking_status_history_updated_at BEFORE UPDATE ON booking_status_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing bookings start their history at their current status
+INSERT INTO booking_status_history (booking_id, from_status, to_status, reason, created_at)
+SELECT id, NULL, status, 'Recorded before status history was kept', created_at
+FROM bookings
+WHERE NOT EXISTS (
+    SELECT 1 FROM booking_status_history h WHERE h.booking_id = bookings.id
+);
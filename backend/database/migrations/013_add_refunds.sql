@@ -0,0 +1,24 @@
+-- Payment reference recorded when a booking is paid
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS transaction_id VARCHAR(255);
+
+-- Money owed back to customers after cancellation, net of any late-cancellation fee
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    payment_reference VARCHAR(255),
+    amount_paid DECIMAL(10,2) NOT NULL,
+    fee DECIMAL(10,2) DEFAULT 0 CHECK (fee >= 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    reason VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+    requested_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON refunds(booking_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON refunds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
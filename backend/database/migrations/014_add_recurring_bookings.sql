@@ -0,0 +1,39 @@
+-- Repeating appointments ("every second Tuesday at 08:00") that generate bookings ahead of time
+CREATE TABLE IF NOT EXISTS recurring_bookings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+    start_date DATE NOT NULL,
+    time VARCHAR(5) NOT NULL,
+    end_date DATE,
+    occurrences INTEGER CHECK (occurrences > 0),
+    service_type VARCHAR(255) NOT NULL,
+    vehicle_type VARCHAR(50) NOT NULL,
+    vehicle_year VARCHAR(4),
+    vehicle_make VARCHAR(100),
+    vehicle_model VARCHAR(100),
+    condition VARCHAR(50),
+    extras TEXT[] DEFAULT '{}',
+    appointment_type VARCHAR(50) DEFAULT 'studio' CHECK (appointment_type IN ('studio', 'mobile')),
+    payment_method VARCHAR(50) NOT NULL CHECK (payment_method IN ('card', 'cash')),
+    notes TEXT,
+    skipped_dates DATE[] DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_bookings_customer_id ON recurring_bookings(customer_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_bookings_status ON recurring_bookings(status);
+
+CREATE TRIGGER update_recurring_bookings_updated_at BEFORE UPDATE ON recurring_bookings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The series a booking was generated from
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS recurring_booking_id UUID REFERENCES recurring_bookings(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_recurring_booking_id ON bookings(recurring_booking_id);
+
+-- A series books each date at most once, however many top-up runs overlap
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_recurring_booking_date
+    ON bookings(recurring_booking_id, date) WHERE status <> 'cancelled';
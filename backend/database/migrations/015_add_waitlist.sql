@@ -0,0 +1,26 @@
+-- Customers waiting for a slot to free up on a fully booked day
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(50),
+    date DATE NOT NULL,
+    window_start VARCHAR(5),
+    window_end VARCHAR(5),
+    service_type VARCHAR(255),
+    appointment_type VARCHAR(50) DEFAULT 'studio' CHECK (appointment_type IN ('studio', 'mobile')),
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+    offered_time VARCHAR(5),
+    offer_token_hash VARCHAR(255) UNIQUE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (window_start IS NULL OR window_end IS NULL OR window_start < window_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_date_status ON waitlist_entries(date, status);
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
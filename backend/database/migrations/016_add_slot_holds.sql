@@ -0,0 +1,26 @@
+-- Short-lived reservations of a slot while a customer checks out
+CREATE TABLE IF NOT EXISTS slot_holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    date DATE NOT NULL,
+    time VARCHAR(5) NOT NULL,
+    duration INTEGER NOT NULL CHECK (duration > 0),
+    service_type VARCHAR(255),
+    appointment_type VARCHAR(50) DEFAULT 'studio' CHECK (appointment_type IN ('studio', 'mobile')),
+    bay_id UUID REFERENCES bays(id) ON DELETE CASCADE,
+    mobile_unit_id UUID REFERENCES mobile_units(id) ON DELETE CASCADE,
+    staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+    holder_ip VARCHAR(45), -- client that holds the slot during checkout; null for waitlist offers
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_holds_date_expires_at ON slot_holds(date, expires_at);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_holder_ip ON slot_holds(holder_ip);
+
+CREATE TRIGGER update_slot_holds_updated_at BEFORE UPDATE ON slot_holds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Waitlist offers hold the offered slot until they are claimed or lapse
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS hold_id UUID REFERENCES slot_holds(id) ON DELETE SET NULL;
@@ -0,0 +1,49 @@
+-- Cars a customer has registered, so repeat bookings do not retype vehicle details
+CREATE TABLE IF NOT EXISTS vehicles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    vehicle_type VARCHAR(50) NOT NULL CHECK (vehicle_type IN ('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY')),
+    make VARCHAR(100),
+    model VARCHAR(100),
+    year VARCHAR(4),
+    colour VARCHAR(50),
+    registration_number VARCHAR(20),
+    notes TEXT,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_customer_id ON vehicles(customer_id);
+
+CREATE TRIGGER update_vehicles_updated_at BEFORE UPDATE ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The registered car a booking was for; the vehicle columns on bookings stay as a snapshot
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_vehicle_id ON bookings(vehicle_id);
+
+-- Register the cars customers have already booked with by make and model
+INSERT INTO vehicles (customer_id, vehicle_type, make, model, year)
+SELECT DISTINCT b.customer_id, b.vehicle_type, b.vehicle_make, b.vehicle_model, b.vehicle_year
+FROM bookings b
+WHERE b.vehicle_make IS NOT NULL
+  AND b.vehicle_model IS NOT NULL
+  AND b.vehicle_type IN ('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY')
+  AND NOT EXISTS (
+      SELECT 1 FROM vehicles v
+      WHERE v.customer_id = b.customer_id
+        AND v.make = b.vehicle_make
+        AND v.model = b.vehicle_model
+        AND v.year IS NOT DISTINCT FROM b.vehicle_year
+  );
+
+UPDATE bookings b
+SET vehicle_id = v.id
+FROM vehicles v
+WHERE b.vehicle_id IS NULL
+  AND v.customer_id = b.customer_id
+  AND v.vehicle_type = b.vehicle_type
+  AND v.make = b.vehicle_make
+  AND v.model = b.vehicle_model
+  AND v.year IS NOT DISTINCT FROM b.vehicle_year;
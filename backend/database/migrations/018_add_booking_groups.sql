@@ -0,0 +1,22 @@
+-- Several vehicles booked together under one reference, each as its own booking line
+CREATE TABLE IF NOT EXISTS booking_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reference_number VARCHAR(100) UNIQUE NOT NULL,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    time VARCHAR(5) NOT NULL,
+    appointment_type VARCHAR(50) DEFAULT 'studio' CHECK (appointment_type IN ('studio', 'mobile')),
+    scheduling_mode VARCHAR(20) NOT NULL DEFAULT 'back_to_back' CHECK (scheduling_mode IN ('back_to_back', 'parallel')),
+    payment_method VARCHAR(50) NOT NULL CHECK (payment_method IN ('card', 'cash')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_groups_customer_id ON booking_groups(customer_id);
+
+CREATE TRIGGER update_booking_groups_updated_at BEFORE UPDATE ON booking_groups
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS booking_group_id UUID REFERENCES booking_groups(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_booking_group_id ON bookings(booking_group_id);
@@ -0,0 +1,69 @@
+-- Companies that book on account and are invoiced monthly
+CREATE TABLE IF NOT EXISTS fleet_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    contact_name VARCHAR(255),
+    contact_email VARCHAR(255) NOT NULL,
+    phone VARCHAR(50),
+    billing_address TEXT,
+    vat_number VARCHAR(50),
+    payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0),
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_fleet_accounts_updated_at BEFORE UPDATE ON fleet_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Customers allowed to book on an account
+CREATE TABLE IF NOT EXISTS fleet_account_bookers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    fleet_account_id UUID NOT NULL REFERENCES fleet_accounts(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (fleet_account_id, customer_id)
+);
+
+CREATE TRIGGER update_fleet_account_bookers_updated_at BEFORE UPDATE ON fleet_account_bookers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS fleet_invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    fleet_account_id UUID NOT NULL REFERENCES fleet_accounts(id) ON DELETE CASCADE,
+    invoice_number VARCHAR(100) UNIQUE NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    booking_count INTEGER NOT NULL CHECK (booking_count >= 0),
+    total DECIMAL(10,2) NOT NULL CHECK (total >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid', 'void')),
+    issued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    due_date DATE NOT NULL,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fleet_invoices_fleet_account_id_period_start ON fleet_invoices(fleet_account_id, period_start);
+
+CREATE TRIGGER update_fleet_invoices_updated_at BEFORE UPDATE ON fleet_invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Negotiated rules override the standard rule with the same type and code
+ALTER TABLE price_rules ADD COLUMN IF NOT EXISTS fleet_account_id UUID REFERENCES fleet_accounts(id) ON DELETE CASCADE;
+ALTER TABLE price_rules DROP CONSTRAINT IF EXISTS price_rules_rule_type_code_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_rules_standard_type_code
+    ON price_rules(rule_type, code) WHERE fleet_account_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_rules_fleet_type_code
+    ON price_rules(fleet_account_id, rule_type, code) WHERE fleet_account_id IS NOT NULL;
+
+-- Bookings charged to an account and the invoice that billed them
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_method_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_method_check
+    CHECK (payment_method IN ('card', 'cash', 'on_account'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fleet_account_id UUID REFERENCES fleet_accounts(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fleet_invoice_id UUID REFERENCES fleet_invoices(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_fleet_account_id ON bookings(fleet_account_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_fleet_invoice_id ON bookings(fleet_invoice_id);
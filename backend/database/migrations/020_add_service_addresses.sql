@@ -0,0 +1,9 @@
+-- Where mobile jobs are done, and what travelling there cost
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS service_address JSONB;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS travel_distance_km DECIMAL(6, 2);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS travel_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (travel_fee >= 0);
+
+ALTER TABLE recurring_bookings ADD COLUMN IF NOT EXISTS service_address JSONB;
+ALTER TABLE booking_groups ADD COLUMN IF NOT EXISTS service_address JSONB;
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS travel_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (travel_fee >= 0);
@@ -0,0 +1,18 @@
+-- Webhook events from the payment provider, so a redelivered event is only applied once
+CREATE TABLE IF NOT EXISTS payment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(50) NOT NULL DEFAULT 'stripe',
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'processed' CHECK (status IN ('processed', 'ignored')),
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_booking_id ON payment_events(booking_id);
+
+CREATE TRIGGER update_payment_events_updated_at BEFORE UPDATE ON payment_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,53 @@
+-- Deposits taken up front where a no-show is costly, by service category or appointment type
+CREATE TABLE IF NOT EXISTS deposit_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(50) NOT NULL CHECK (scope IN ('category', 'appointment_type')),
+    code VARCHAR(50) NOT NULL,
+    deposit_type VARCHAR(50) NOT NULL CHECK (deposit_type IN ('percentage', 'fixed')),
+    value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (scope, code)
+);
+
+CREATE TRIGGER update_deposit_rules_updated_at BEFORE UPDATE ON deposit_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO deposit_rules (scope, code, deposit_type, value) VALUES
+    ('category', 'premium', 'percentage', 30),
+    ('appointment_type', 'mobile', 'percentage', 20)
+ON CONFLICT (scope, code) DO NOTHING;
+
+-- Every payment taken against a booking: deposit, balance or tip
+CREATE TABLE IF NOT EXISTS payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    kind VARCHAR(50) NOT NULL CHECK (kind IN ('deposit', 'balance', 'tip')),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    method VARCHAR(50) NOT NULL CHECK (method IN ('card', 'cash', 'on_account')),
+    status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    provider VARCHAR(50),
+    provider_reference VARCHAR(255),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    recorded_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON payments(booking_id);
+CREATE INDEX IF NOT EXISTS idx_payments_provider_reference ON payments(provider_reference);
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tip_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+    CHECK (payment_status IN ('pending', 'partially_paid', 'paid', 'failed'));
+
+-- Bookings paid before payments were itemised count as paid in full
+UPDATE bookings SET amount_paid = total_price WHERE payment_status = 'paid' AND amount_paid = 0;
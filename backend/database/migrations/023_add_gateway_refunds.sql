@@ -0,0 +1,20 @@
+-- Refunds are paid back through the provider that took the payment, one refund per payment refunded
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS payment_id UUID REFERENCES payments(id) ON DELETE SET NULL;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS provider VARCHAR(50);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS provider_refund_id VARCHAR(255);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS failure_reason VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+    CHECK (payment_status IN ('pending', 'partially_paid', 'paid', 'failed', 'partially_refunded', 'refunded'));
+
+-- Refunds already paid out by hand count towards what each booking has refunded
+UPDATE bookings b SET amount_refunded = r.total
+FROM (
+    SELECT booking_id, SUM(amount) AS total FROM refunds WHERE status = 'processed' GROUP BY booking_id
+) r
+WHERE r.booking_id = b.id AND b.amount_refunded = 0;
@@ -0,0 +1,14 @@
+-- Accounts confirm their email before the guest customer record with the same
+-- address, and its booking history, is linked to them
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS email_verification_token_hash VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS email_verification_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Accounts that already exist keep the customer they are linked to
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+-- Until then a customer account may have no customer record
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_check;
+ALTER TABLE users ADD CONSTRAINT users_check
+    CHECK (role <> 'customer' OR customer_id IS NOT NULL OR email_verified_at IS NULL);
@@ -7,6 +7,22 @@ import { config } from './config/env';
 import bookingRoutes from './routes/bookingRoutes';
 import serviceRoutes from './routes/serviceRoutes';
 import customerRoutes from './routes/customerRoutes';
+import bayRoutes from './routes/bayRoutes';
+import mobileUnitRoutes from './routes/mobileUnitRoutes';
+import calendarRoutes from './routes/calendarRoutes';
+import pricingRoutes from './routes/pricingRoutes';
+import promotionRoutes from './routes/promotionRoutes';
+import authRoutes from './routes/authRoutes';
+import userRoutes from './routes/userRoutes';
+import staffRoutes from './routes/staffRoutes';
+import refundRoutes from './routes/refundRoutes';
+import recurringBookingRoutes from './routes/recurringBookingRoutes';
+import waitlistRoutes from './routes/waitlistRoutes';
+import slotHoldRoutes from './routes/slotHoldRoutes';
+import bookingGroupRoutes from './routes/bookingGroupRoutes';
+import fleetAccountRoutes from './routes/fleetAccountRoutes';
+import serviceAreaRoutes from './routes/serviceAreaRoutes';
+import paymentRoutes from './routes/paymentRoutes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import logger from './utils/logger';
 
@@ -28,12 +44,14 @@ export const createApp = () => {
   const limiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // limit each IP to 100 requests per windowMs
-    message: 'Too many requests from this IP, please try again later.'
+    message: 'Too many requests from this IP, please try again later.',
+    skip: (req) => req.path === '/payments/webhook' // the payment provider retries on its own schedule
   });
   
   app.use('/api/', limiter);
   
-  // Body parsing
+  // Body parsing; the payment webhook needs the raw body to verify its signature
+  app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
   
@@ -64,18 +82,50 @@ export const createApp = () => {
       version: '1.0.0',
       endpoints: {
         health: '/health',
+        auth: '/api/auth',
+        users: '/api/users',
         bookings: '/api/bookings',
         services: '/api/services',
-        customers: '/api/customers'
+        customers: '/api/customers',
+        bays: '/api/bays',
+        mobileUnits: '/api/mobile-units',
+        calendar: '/api/calendar',
+        pricing: '/api/pricing',
+        promotions: '/api/promotions',
+        staff: '/api/staff',
+        refunds: '/api/refunds',
+        recurringBookings: '/api/recurring-bookings',
+        waitlist: '/api/waitlist',
+        slotHolds: '/api/slot-holds',
+        bookingGroups: '/api/booking-groups',
+        fleetAccounts: '/api/fleet-accounts',
+        serviceArea: '/api/service-area',
+        payments: '/api/payments'
       },
       documentation: 'https://api.aquaglow.com/docs'
     });
   });
   
   // API routes
+  app.use('/api/auth', authRoutes);
+  app.use('/api/users', userRoutes);
   app.use('/api/bookings', bookingRoutes);
   app.use('/api/services', serviceRoutes);
   app.use('/api/customers', customerRoutes);
+  app.use('/api/bays', bayRoutes);
+  app.use('/api/mobile-units', mobileUnitRoutes);
+  app.use('/api/calendar', calendarRoutes);
+  app.use('/api/pricing', pricingRoutes);
+  app.use('/api/promotions', promotionRoutes);
+  app.use('/api/staff', staffRoutes);
+  app.use('/api/refunds', refundRoutes);
+  app.use('/api/recurring-bookings', recurringBookingRoutes);
+  app.use('/api/waitlist', waitlistRoutes);
+  app.use('/api/slot-holds', slotHoldRoutes);
+  app.use('/api/booking-groups', bookingGroupRoutes);
+  app.use('/api/fleet-accounts', fleetAccountRoutes);
+  app.use('/api/service-area', serviceAreaRoutes);
+  app.use('/api/payments', paymentRoutes);
   
   // Handle 404
   app.use(notFoundHandler);
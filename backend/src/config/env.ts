@@ -16,6 +16,13 @@ export const config = {
   // JWT
   JWT_SECRET: process.env.JWT_SECRET ?? 'your_jwt_secret',
   JWT_EXPIRY: process.env.JWT_EXPIRY ?? '24h',
+  REFRESH_TOKEN_EXPIRY_DAYS: parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS ?? '30', 10),
+  PASSWORD_RESET_EXPIRY_MINUTES: parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES ?? '60', 10),
+  EMAIL_VERIFICATION_EXPIRY_HOURS: parseInt(process.env.EMAIL_VERIFICATION_EXPIRY_HOURS ?? '48', 10),
+
+  // First admin account, created on startup when no admin exists
+  ADMIN_EMAIL: process.env.ADMIN_EMAIL ?? '',
+  ADMIN_PASSWORD: process.env.ADMIN_PASSWORD ?? '',
 
   // Email
   EMAIL_HOST: process.env.EMAIL_HOST ?? '',
@@ -24,9 +31,41 @@ export const config = {
   EMAIL_PASSWORD: process.env.EMAIL_PASSWORD ?? '',
   EMAIL_FROM: process.env.EMAIL_FROM ?? 'noreply@aquaglow.com',
 
-  // Payment
+  // Payment; the offline fake provider is only used when asked for, and never in production
+  PAYMENT_PROVIDER: process.env.PAYMENT_PROVIDER ?? 'stripe', // 'stripe' or 'fake'
   STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY ?? '',
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET ?? '',
+  FAKE_PAYMENT_WEBHOOK_SECRET: process.env.FAKE_PAYMENT_WEBHOOK_SECRET ?? 'fake_webhook_secret',
+
+  // Scheduling
+  SLOT_INTERVAL_MINUTES: parseInt(process.env.SLOT_INTERVAL_MINUTES ?? '30', 10),
+  CLOSED_ON_PUBLIC_HOLIDAYS: (process.env.CLOSED_ON_PUBLIC_HOLIDAYS ?? 'true') === 'true',
+  RESCHEDULE_CUTOFF_HOURS: parseInt(process.env.RESCHEDULE_CUTOFF_HOURS ?? '24', 10), // customers can't move a booking closer than this
+
+  SLOT_HOLD_MINUTES: parseInt(process.env.SLOT_HOLD_MINUTES ?? '10', 10), // how long a slot stays reserved during checkout
+  SLOT_HOLD_MAX_PER_CLIENT: parseInt(process.env.SLOT_HOLD_MAX_PER_CLIENT ?? '3', 10), // active checkout holds per IP
+  WAITLIST_OFFER_MINUTES: parseInt(process.env.WAITLIST_OFFER_MINUTES ?? '30', 10), // how long a freed slot is held out to a waitlisted customer
+  RECURRING_HORIZON_DAYS: parseInt(process.env.RECURRING_HORIZON_DAYS ?? '28', 10), // how far ahead recurring bookings are created
+
+  // Cancellation policy
+  FREE_CANCELLATION_HOURS: parseInt(process.env.FREE_CANCELLATION_HOURS ?? '24', 10), // full refund when cancelled at least this far ahead
+  LATE_CANCELLATION_FEE_PERCENT: parseFloat(process.env.LATE_CANCELLATION_FEE_PERCENT ?? '50'), // kept from the amount paid after that
+
+  // Mobile service area, centred on the studio
+  STUDIO_LATITUDE: parseFloat(process.env.STUDIO_LATITUDE ?? '-26.1076'),
+  STUDIO_LONGITUDE: parseFloat(process.env.STUDIO_LONGITUDE ?? '28.0567'),
+  SERVICE_AREA_RADIUS_KM: parseFloat(process.env.SERVICE_AREA_RADIUS_KM ?? '25'),
+  SERVICE_AREA_POLYGON: process.env.SERVICE_AREA_POLYGON ?? '', // JSON [[lat, lng], ...]; used instead of the radius when set
+  TRAVEL_FEE_FREE_KM: parseFloat(process.env.TRAVEL_FEE_FREE_KM ?? '5'), // no fee within this distance of the studio
+  TRAVEL_FEE_PER_KM: parseFloat(process.env.TRAVEL_FEE_PER_KM ?? '8'), // Rand per km beyond that
+  ROAD_DISTANCE_FACTOR: parseFloat(process.env.ROAD_DISTANCE_FACTOR ?? '1.3'), // road km per straight-line km
+  MOBILE_AVERAGE_SPEED_KMH: parseFloat(process.env.MOBILE_AVERAGE_SPEED_KMH ?? '40'),
+
+  // Pricing
+  QUOTE_TTL_MINUTES: parseInt(process.env.QUOTE_TTL_MINUTES ?? '30', 10),
+
+  // Loyalty (Glow Points)
+  LOYALTY_POINT_VALUE: parseFloat(process.env.LOYALTY_POINT_VALUE ?? '1'), // Rand value of one point when redeemed
 
   // CORS / Frontend
   FRONTEND_URL: process.env.FRONTEND_URL ?? 'http://localhost:3000',
@@ -0,0 +1,262 @@
+import { Response } from 'express';
+import { Booking, Customer, User } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { authService } from '../services/authService';
+
+export const authController = {
+  // Register customer account
+  async register(req: AuthRequest, res: Response) {
+    try {
+      const result = await authService.register(req.body);
+
+      if (!result) {
+        return res.status(409).json({
+          success: false,
+          message: 'An account with this email already exists'
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Account created, check your email to verify it'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating account',
+        error: error.message
+      });
+    }
+  },
+
+  // Log in
+  async login(req: AuthRequest, res: Response) {
+    try {
+      const { email, password } = req.body;
+
+      const result = await authService.login(email, password);
+
+      if (!result) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid email or password'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error logging in',
+        error: error.message
+      });
+    }
+  },
+
+  // Rotate refresh token
+  async refresh(req: AuthRequest, res: Response) {
+    try {
+      const tokens = await authService.refresh(req.body.refreshToken);
+
+      if (!tokens) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or expired refresh token'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: tokens
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error refreshing session',
+        error: error.message
+      });
+    }
+  },
+
+  // Log out (revoke refresh token)
+  async logout(req: AuthRequest, res: Response) {
+    try {
+      await authService.logout(req.body.refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error logging out',
+        error: error.message
+      });
+    }
+  },
+
+  // Request password reset email
+  async forgotPassword(req: AuthRequest, res: Response) {
+    try {
+      await authService.requestPasswordReset(req.body.email);
+
+      // Same response whether or not the account exists
+      res.json({
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error requesting password reset',
+        error: error.message
+      });
+    }
+  },
+
+  // Reset password with token
+  async resetPassword(req: AuthRequest, res: Response) {
+    try {
+      const { token, password } = req.body;
+
+      const reset = await authService.resetPassword(token, password);
+
+      if (!reset) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid or expired reset token'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Password reset successfully, please log in again'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error resetting password',
+        error: error.message
+      });
+    }
+  },
+
+  // Confirm the account's email and link its customer record
+  async verifyEmail(req: AuthRequest, res: Response) {
+    try {
+      const verified = await authService.verifyEmail(req.body.token);
+
+      if (!verified) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid or expired verification token'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Email verified, refresh your session to see your bookings'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error verifying email',
+        error: error.message
+      });
+    }
+  },
+
+  // Send the verification email again
+  async resendVerification(req: AuthRequest, res: Response) {
+    try {
+      const user = await User.findByPk(req.user!.id);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({
+          success: false,
+          message: 'Email is already verified'
+        });
+      }
+
+      await authService.sendVerification(user);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error sending verification email',
+        error: error.message
+      });
+    }
+  },
+
+  // Get signed-in customer
+  async getProfile(req: AuthRequest, res: Response) {
+    try {
+      const user = await User.findByPk(req.user!.id, {
+        include: [{ model: Customer, as: 'customer' }]
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching profile',
+        error: error.message
+      });
+    }
+  },
+
+  // Get signed-in customer's bookings
+  async getMyBookings(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user!.customerId) {
+        return res.status(404).json({
+          success: false,
+          message: 'No customer profile for this account'
+        });
+      }
+
+      const bookings = await Booking.findAll({
+        where: { customerId: req.user!.customerId },
+        order: [['date', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: bookings
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching bookings',
+        error: error.message
+      });
+    }
+  }
+};
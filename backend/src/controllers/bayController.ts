@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { Bay } from '../models';
+
+export const bayController = {
+  // Get all bays
+  async getAllBays(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+
+      const bays = await Bay.findAll({
+        where: includeInactive === 'true' ? {} : { active: true },
+        order: [['name', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: bays
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching bays',
+        error: error.message
+      });
+    }
+  },
+
+  // Get bay by ID
+  async getBayById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const bay = await Bay.findByPk(id);
+
+      if (!bay) {
+        return res.status(404).json({
+          success: false,
+          message: 'Bay not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: bay
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching bay',
+        error: error.message
+      });
+    }
+  },
+
+  // Create new bay
+  async createBay(req: Request, res: Response) {
+    try {
+      const bay = await Bay.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: bay,
+        message: 'Bay created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating bay',
+        error: error.message
+      });
+    }
+  },
+
+  // Update bay
+  async updateBay(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const bay = await Bay.findByPk(id);
+
+      if (!bay) {
+        return res.status(404).json({
+          success: false,
+          message: 'Bay not found'
+        });
+      }
+
+      await bay.update(req.body);
+
+      res.json({
+        success: true,
+        data: bay,
+        message: 'Bay updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating bay',
+        error: error.message
+      });
+    }
+  },
+
+  // Retire bay (soft delete, existing bookings keep their assignment)
+  async deleteBay(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const bay = await Bay.findByPk(id);
+
+      if (!bay) {
+        return res.status(404).json({
+          success: false,
+          message: 'Bay not found'
+        });
+      }
+
+      await bay.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Bay deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting bay',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,109 @@
+import { Booking, BookingStatusHistory, Customer, PriceRule, Service } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { bookingStatusService } from '../services/bookingStatusService';
+import { businessHoursService } from '../services/businessHoursService';
+import { depositService } from '../services/depositService';
+import { schedulingService } from '../services/schedulingService';
+import { buildBooking } from '../test/bookingFactory';
+import { mockResponse } from '../test/http';
+import { mockTransaction } from '../test/transaction';
+import { addDays, toDateKey } from '../utils/dateUtils';
+import { bookingController } from './bookingController';
+
+const date = toDateKey(addDays(new Date(), 1));
+
+const service = Service.build({
+  name: 'Full Detail',
+  description: 'Inside and out',
+  basePrice: 500,
+  duration: 120,
+  vehicleTypes: [],
+  category: 'premium',
+  features: [],
+  active: true,
+});
+
+const openEveryDay = Object.fromEntries([0, 1, 2, 3, 4, 5, 6].map(day => [day, { open: '08:00', close: '17:00' }]));
+
+const request = () => ({
+  body: {
+    customerName: 'Thandi Nkosi',
+    customerEmail: 'thandi@example.com',
+    date,
+    time: '09:00',
+    serviceType: 'Full Detail',
+    vehicleType: 'SEDAN',
+    paymentMethod: 'cash',
+  },
+}) as unknown as AuthRequest;
+
+describe('bookingController.createBooking', () => {
+  let transaction: ReturnType<typeof mockTransaction>['transaction'];
+
+  beforeEach(() => {
+    ({ transaction } = mockTransaction());
+    jest.spyOn(Service, 'findOne').mockResolvedValue(service);
+    jest.spyOn(PriceRule, 'findAll').mockResolvedValue([]);
+    jest.spyOn(businessHoursService, 'getCalendar')
+      .mockResolvedValue({ weeklyHours: openEveryDay, closures: {}, closedOnPublicHolidays: false });
+    jest.spyOn(schedulingService, 'fitsBusinessHours').mockResolvedValue(true);
+    jest.spyOn(schedulingService, 'lockDate').mockResolvedValue();
+    jest.spyOn(schedulingService, 'isStaffingEnabled').mockResolvedValue(false);
+    jest.spyOn(Customer, 'findOne').mockResolvedValue(Customer.build({ name: 'Thandi Nkosi', email: 'thandi@example.com' }));
+    jest.spyOn(depositService, 'getDeposit').mockResolvedValue(0);
+    jest.spyOn(Booking, 'create');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('books the free bay found while the date is locked', async () => {
+    const created = buildBooking();
+    const findResource = jest.spyOn(schedulingService, 'findAvailableResource').mockResolvedValue('bay-2');
+    jest.mocked(Booking.create).mockResolvedValue(created);
+    jest.spyOn(Booking, 'findByPk').mockResolvedValue(created);
+    jest.spyOn(bookingStatusService, 'recordHistory').mockResolvedValue(BookingStatusHistory.build());
+    const res = mockResponse();
+
+    await bookingController.createBooking(request(), res);
+
+    expect(schedulingService.lockDate).toHaveBeenCalledWith(date, transaction);
+    expect(findResource).toHaveBeenCalledWith(expect.objectContaining({ date, time: '09:00', duration: 120 }), transaction);
+    expect(Booking.create).toHaveBeenCalledWith(
+      expect.objectContaining({ bayId: 'bay-2', mobileUnitId: null, totalPrice: 500 }),
+      { transaction }
+    );
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('rejects the slot when every bay is taken', async () => {
+    jest.spyOn(schedulingService, 'findAvailableResource').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await bookingController.createBooking(request(), res);
+
+    expect(Booking.create).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      message: 'No bay or mobile unit is free for the selected time slot',
+    });
+  });
+
+  it('rejects the slot when no detailer is on shift for it', async () => {
+    jest.spyOn(schedulingService, 'findAvailableResource').mockResolvedValue('bay-2');
+    jest.mocked(schedulingService.isStaffingEnabled).mockResolvedValue(true);
+    jest.spyOn(schedulingService, 'findAvailableStaff').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await bookingController.createBooking(request(), res);
+
+    expect(Booking.create).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      message: 'No detailer is available for the selected time slot',
+    });
+  });
+});
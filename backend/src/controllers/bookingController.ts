@@ -1,14 +1,45 @@
 import { Request, Response } from 'express';
-import { Booking, Customer, Service } from '../models';
+import { Booking, Customer, Service, Staff, Refund, Vehicle, BookingGroup } from '../models';
 import { BookingStatus, AppointmentType } from '../models/Booking';
+import { PaymentKind } from '../models/Payment';
 import { Op, fn, col } from 'sequelize';
-import { calculatePrice } from '../utils/priceCalculator';
+import sequelize from '../config/database';
+import { calculatePriceBreakdown } from '../utils/priceCalculator';
+import {
+  schedulingService,
+  SlotCapacity,
+  staffHasSkills,
+  getStaffOnShift,
+  intervalsOverlap
+} from '../services/schedulingService';
+import { businessHoursService } from '../services/businessHoursService';
+import { quoteService } from '../services/quoteService';
+import { promotionService } from '../services/promotionService';
+import { loyaltyService } from '../services/loyaltyService';
+import { bookingStatusService, checkTransition, StatusCheck } from '../services/bookingStatusService';
+import { calculateRefund } from '../services/cancellationService';
+import { emailService } from '../services/emailService';
+import { waitlistService } from '../services/waitlistService';
+import { slotHoldService } from '../services/slotHoldService';
+import { fleetService } from '../services/fleetService';
+import { serviceAreaService, formatServiceAddress } from '../services/serviceAreaService';
+import { depositService } from '../services/depositService';
+import { paymentService, getAmountDue, summarisePayments } from '../services/paymentService';
+import { refundService } from '../services/refundService';
+import { WaitlistStatus } from '../models/WaitlistEntry';
+import { isValidBookingDate } from '../utils/helpers';
+import { fromDateKey, formatDateYYYYMMDD, combineDateTime } from '../utils/dateUtils';
+import { config } from '../config/env';
+import { AuthRequest, isStaff } from '../middleware/auth';
+
+// Bookings that have not started yet can still move to another time
+const RESCHEDULABLE_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
 
 export const bookingController = {
   // ================================
   // CREATE BOOKING
   // ================================
-  async createBooking(req: Request, res: Response) {
+  async createBooking(req: AuthRequest, res: Response) {
     try {
       const {
         customerName,
@@ -21,11 +52,20 @@ export const bookingController = {
         vehicleYear,
         vehicleMake,
         vehicleModel,
+        vehicleId,
         condition,
         extras,
         appointmentType,
         notes,
-        paymentMethod
+        paymentMethod,
+        quoteId,
+        promoCode,
+        redeemPoints,
+        totalPrice,
+        waitlistToken,
+        holdId,
+        fleetAccountId,
+        serviceAddress
       } = req.body;
 
       // ============ VALIDATION START ============
@@ -38,14 +78,14 @@ export const bookingController = {
         });
       }
 
-      // 2. Validate required fields
+      // 2. Validate required fields; a registered vehicle supplies its own type
       const requiredFields = {
         customerName,
         customerEmail,
         date,
         time,
         serviceType,
-        vehicleType,
+        ...(vehicleId ? {} : { vehicleType }),
         paymentMethod
       };
 
@@ -70,11 +110,36 @@ export const bookingController = {
       }
 
       // 4. Validate payment method
-      const validPaymentMethods = ['card', 'cash'];
+      const validPaymentMethods = ['card', 'cash', 'on_account'];
       if (!validPaymentMethods.includes(paymentMethod.toLowerCase())) {
         return res.status(400).json({
           success: false,
-          message: 'Payment method must be "card" or "cash"'
+          message: 'Payment method must be "card", "cash" or "on_account"'
+        });
+      }
+
+      const isOnAccount = paymentMethod.toLowerCase() === 'on_account';
+      if (isOnAccount && !fleetAccountId) {
+        return res.status(400).json({
+          success: false,
+          message: 'fleetAccountId is required for on-account bookings'
+        });
+      }
+
+      // 5. Mobile jobs need an address inside the service area, which also sets the travel fee
+      const isMobileRequest = appointmentType?.toLowerCase() === AppointmentType.MOBILE;
+      if (isMobileRequest && !serviceAddress) {
+        return res.status(400).json({
+          success: false,
+          message: 'serviceAddress is required for mobile appointments'
+        });
+      }
+
+      const areaCheck = isMobileRequest ? serviceAreaService.checkLocation(serviceAddress) : null;
+      if (areaCheck && !areaCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: areaCheck.message
         });
       }
       // ============ VALIDATION END ============
@@ -88,11 +153,38 @@ export const bookingController = {
         });
       }
 
+      // Check the trading calendar for the requested date and time
+      const calendar = await businessHoursService.getCalendar({ from: date, to: date });
+      const dateCheck = isValidBookingDate(fromDateKey(date), calendar);
+      if (!dateCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: dateCheck.message
+        });
+      }
+
+      if (!(await schedulingService.fitsBusinessHours(date, time, service.duration))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected time is outside business hours'
+        });
+      }
+
       // 2️⃣ Compute combined datetime
       const bookingDateTime = new Date(`${date} ${time}`);
 
-      // 3️⃣ Find or create customer
-      let customer = await Customer.findOne({ where: { email: customerEmail } });
+      // Saved vehicles and points belong to an account, so only its signed-in owner may use them
+      if ((vehicleId || redeemPoints) && !req.user?.customerId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Sign in to use saved vehicles or redeem points'
+        });
+      }
+
+      // 3️⃣ Use the signed-in customer, otherwise find or create one by email
+      let customer = req.user?.customerId
+        ? await Customer.findByPk(req.user.customerId)
+        : await Customer.findOne({ where: { email: customerEmail } });
       if (!customer) {
         customer = await Customer.create({
           name: customerName,
@@ -101,13 +193,31 @@ export const bookingController = {
         });
       }
 
-      // 4️⃣ Calculate price
-      const price = await calculatePrice({
-        serviceType,
-        vehicleType,
-        extras,
-        condition
-      });
+      // Repeat customers can book a car from their garage instead of retyping it
+      const vehicle = vehicleId
+        ? await Vehicle.findOne({ where: { id: vehicleId, customerId: customer.id, active: true } })
+        : null;
+      if (vehicleId && !vehicle) {
+        return res.status(400).json({
+          success: false,
+          message: 'Vehicle not found for this customer'
+        });
+      }
+
+      const vehicleDetails = vehicle
+        ? { vehicleType: vehicle.vehicleType, vehicleYear: vehicle.year, vehicleMake: vehicle.make, vehicleModel: vehicle.model }
+        : { vehicleType, vehicleYear, vehicleMake, vehicleModel };
+
+      // Only a signed-in authorised booker can charge a fleet account
+      if (
+        isOnAccount &&
+        !(req.user?.customerId && await fleetService.isAuthorisedBooker(fleetAccountId, req.user.customerId))
+      ) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not authorised to book on this fleet account'
+        });
+      }
 
       // 5️⃣ Generate reference number
       const referenceNumber = `AG-${Date.now()}-${Math.random()
@@ -115,29 +225,173 @@ export const bookingController = {
         .substr(2, 6)
         .toUpperCase()}`;
 
-      // 6️⃣ Create booking with proper typing
-      const booking = await Booking.create({
-        customerId: customer.id,
-        date,
-        time,
-        serviceType,
-        vehicleType,
-        vehicleYear: vehicleYear || null,
-        vehicleMake: vehicleMake || null,
-        vehicleModel: vehicleModel || null,
-        condition: condition || null,
-        extras: extras || [],
-        appointmentType: (appointmentType || AppointmentType.STUDIO).toLowerCase(),
-        totalPrice: price,
-        status: BookingStatus.PENDING,
-        paymentMethod: paymentMethod.toLowerCase(),
-        paymentStatus: 'pending',
-        notes: notes || null,
-        referenceNumber,
-        scheduledAt: bookingDateTime
-      } as any);
-
-      const bookingWithCustomer = await Booking.findByPk(booking.id, {
+      // 6️⃣ Create booking in a free bay or van, rejecting the slot when none is left
+      const resolvedAppointmentType = (appointmentType || AppointmentType.STUDIO).toLowerCase();
+
+      const result = await sequelize.transaction(async (transaction) => {
+        await schedulingService.lockDate(date, transaction);
+
+        // A waitlist offer must still be open and match the slot being booked
+        const waitlistOffer = waitlistToken ? await waitlistService.findOffer(waitlistToken, transaction) : null;
+        if (waitlistToken && (!waitlistOffer || waitlistOffer.date !== date || waitlistOffer.offeredTime !== time)) {
+          return { status: 400, message: 'Waitlist offer has expired or does not match the selected slot' };
+        }
+
+        // A slot held during checkout is not counted against itself. A lapsed hold
+        // falls back to the usual availability check.
+        const activeHoldId = waitlistOffer ? waitlistOffer.holdId : holdId;
+        const hold = activeHoldId ? await slotHoldService.findActiveHold(activeHoldId, transaction) : null;
+        if (hold && (hold.date !== date || hold.time !== time || hold.appointmentType !== resolvedAppointmentType)) {
+          return { status: 400, message: 'Slot hold does not match the selected slot' };
+        }
+
+        // 4️⃣ Apply any promo code, then price the booking or lock in the quoted total
+        const promoCheck = promoCode
+          ? await promotionService.checkPromotion(promoCode, { serviceType, vehicleType: vehicleDetails.vehicleType, customerEmail: customer.email, date }, transaction)
+          : null;
+        if (promoCheck && !promoCheck.valid) {
+          return { status: 400, message: promoCheck.message };
+        }
+
+        const priceInput = {
+          serviceType,
+          vehicleType: vehicleDetails.vehicleType,
+          extras,
+          condition,
+          promotion: promoCheck?.promotion,
+          fleetAccountId: isOnAccount ? fleetAccountId : null,
+          travel: areaCheck?.travel
+        };
+
+        // Quotes carry standard prices, so on-account bookings are always priced on the negotiated rules
+        const quoteCheck = quoteId && !isOnAccount
+          ? await quoteService.checkQuote(quoteId, { ...priceInput, totalPrice }, transaction)
+          : null;
+        if (quoteCheck && !quoteCheck.valid) {
+          return { status: 400, message: quoteCheck.message };
+        }
+
+        const breakdown = quoteCheck?.quote ? null : await calculatePriceBreakdown(priceInput);
+        if (!quoteCheck?.quote && !breakdown) {
+          return { status: 400, message: 'Invalid service type' };
+        }
+
+        const pricing = quoteCheck?.quote
+          ? { totalPrice: quoteCheck.quote.totalPrice, discountAmount: quoteCheck.quote.discountAmount || 0 }
+          : { totalPrice: breakdown!.totalPrice, discountAmount: breakdown!.discount?.amount || 0 };
+
+        // Glow Points come off after any promo discount
+        const redemption = redeemPoints
+          ? await loyaltyService.checkRedemption(customer.id, redeemPoints, Number(pricing.totalPrice), transaction)
+          : null;
+        if (redemption && !redemption.valid) {
+          return { status: 400, message: redemption.message };
+        }
+
+        const resourceId = await schedulingService.findAvailableResource({
+          date,
+          time,
+          duration: service.duration,
+          appointmentType: resolvedAppointmentType,
+          excludeHoldId: hold?.id,
+          location: areaCheck ? serviceAddress : undefined
+        }, transaction);
+
+        if (!resourceId) {
+          return { status: 409, message: 'No bay or mobile unit is free for the selected time slot' };
+        }
+
+        // A detailer is assigned on confirmation, but one must be on shift to take the slot
+        if (await schedulingService.isStaffingEnabled(transaction)) {
+          const staffId = await schedulingService.findAvailableStaff({
+            date,
+            time,
+            duration: service.duration,
+            appointmentType: resolvedAppointmentType,
+            serviceType,
+            excludeHoldId: hold?.id
+          }, transaction);
+
+          if (!staffId) {
+            return { status: 409, message: 'No detailer is available for the selected time slot' };
+          }
+        }
+
+        const isMobile = resolvedAppointmentType === AppointmentType.MOBILE;
+        const bookingTotal = Math.round((Number(pricing.totalPrice) - (redemption?.discount || 0)) * 100) / 100;
+
+        // Fleet bookings are invoiced monthly, so they never take a deposit
+        const depositAmount = isOnAccount
+          ? 0
+          : await depositService.getDeposit(serviceType, resolvedAppointmentType, bookingTotal, transaction);
+
+        const created = await Booking.create({
+          customerId: customer.id,
+          date,
+          time,
+          serviceType,
+          vehicleType: vehicleDetails.vehicleType,
+          vehicleYear: vehicleDetails.vehicleYear || null,
+          vehicleMake: vehicleDetails.vehicleMake || null,
+          vehicleModel: vehicleDetails.vehicleModel || null,
+          vehicleId: vehicle?.id || null,
+          fleetAccountId: isOnAccount ? fleetAccountId : null,
+          condition: condition || null,
+          extras: extras || [],
+          appointmentType: resolvedAppointmentType,
+          bayId: isMobile ? null : resourceId,
+          mobileUnitId: isMobile ? resourceId : null,
+          serviceAddress: isMobile ? serviceAddress : null,
+          travelDistanceKm: areaCheck?.travel?.distanceKm ?? null,
+          travelFee: areaCheck?.travel?.fee || 0,
+          promotionId: promoCheck?.promotion?.id || null,
+          discountAmount: pricing.discountAmount,
+          pointsRedeemed: redemption?.points || 0,
+          loyaltyDiscount: redemption?.discount || 0,
+          totalPrice: bookingTotal,
+          depositAmount,
+          status: BookingStatus.PENDING,
+          paymentMethod: paymentMethod.toLowerCase(),
+          paymentStatus: 'pending',
+          notes: notes || null,
+          referenceNumber,
+          scheduledAt: bookingDateTime
+        } as any, { transaction });
+
+        // Keep the first mobile address on file for customers without one
+        if (isMobile && !customer.address) {
+          await customer.update({ address: formatServiceAddress(serviceAddress) }, { transaction });
+        }
+
+        if (quoteCheck?.quote) {
+          await quoteService.redeemQuote(quoteCheck.quote, created.id, transaction);
+        }
+
+        if (redemption?.points) {
+          await loyaltyService.recordRedemption(created, redemption.points, transaction);
+        }
+
+        await bookingStatusService.recordHistory(created, null, { changedById: req.user?.id }, transaction);
+
+        if (hold) {
+          await slotHoldService.convert(hold, created.id, transaction);
+        }
+
+        if (waitlistOffer) {
+          await waitlistOffer.update({ status: WaitlistStatus.BOOKED, bookingId: created.id }, { transaction });
+        }
+
+        return { booking: created };
+      });
+
+      if (!result.booking) {
+        return res.status(result.status!).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      const bookingWithCustomer = await Booking.findByPk(result.booking.id, {
         include: [{ model: Customer, as: 'customer' }]
       });
 
@@ -149,14 +403,6 @@ export const bookingController = {
 
     } catch (error: any) {
       console.error('Create booking error:', error);
-      
-      // 🔒 Double booking protection
-      if (error.name === 'SequelizeUniqueConstraintError' || error.code === '23505') {
-        return res.status(409).json({
-          success: false,
-          message: 'Selected time slot is already booked'
-        });
-      }
 
       res.status(500).json({
         success: false,
@@ -234,7 +480,12 @@ export const bookingController = {
       const { id } = req.params;
 
       const booking = await Booking.findByPk(id, {
-        include: [{ model: Customer, as: 'customer' }]
+        include: [
+          { model: Customer, as: 'customer' },
+          { model: Vehicle, as: 'vehicle' },
+          { model: BookingGroup, as: 'bookingGroup' },
+          { model: Refund, as: 'refunds' }
+        ]
       });
 
       if (!booking) {
@@ -344,11 +595,11 @@ export const bookingController = {
       const revenueResult: any = await Booking.findOne({
         where: {
           ...dateFilter,
-          paymentStatus: 'paid'
+          paymentStatus: { [Op.in]: ['paid', 'partially_paid'] }
         },
         attributes: [
-          [fn('COALESCE', fn('SUM', col('totalPrice')), 0), 'totalRevenue'],
-          [fn('AVG', col('totalPrice')), 'averageRevenue']
+          [fn('COALESCE', fn('SUM', col('amountPaid')), 0), 'totalRevenue'],
+          [fn('AVG', col('amountPaid')), 'averageRevenue']
         ],
         raw: true
       });
@@ -461,10 +712,17 @@ export const bookingController = {
   // ================================
   // UPDATE BOOKING STATUS
   // ================================
-  async updateBookingStatus(req: Request, res: Response) {
+  async updateBookingStatus(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { status, notes } = req.body;
+      const { status, notes, reason, waiveFee, collectBalance } = req.body;
+
+      if (!Object.values(BookingStatus).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid booking status'
+        });
+      }
 
       const booking = await Booking.findByPk(id);
       if (!booking) {
@@ -474,21 +732,44 @@ export const bookingController = {
         });
       }
 
-      await booking.update({
-        status,
-        notes: notes || booking.notes
-      });
-
-      // Loyalty points on completion
-      if (status === BookingStatus.COMPLETED && booking.paymentStatus === 'paid') {
-        const customer = await Customer.findByPk(booking.customerId);
-        if (customer) {
-          const pointsToAdd = Math.floor(booking.totalPrice / 100);
-          await customer.update({
-            loyaltyPoints: (customer.loyaltyPoints || 0) + pointsToAdd,
-            totalSpent: Number(customer.totalSpent || 0) + Number(booking.totalPrice)
-          });
+      // Staff may take whatever is still owed as they complete the booking
+      const takesBalance = status === BookingStatus.COMPLETED && !!collectBalance;
+      if (takesBalance && !['card', 'cash'].includes(collectBalance.method)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Balance payment method must be "card" or "cash"'
+        });
+      }
+
+      const result = await sequelize.transaction(async (transaction) => {
+        const change = await bookingStatusService.changeStatus(booking, status, {
+          changedById: req.user?.id,
+          reason: reason || notes,
+          waiveFee: !!waiveFee,
+          balanceCollected: takesBalance
+        }, transaction);
+
+        const balance = getAmountDue(booking, PaymentKind.BALANCE);
+        if (change.valid && takesBalance && balance > 0) {
+          await paymentService.recordPayment(booking, {
+            kind: PaymentKind.BALANCE,
+            amount: balance,
+            method: collectBalance.method,
+            reference: collectBalance.reference
+          }, req.user?.id, transaction);
         }
+
+        if (change.valid && notes) {
+          await booking.update({ notes }, { transaction });
+        }
+        return change;
+      });
+
+      if (!result.valid) {
+        return res.status(result.conflict ? 409 : 400).json({
+          success: false,
+          message: result.message
+        });
       }
 
       res.json({
@@ -508,7 +789,7 @@ export const bookingController = {
   // ================================
   // UPDATE PAYMENT STATUS
   // ================================
-  async updatePaymentStatus(req: Request, res: Response) {
+  async updatePaymentStatus(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
       const { paymentStatus, paymentMethod, transactionId } = req.body;
@@ -521,22 +802,64 @@ export const bookingController = {
         });
       }
 
+      if (booking.status === BookingStatus.CANCELLED || booking.status === BookingStatus.NO_SHOW) {
+        return res.status(400).json({
+          success: false,
+          message: `A ${booking.status} booking cannot be paid`
+        });
+      }
+
+      // Money already taken is only given back through a refund
+      if (paymentStatus !== 'paid' && Number(booking.amountPaid || 0) > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Payments have been recorded on this booking, refund them instead'
+        });
+      }
+
+      const method = paymentMethod || booking.paymentMethod;
+
       const updateData: any = {
-        paymentStatus,
-        paymentMethod: paymentMethod || booking.paymentMethod
+        paymentMethod: method
       };
 
       if (transactionId) {
         updateData.transactionId = transactionId;
       }
 
-      await booking.update(updateData);
+      const result = await sequelize.transaction(async (transaction): Promise<StatusCheck> => {
+        await booking.update(updateData, { transaction });
 
-      if (
-        paymentStatus === 'paid' &&
-        booking.status === BookingStatus.PENDING
-      ) {
-        await booking.update({ status: BookingStatus.CONFIRMED });
+        if (paymentStatus !== 'paid') {
+          await booking.update({ paymentStatus }, { transaction });
+          return { valid: true };
+        }
+
+        // Marking a booking paid records whatever is still owed as a balance payment,
+        // which also confirms it once a detailer can be assigned
+        const balance = getAmountDue(booking, PaymentKind.BALANCE);
+        if (balance > 0) {
+          await paymentService.recordPayment(booking, {
+            kind: PaymentKind.BALANCE,
+            amount: balance,
+            method,
+            reference: transactionId
+          }, req.user?.id, transaction);
+        }
+
+        return booking.status === BookingStatus.PENDING
+          ? bookingStatusService.changeStatus(booking, BookingStatus.CONFIRMED, {
+              changedById: req.user?.id,
+              reason: 'Payment received'
+            }, transaction)
+          : { valid: true };
+      });
+
+      if (!result.valid) {
+        return res.status(result.conflict ? 409 : 400).json({
+          success: false,
+          message: `Booking marked as paid, but it could not be confirmed: ${result.message}`
+        });
       }
 
       res.json({
@@ -553,13 +876,413 @@ export const bookingController = {
     }
   },
 
+  // ================================
+  // BOOKING PAYMENTS
+  // ================================
+  async getBookingPayments(req: AuthRequest, res: Response) {
+    try {
+      const booking = await Booking.findByPk(req.params.id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      const payments = await paymentService.getPayments(booking.id);
+      const refunds = await Refund.findAll({
+        where: { bookingId: booking.id },
+        order: [['createdAt', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          summary: summarisePayments(booking),
+          payments,
+          refunds
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching booking payments',
+        error: error.message
+      });
+    }
+  },
+
+  async recordBookingPayment(req: AuthRequest, res: Response) {
+    try {
+      const { kind, amount, method, reference } = req.body;
+
+      const booking = await Booking.findByPk(req.params.id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      if (booking.paymentMethod === 'on_account') {
+        return res.status(400).json({
+          success: false,
+          message: 'On-account bookings are invoiced to the fleet account'
+        });
+      }
+
+      if (booking.status === BookingStatus.CANCELLED || booking.status === BookingStatus.NO_SHOW) {
+        return res.status(400).json({
+          success: false,
+          message: `A ${booking.status} booking cannot be paid`
+        });
+      }
+
+      // Deposits and balances default to what is owed; tips always name their amount
+      const payable = kind === PaymentKind.TIP ? Number(amount) : Number(amount ?? getAmountDue(booking, kind));
+      const balance = getAmountDue(booking, PaymentKind.BALANCE);
+
+      if (payable <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: kind === PaymentKind.DEPOSIT
+            ? 'No deposit is owed on this booking'
+            : 'Booking has already been paid'
+        });
+      }
+
+      if (kind !== PaymentKind.TIP && payable > balance) {
+        return res.status(400).json({
+          success: false,
+          message: `Only R${balance} is still owed on this booking`
+        });
+      }
+
+      const payment = await sequelize.transaction(async (transaction) =>
+        paymentService.recordPayment(booking, { kind, amount: payable, method, reference }, req.user?.id, transaction)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          payment,
+          summary: summarisePayments(booking)
+        },
+        message: 'Payment recorded'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error recording payment',
+        error: error.message
+      });
+    }
+  },
+
+  // ================================
+  // REFUND BOOKING
+  // ================================
+  async refundBooking(req: AuthRequest, res: Response) {
+    try {
+      const { amount, reason } = req.body;
+
+      const booking = await Booking.findByPk(req.params.id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      const result = await refundService.refundBooking(booking, { amount, reason }, req.user?.id);
+
+      if (!result.valid) {
+        return res.status(400).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      const total = result.refunds!.reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+      res.status(201).json({
+        success: true,
+        data: result.refunds,
+        message: `R${total.toFixed(2)} refund requested`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error refunding booking',
+        error: error.message
+      });
+    }
+  },
+
+  // ================================
+  // RESCHEDULE BOOKING
+  // ================================
+  async rescheduleBooking(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { date, time, reason } = req.body;
+
+      const booking = await Booking.findByPk(id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only pending or confirmed bookings can be rescheduled'
+        });
+      }
+
+      const previous = { date: formatDateYYYYMMDD(booking.date), time: booking.time };
+      if (previous.date === date && previous.time === time) {
+        return res.status(400).json({
+          success: false,
+          message: 'Booking is already scheduled for that time'
+        });
+      }
+
+      // Customers must move their booking before the cutoff; staff can move it at any time
+      const hoursUntil = (combineDateTime(previous.date, previous.time).getTime() - Date.now()) / (60 * 60 * 1000);
+      if (!isStaff(req.user) && hoursUntil < config.RESCHEDULE_CUTOFF_HOURS) {
+        return res.status(400).json({
+          success: false,
+          message: `Bookings can only be rescheduled up to ${config.RESCHEDULE_CUTOFF_HOURS} hours before the appointment`
+        });
+      }
+
+      const calendar = await businessHoursService.getCalendar({ from: date, to: date });
+      const dateCheck = isValidBookingDate(fromDateKey(date), calendar);
+      if (!dateCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: dateCheck.message
+        });
+      }
+
+      if (combineDateTime(date, time) < new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'New time cannot be in the past'
+        });
+      }
+
+      const duration = await schedulingService.getServiceDuration(booking.serviceType);
+      if (!(await schedulingService.fitsBusinessHours(date, time, duration))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected time is outside business hours'
+        });
+      }
+
+      const result = await sequelize.transaction(async (transaction) => {
+        // Lock both days in a fixed order so two reschedules cannot deadlock
+        for (const day of [...new Set([previous.date, date])].sort()) {
+          await schedulingService.lockDate(day, transaction);
+        }
+
+        // A cancel or another reschedule may have landed since the booking was read
+        await booking.reload({ lock: transaction.LOCK.UPDATE, transaction });
+        if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+          return { status: 400, message: 'Only pending or confirmed bookings can be rescheduled' };
+        }
+        if (formatDateYYYYMMDD(booking.date) !== previous.date || booking.time !== previous.time) {
+          return { status: 409, message: 'Booking was changed while rescheduling, please try again' };
+        }
+
+        const slot = {
+          date,
+          time,
+          duration,
+          appointmentType: booking.appointmentType,
+          serviceType: booking.serviceType,
+          excludeBookingId: booking.id,
+          location: booking.serviceAddress || undefined
+        };
+
+        const resourceId = await schedulingService.findAvailableResource(slot, transaction);
+        if (!resourceId) {
+          return { status: 409, message: 'No bay or mobile unit is free for the selected time slot' };
+        }
+
+        const updateData: any = {
+          date,
+          time,
+          bayId: booking.appointmentType === AppointmentType.MOBILE ? null : resourceId,
+          mobileUnitId: booking.appointmentType === AppointmentType.MOBILE ? resourceId : null
+        };
+
+        // Confirmed bookings move to whichever detailer is free at the new time
+        if (await schedulingService.isStaffingEnabled(transaction)) {
+          const staffId = await schedulingService.findAvailableStaff(slot, transaction);
+          if (!staffId) {
+            return { status: 409, message: 'No detailer is available for the selected time slot' };
+          }
+          updateData.staffId = booking.status === BookingStatus.CONFIRMED ? staffId : null;
+        }
+
+        if (reason) {
+          updateData.notes = `${booking.notes || ''}\nRescheduled: ${reason}`;
+        }
+
+        await booking.update(updateData, { transaction });
+        return { booking };
+      });
+
+      if (!result.booking) {
+        return res.status(result.status!).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      const rescheduled = await Booking.findByPk(booking.id, {
+        include: [{ model: Customer, as: 'customer' }]
+      });
+      emailService.sendBookingRescheduled(rescheduled!, previous)
+        .catch(error => console.error('Error sending reschedule email:', error));
+
+      // The old slot is now free for anyone waiting on that day
+      waitlistService.offerNext(previous.date, booking.appointmentType)
+        .catch(error => console.error('Error offering freed slot to waitlist:', error));
+
+      res.json({
+        success: true,
+        data: rescheduled,
+        message: 'Booking rescheduled successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error rescheduling booking',
+        error: error.message
+      });
+    }
+  },
+
+  // ================================
+  // GET STATUS HISTORY
+  // ================================
+  async getBookingHistory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const booking = await Booking.findByPk(id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      const history = await bookingStatusService.getHistory(booking.id);
+
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching booking history',
+        error: error.message
+      });
+    }
+  },
+
+  // ================================
+  // ASSIGN DETAILER
+  // ================================
+  async assignStaff(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { staffId } = req.body;
+
+      if (!staffId) {
+        return res.status(400).json({
+          success: false,
+          message: 'staffId is required'
+        });
+      }
+
+      const booking = await Booking.findByPk(id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      const staff = await Staff.findByPk(staffId);
+      if (!staff || !staff.active) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      if (!staffHasSkills(staff.skills, booking.serviceType, booking.appointmentType)) {
+        return res.status(400).json({
+          success: false,
+          message: `${staff.name} is not skilled for this booking`
+        });
+      }
+
+      const date = formatDateYYYYMMDD(booking.date);
+      const assigned = await sequelize.transaction(async (transaction) => {
+        await schedulingService.lockDate(date, transaction);
+
+        const [rostered, booked, duration] = await Promise.all([
+          schedulingService.getRosteredStaff(date, booking.serviceType, booking.appointmentType, transaction),
+          schedulingService.getStaffBookedIntervals(date, { excludeBookingId: booking.id, transaction }),
+          schedulingService.getServiceDuration(booking.serviceType, transaction)
+        ]);
+        const requested = schedulingService.buildInterval(booking.time, duration, booking.appointmentType);
+
+        const onShift = getStaffOnShift(rostered, requested.start, requested.start + duration);
+        const busy = booked.some(interval => interval.resourceId === staff.id && intervalsOverlap(requested, interval));
+        if (!onShift.includes(staff.id) || busy) return false;
+
+        await booking.update({ staffId: staff.id }, { transaction });
+        return true;
+      });
+
+      if (!assigned) {
+        return res.status(409).json({
+          success: false,
+          message: `${staff.name} is not on shift or is busy at that time`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: booking,
+        message: 'Detailer assigned'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error assigning detailer',
+        error: error.message
+      });
+    }
+  },
+
   // ================================
   // GET AVAILABLE SLOTS
   // ================================
   async getAvailableSlots(req: Request, res: Response) {
     try {
-      const { date } = req.params;
-      const { duration = 60 } = req.query; // duration in minutes
+      const date = (req.query.date || req.params.date) as string;
+      const { duration, serviceType, appointmentType = AppointmentType.STUDIO, latitude, longitude } = req.query;
       
       if (!date) {
         return res.status(400).json({
@@ -568,58 +1291,43 @@ export const bookingController = {
         });
       }
 
-      const openHour = 8; // 8 AM
-      const closeHour = 18; // 6 PM
-      const slotMinutes = 30;
+      // Size the slot by the requested service when given, else by explicit duration
+      const durationMinutes = serviceType
+        ? await schedulingService.getServiceDuration(serviceType as string)
+        : parseInt((duration as string) || '60');
 
-      // Get bookings for the day
-      const bookings = await Booking.findAll({
-        where: {
-          status: {
-            [Op.in]: [BookingStatus.PENDING, BookingStatus.CONFIRMED]
-          },
-          date: date
-        }
-      });
+      const requestedType = (appointmentType as string).toLowerCase();
 
-      const availableSlots: string[] = []; // Just store time strings (HH:MM format)
-      const durationMs = parseInt(duration as string) * 60 * 1000;
-
-      for (let h = openHour; h < closeHour; h++) {
-        for (let m = 0; m < 60; m += slotMinutes) {
-          const slotTime = `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-          const start = new Date(`${date} ${slotTime}:00`);
-          const end = new Date(start.getTime() + durationMs);
-
-          // Skip if end time is after closing
-          if (end.getHours() >= closeHour) continue;
-
-          // Check for time conflicts
-          const conflict = bookings.some((booking: any) => {
-            const bookingTime = booking.time;
-            if (!bookingTime) return false;
-            
-            // Convert to comparable format
-            const bookingTimeStr = typeof bookingTime === 'string' 
-              ? bookingTime.trim()
-              : bookingTime.toTimeString().slice(0, 5);
-            
-            return slotTime === bookingTimeStr;
-          });
-
-          if (!conflict) {
-            availableSlots.push(slotTime); // Push the time string in HH:MM format
-          }
-        }
+      // With the customer's address, mobile slots allow for the vans' travel
+      const location = latitude && longitude
+        ? { latitude: parseFloat(latitude as string), longitude: parseFloat(longitude as string) }
+        : undefined;
+
+      // Capacity per slot for every appointment type
+      const capacity: Record<string, SlotCapacity[]> = {};
+      for (const type of Object.values(AppointmentType)) {
+        capacity[type] = await schedulingService.getSlotCapacity(
+          date,
+          durationMinutes,
+          type,
+          serviceType as string | undefined,
+          location
+        );
       }
 
+      const availableSlots = (capacity[requestedType] || [])
+        .filter(slot => slot.available > 0)
+        .map(slot => slot.time);
+
       res.json({
         success: true,
         data: {
           date,
-          duration: parseInt(duration as string),
+          duration: durationMinutes,
+          appointmentType: requestedType,
           availableSlots, // Array of time strings like ["08:00", "08:30", ...]
-          totalSlots: availableSlots.length
+          totalSlots: availableSlots.length,
+          capacity // { studio: [{ time, available, total }], mobile: [...] }
         }
       });
     } catch (error: any) {
@@ -635,10 +1343,10 @@ export const bookingController = {
   // ================================
   // CANCEL BOOKING
   // ================================
-  async cancelBooking(req: Request, res: Response) {
+  async cancelBooking(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { reason, refundAmount } = req.body;
+      const { reason, waiveFee } = req.body;
 
       const booking = await Booking.findByPk(id);
       if (!booking) {
@@ -648,40 +1356,77 @@ export const bookingController = {
         });
       }
 
-      if (
-        booking.status === BookingStatus.CANCELLED ||
-        booking.status === BookingStatus.COMPLETED
-      ) {
+      const result = await sequelize.transaction(async (transaction) => {
+        const change = await bookingStatusService.changeStatus(booking, BookingStatus.CANCELLED, {
+          changedById: req.user?.id,
+          reason,
+          // Only staff may waive the late-cancellation fee
+          waiveFee: isStaff(req.user) && !!waiveFee
+        }, transaction);
+
+        if (change.valid && reason) {
+          await booking.update({ notes: `${booking.notes || ''}\nCancelled: ${reason}` }, { transaction });
+        }
+        return change;
+      });
+
+      if (!result.valid) {
         return res.status(400).json({
           success: false,
-          message: 'Booking cannot be cancelled'
+          message: result.message
         });
       }
 
-      const updateData: any = {
-        status: BookingStatus.CANCELLED
-      };
+      res.json({
+        success: true,
+        data: {
+          booking,
+          refund: result.refund
+        },
+        message: result.refund!.refundAmount > 0
+          ? `Booking cancelled. R${result.refund!.refundAmount.toFixed(2)} will be refunded`
+          : 'Booking cancelled. No refund is due'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error cancelling booking',
+        error: error.message
+      });
+    }
+  },
 
-      if (reason) {
-        updateData.notes = `${booking.notes || ''}\nCancelled: ${reason}`;
-      }
+  // ================================
+  // PREVIEW CANCELLATION
+  // ================================
+  async getCancellationQuote(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
 
-      if (refundAmount && booking.paymentStatus === 'paid') {
-        updateData.refundAmount = refundAmount;
-        updateData.refundStatus = 'pending';
+      const booking = await Booking.findByPk(id);
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
       }
 
-      await booking.update(updateData);
+      const check = checkTransition(booking, BookingStatus.CANCELLED);
+      if (!check.valid) {
+        return res.status(400).json({
+          success: false,
+          message: check.message
+        });
+      }
 
       res.json({
         success: true,
-        data: booking,
-        message: 'Booking cancelled successfully'
+        data: calculateRefund(booking)
       });
     } catch (error: any) {
       res.status(500).json({
         success: false,
-        message: 'Error cancelling booking',
+        message: 'Error calculating cancellation refund',
         error: error.message
       });
     }
@@ -0,0 +1,225 @@
+import { Response } from 'express';
+import sequelize from '../config/database';
+import { BookingGroup, Customer } from '../models';
+import { AppointmentType } from '../models/Booking';
+import { GroupSchedulingMode } from '../models/BookingGroup';
+import { bookingGroupService, summariseLines } from '../services/bookingGroupService';
+import { businessHoursService } from '../services/businessHoursService';
+import { AuthRequest, AuthUser, isStaff } from '../middleware/auth';
+import { isValidBookingDate } from '../utils/helpers';
+import { fromDateKey, combineDateTime } from '../utils/dateUtils';
+
+// Staff can manage any group; customers only their own
+const canAccess = (user: AuthUser | undefined, group: BookingGroup) =>
+  isStaff(user) || (!!user?.customerId && user.customerId === group.customerId);
+
+async function findAccessible(req: AuthRequest, res: Response): Promise<BookingGroup | null> {
+  const group = await BookingGroup.findByPk(req.params.id);
+
+  if (!group) {
+    res.status(404).json({
+      success: false,
+      message: 'Booking group not found'
+    });
+    return null;
+  }
+
+  if (!canAccess(req.user, group)) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. Insufficient permissions.'
+    });
+    return null;
+  }
+
+  return group;
+}
+
+async function describeGroup(group: BookingGroup) {
+  const lines = await bookingGroupService.getLines(group.id);
+  return {
+    ...group.toJSON(),
+    lines,
+    ...summariseLines(lines)
+  };
+}
+
+export const bookingGroupController = {
+  // Book several vehicles under one reference
+  async createGroup(req: AuthRequest, res: Response) {
+    try {
+      const { customerName, customerEmail, phone, date, time, paymentMethod, notes, lines } = req.body;
+
+      const calendar = await businessHoursService.getCalendar({ from: date, to: date });
+      const dateCheck = isValidBookingDate(fromDateKey(date), calendar);
+      if (!dateCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: dateCheck.message
+        });
+      }
+
+      if (combineDateTime(date, time) <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected time has already passed'
+        });
+      }
+
+      // Saved vehicles belong to an account, so only its signed-in owner may use them
+      if (lines.some((line: { vehicleId?: string }) => line.vehicleId) && !req.user?.customerId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Sign in to use saved vehicles'
+        });
+      }
+
+      // Use the signed-in customer, otherwise find or create one by email
+      let customer = req.user?.customerId
+        ? await Customer.findByPk(req.user.customerId)
+        : await Customer.findOne({ where: { email: customerEmail } });
+      if (!customer) {
+        customer = await Customer.create({
+          name: customerName,
+          email: customerEmail,
+          phone: phone || ''
+        });
+      }
+
+      const result = await bookingGroupService.createGroup({
+        customer,
+        date,
+        time,
+        appointmentType: req.body.appointmentType || AppointmentType.STUDIO,
+        schedulingMode: req.body.schedulingMode || GroupSchedulingMode.BACK_TO_BACK,
+        paymentMethod,
+        notes,
+        serviceAddress: req.body.serviceAddress,
+        lines,
+        changedById: req.user?.id
+      });
+
+      if (!result.group) {
+        return res.status(result.conflict ? 409 : 400).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: await describeGroup(result.group),
+        message: 'Booking group created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating booking group',
+        error: error.message
+      });
+    }
+  },
+
+  // Get a group with its lines and totals
+  async getGroupById(req: AuthRequest, res: Response) {
+    try {
+      const group = await findAccessible(req, res);
+      if (!group) return;
+
+      res.json({
+        success: true,
+        data: await describeGroup(group)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching booking group',
+        error: error.message
+      });
+    }
+  },
+
+  // Record one payment for every open line; single lines are paid through their booking
+  async updateGroupPayment(req: AuthRequest, res: Response) {
+    try {
+      const group = await findAccessible(req, res);
+      if (!group) return;
+
+      const { paymentStatus, transactionId } = req.body;
+      if (!['pending', 'paid', 'failed'].includes(paymentStatus)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Payment status must be "pending", "paid" or "failed"'
+        });
+      }
+
+      await sequelize.transaction(async (transaction) => {
+        await bookingGroupService.updatePayment(group.id, { paymentStatus, transactionId }, {
+          changedById: req.user?.id,
+          reason: 'Payment received'
+        }, transaction);
+      });
+
+      res.json({
+        success: true,
+        data: await describeGroup(group),
+        message: 'Payment status updated'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating payment status',
+        error: error.message
+      });
+    }
+  },
+
+  // Cancel every remaining line; single lines are cancelled through their booking
+  async cancelGroup(req: AuthRequest, res: Response) {
+    try {
+      const group = await findAccessible(req, res);
+      if (!group) return;
+
+      const { reason, waiveFee } = req.body;
+
+      const results = await sequelize.transaction(async (transaction) => {
+        return bookingGroupService.cancelGroup(group.id, {
+          changedById: req.user?.id,
+          reason,
+          // Only staff may waive the late-cancellation fee
+          waiveFee: isStaff(req.user) && !!waiveFee
+        }, transaction);
+      });
+
+      if (!results) {
+        return res.status(400).json({
+          success: false,
+          message: 'Booking group has no lines that can be cancelled'
+        });
+      }
+
+      const refunds = results
+        .filter(result => result.check.refund)
+        .map(result => result.check.refund!);
+      const refundTotal = Math.round(refunds.reduce((sum, refund) => sum + refund.refundAmount, 0) * 100) / 100;
+
+      res.json({
+        success: true,
+        data: {
+          ...(await describeGroup(group)),
+          refunds,
+          refundTotal
+        },
+        message: refundTotal > 0
+          ? `Booking group cancelled. R${refundTotal.toFixed(2)} will be refunded`
+          : 'Booking group cancelled. No refund is due'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error cancelling booking group',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { OperatingHours, Closure } from '../models';
+import { businessHoursService } from '../services/businessHoursService';
+import { getPublicHolidays, getNextBusinessDay, toDateKey, fromDateKey } from '../utils/dateUtils';
+
+export const calendarController = {
+  // Get trading hours for every day of the week
+  async getOperatingHours(req: Request, res: Response) {
+    try {
+      const hours = await businessHoursService.getWeeklyHours();
+
+      res.json({
+        success: true,
+        data: hours
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching operating hours',
+        error: error.message
+      });
+    }
+  },
+
+  // Set trading hours for one day of the week
+  async updateOperatingHours(req: Request, res: Response) {
+    try {
+      const dayOfWeek = parseInt(req.params.dayOfWeek);
+      const { openTime, closeTime, isClosed = false } = req.body;
+
+      if (isNaN(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+        return res.status(400).json({
+          success: false,
+          message: 'Day of week must be between 0 (Sunday) and 6 (Saturday)'
+        });
+      }
+
+      let hours = await OperatingHours.findOne({ where: { dayOfWeek } });
+      if (hours) {
+        await hours.update({ openTime, closeTime, isClosed });
+      } else {
+        hours = await OperatingHours.create({ dayOfWeek, openTime, closeTime, isClosed });
+      }
+
+      res.json({
+        success: true,
+        data: hours,
+        message: 'Operating hours updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating operating hours',
+        error: error.message
+      });
+    }
+  },
+
+  // Get one-off closures, optionally within a date range
+  async getClosures(req: Request, res: Response) {
+    try {
+      const { startDate, endDate } = req.query;
+
+      const where: any = {};
+      if (startDate || endDate) {
+        where.date = {};
+        if (startDate) where.date[Op.gte] = startDate as string;
+        if (endDate) where.date[Op.lte] = endDate as string;
+      }
+
+      const closures = await Closure.findAll({
+        where,
+        order: [['date', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: closures
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching closures',
+        error: error.message
+      });
+    }
+  },
+
+  // Create closure
+  async createClosure(req: Request, res: Response) {
+    try {
+      const closure = await Closure.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: closure,
+        message: 'Closure created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A closure already exists for this date'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating closure',
+        error: error.message
+      });
+    }
+  },
+
+  // Update closure
+  async updateClosure(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const closure = await Closure.findByPk(id);
+
+      if (!closure) {
+        return res.status(404).json({
+          success: false,
+          message: 'Closure not found'
+        });
+      }
+
+      await closure.update(req.body);
+
+      res.json({
+        success: true,
+        data: closure,
+        message: 'Closure updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating closure',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete closure
+  async deleteClosure(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const closure = await Closure.findByPk(id);
+
+      if (!closure) {
+        return res.status(404).json({
+          success: false,
+          message: 'Closure not found'
+        });
+      }
+
+      await closure.destroy();
+
+      res.json({
+        success: true,
+        message: 'Closure deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting closure',
+        error: error.message
+      });
+    }
+  },
+
+  // Get public holidays for a year
+  async getHolidays(req: Request, res: Response) {
+    try {
+      const year = parseInt((req.query.year as string) || `${new Date().getFullYear()}`);
+
+      res.json({
+        success: true,
+        data: getPublicHolidays(year)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching public holidays',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the next trading day after a date
+  async getNextBusinessDay(req: Request, res: Response) {
+    try {
+      const from = (req.query.from as string) || toDateKey(new Date());
+      const calendar = await businessHoursService.getCalendar({ from });
+      const nextDay = getNextBusinessDay(fromDateKey(from), calendar);
+
+      res.json({
+        success: true,
+        data: {
+          from,
+          nextBusinessDay: toDateKey(nextDay)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching next business day',
+        error: error.message
+      });
+    }
+  }
+};
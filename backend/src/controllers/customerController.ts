@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { Customer, Booking } from '../models';
 import { BookingStatus } from '../models/Booking';
 import { Op } from 'sequelize';
+import { loyaltyService } from '../services/loyaltyService';
+import { AuthRequest, isStaff } from '../middleware/auth';
 
 export const customerController = {
   // Get all customers
@@ -124,7 +126,7 @@ export const customerController = {
   },
 
   // Update customer
-  async updateCustomer(req: Request, res: Response) {
+  async updateCustomer(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
       
@@ -137,7 +139,9 @@ export const customerController = {
         });
       }
 
-      await customer.update(req.body);
+      // Customers may only edit their contact details, not balances
+      const { name, phone, address } = req.body;
+      await customer.update(isStaff(req.user) ? req.body : { name, phone, address });
 
       res.json({
         success: true,
@@ -221,6 +225,39 @@ export const customerController = {
     }
   },
 
+  // Get Glow Points balance and history
+  async getLoyaltyHistory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const customer = await Customer.findByPk(id);
+
+      if (!customer) {
+        return res.status(404).json({
+          success: false,
+          message: 'Customer not found'
+        });
+      }
+
+      const transactions = await loyaltyService.getHistory(id);
+
+      res.json({
+        success: true,
+        data: {
+          balance: customer.loyaltyPoints,
+          balanceValue: loyaltyService.pointsToRand(customer.loyaltyPoints),
+          transactions
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching loyalty history',
+        error: error.message
+      });
+    }
+  },
+
   // Search customers
   async searchCustomers(req: Request, res: Response) {
     try {
@@ -0,0 +1,413 @@
+import { Request, Response } from 'express';
+import { Customer, FleetAccount, FleetAccountBooker, FleetInvoice, PriceRule } from '../models';
+import { FleetInvoiceStatus } from '../models/FleetInvoice';
+import { fleetService } from '../services/fleetService';
+import { AuthRequest, isStaff } from '../middleware/auth';
+import { toDateKey } from '../utils/dateUtils';
+
+// Staff can see any account; customers only the accounts they book for
+async function findAccessible(req: AuthRequest, res: Response): Promise<FleetAccount | null> {
+  const account = await FleetAccount.findByPk(req.params.id);
+
+  if (!account) {
+    res.status(404).json({
+      success: false,
+      message: 'Fleet account not found'
+    });
+    return null;
+  }
+
+  const allowed = isStaff(req.user)
+    || (!!req.user?.customerId && await fleetService.isAuthorisedBooker(account.id, req.user.customerId));
+  if (!allowed) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. Insufficient permissions.'
+    });
+    return null;
+  }
+
+  return account;
+}
+
+export const fleetAccountController = {
+  // Get all fleet accounts
+  async getFleetAccounts(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+
+      const accounts = await FleetAccount.findAll({
+        where: includeInactive === 'true' ? {} : { active: true },
+        order: [['name', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: accounts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching fleet accounts',
+        error: error.message
+      });
+    }
+  },
+
+  // Get a fleet account with its authorised bookers
+  async getFleetAccountById(req: AuthRequest, res: Response) {
+    try {
+      const account = await findAccessible(req, res);
+      if (!account) return;
+
+      const bookers = await FleetAccountBooker.findAll({
+        where: { fleetAccountId: account.id },
+        include: [{ model: Customer, as: 'customer', attributes: ['id', 'name', 'email', 'phone'] }]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...account.toJSON(),
+          bookers
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching fleet account',
+        error: error.message
+      });
+    }
+  },
+
+  // Create fleet account
+  async createFleetAccount(req: Request, res: Response) {
+    try {
+      const account = await FleetAccount.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: account,
+        message: 'Fleet account created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating fleet account',
+        error: error.message
+      });
+    }
+  },
+
+  // Update fleet account
+  async updateFleetAccount(req: Request, res: Response) {
+    try {
+      const account = await FleetAccount.findByPk(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: 'Fleet account not found'
+        });
+      }
+
+      await account.update(req.body);
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Fleet account updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating fleet account',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete fleet account (soft delete)
+  async deleteFleetAccount(req: Request, res: Response) {
+    try {
+      const account = await FleetAccount.findByPk(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: 'Fleet account not found'
+        });
+      }
+
+      await account.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Fleet account deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting fleet account',
+        error: error.message
+      });
+    }
+  },
+
+  // Authorise a customer to book on the account
+  async addBooker(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { customerId } = req.body;
+
+      const [account, customer] = await Promise.all([
+        FleetAccount.findByPk(id),
+        customerId ? Customer.findByPk(customerId) : null
+      ]);
+
+      if (!account || !customer) {
+        return res.status(404).json({
+          success: false,
+          message: account ? 'Customer not found' : 'Fleet account not found'
+        });
+      }
+
+      const [booker, created] = await FleetAccountBooker.findOrCreate({
+        where: { fleetAccountId: id, customerId }
+      });
+
+      if (!created) {
+        return res.status(409).json({
+          success: false,
+          message: 'Customer is already a booker on this account'
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: booker,
+        message: 'Booker added successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error adding booker',
+        error: error.message
+      });
+    }
+  },
+
+  // Withdraw a customer's authority to book on the account
+  async removeBooker(req: Request, res: Response) {
+    try {
+      const { id, customerId } = req.params;
+
+      const removed = await FleetAccountBooker.destroy({ where: { fleetAccountId: id, customerId } });
+
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booker not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Booker removed successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error removing booker',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the account's negotiated price rules
+  async getPriceRules(req: AuthRequest, res: Response) {
+    try {
+      const account = await findAccessible(req, res);
+      if (!account) return;
+
+      const rules = await PriceRule.findAll({
+        where: { fleetAccountId: account.id, active: true },
+        order: [['ruleType', 'ASC'], ['code', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching price rules',
+        error: error.message
+      });
+    }
+  },
+
+  // Negotiate a rule that overrides the standard one with the same type and code
+  async createPriceRule(req: Request, res: Response) {
+    try {
+      const account = await FleetAccount.findByPk(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: 'Fleet account not found'
+        });
+      }
+
+      const rule = await PriceRule.create({
+        ...req.body,
+        code: req.body.code.toUpperCase(),
+        fleetAccountId: account.id
+      });
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Price rule created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'This account already has a price rule for this type and code'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating price rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Preview a month's statement; defaults to the current month
+  async getStatement(req: AuthRequest, res: Response) {
+    try {
+      const account = await findAccessible(req, res);
+      if (!account) return;
+
+      const month = (req.query.month as string) || toDateKey(new Date()).slice(0, 7);
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Month must be in YYYY-MM format'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: await fleetService.getStatement(account.id, month)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching statement',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the account's invoices, newest first
+  async getInvoices(req: AuthRequest, res: Response) {
+    try {
+      const account = await findAccessible(req, res);
+      if (!account) return;
+
+      const invoices = await FleetInvoice.findAll({
+        where: { fleetAccountId: account.id },
+        order: [['periodStart', 'DESC'], ['issuedAt', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: invoices
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching invoices',
+        error: error.message
+      });
+    }
+  },
+
+  // Invoice a month's uninvoiced completed bookings
+  async issueInvoice(req: Request, res: Response) {
+    try {
+      const account = await FleetAccount.findByPk(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: 'Fleet account not found'
+        });
+      }
+
+      const invoice = await fleetService.issueInvoice(account, req.body.month);
+
+      if (!invoice) {
+        return res.status(400).json({
+          success: false,
+          message: 'There are no uninvoiced completed bookings for this month'
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice issued successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error issuing invoice',
+        error: error.message
+      });
+    }
+  },
+
+  // Mark an invoice paid or void it
+  async updateInvoiceStatus(req: AuthRequest, res: Response) {
+    try {
+      const { id, invoiceId } = req.params;
+
+      const invoice = await FleetInvoice.findOne({ where: { id: invoiceId, fleetAccountId: id } });
+
+      if (!invoice) {
+        return res.status(404).json({
+          success: false,
+          message: 'Invoice not found'
+        });
+      }
+
+      if (invoice.status !== FleetInvoiceStatus.ISSUED) {
+        return res.status(400).json({
+          success: false,
+          message: `Invoice is already ${invoice.status}`
+        });
+      }
+
+      await fleetService.updateInvoiceStatus(invoice, req.body.status, req.user?.id);
+
+      res.json({
+        success: true,
+        data: invoice,
+        message: 'Invoice updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating invoice',
+        error: error.message
+      });
+    }
+  }
+};
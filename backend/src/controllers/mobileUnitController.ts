@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { MobileUnit } from '../models';
+import { routePlanningService } from '../services/routePlanningService';
+
+export const mobileUnitController = {
+  // Get all mobile units
+  async getAllMobileUnits(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+
+      const mobileUnits = await MobileUnit.findAll({
+        where: includeInactive === 'true' ? {} : { active: true },
+        order: [['name', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: mobileUnits
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching mobile units',
+        error: error.message
+      });
+    }
+  },
+
+  // Get mobile unit by ID
+  async getMobileUnitById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const mobileUnit = await MobileUnit.findByPk(id);
+
+      if (!mobileUnit) {
+        return res.status(404).json({
+          success: false,
+          message: 'Mobile unit not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: mobileUnit
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching mobile unit',
+        error: error.message
+      });
+    }
+  },
+
+  // Get the unit's planned itinerary for a day
+  async getRoute(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const date = req.query.date as string | undefined;
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Date parameter is required (YYYY-MM-DD)'
+        });
+      }
+
+      const mobileUnit = await MobileUnit.findByPk(id);
+
+      if (!mobileUnit) {
+        return res.status(404).json({
+          success: false,
+          message: 'Mobile unit not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          mobileUnit,
+          ...await routePlanningService.planRoute(mobileUnit.id, date)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error planning mobile unit route',
+        error: error.message
+      });
+    }
+  },
+
+  // Create new mobile unit
+  async createMobileUnit(req: Request, res: Response) {
+    try {
+      const mobileUnit = await MobileUnit.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: mobileUnit,
+        message: 'Mobile unit created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating mobile unit',
+        error: error.message
+      });
+    }
+  },
+
+  // Update mobile unit
+  async updateMobileUnit(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const mobileUnit = await MobileUnit.findByPk(id);
+
+      if (!mobileUnit) {
+        return res.status(404).json({
+          success: false,
+          message: 'Mobile unit not found'
+        });
+      }
+
+      await mobileUnit.update(req.body);
+
+      res.json({
+        success: true,
+        data: mobileUnit,
+        message: 'Mobile unit updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating mobile unit',
+        error: error.message
+      });
+    }
+  },
+
+  // Retire mobile unit (soft delete, existing bookings keep their assignment)
+  async deleteMobileUnit(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const mobileUnit = await MobileUnit.findByPk(id);
+
+      if (!mobileUnit) {
+        return res.status(404).json({
+          success: false,
+          message: 'Mobile unit not found'
+        });
+      }
+
+      await mobileUnit.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Mobile unit deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting mobile unit',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { Booking, Customer } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { PaymentKind } from '../models/Payment';
+import { paymentService, getAmountDue } from '../services/paymentService';
+import { FakePaymentGateway, SimulatedWebhook } from '../services/fakePaymentGateway';
+import { AuthRequest, isStaff } from '../middleware/auth';
+
+/**
+ * Run a fake provider action and deliver its webhook through the real handler.
+ * The response describes the intent in the route unless told otherwise.
+ */
+async function simulate(
+  req: Request,
+  res: Response,
+  action: (gateway: FakePaymentGateway) => SimulatedWebhook,
+  describe: (gateway: FakePaymentGateway) => object = gateway => ({ intent: gateway.getIntent(req.params.intentId) })
+) {
+  const gateway = paymentService.getGateway();
+  if (!(gateway instanceof FakePaymentGateway)) {
+    return res.status(404).json({
+      success: false,
+      message: 'The fake payment provider is not enabled'
+    });
+  }
+
+  let webhook: SimulatedWebhook;
+  try {
+    webhook = action(gateway);
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  const result = await paymentService.handleWebhook(webhook.payload, webhook.signature);
+
+  res.json({
+    success: true,
+    data: {
+      ...describe(gateway),
+      webhook: {
+        eventId: webhook.eventId,
+        duplicate: !!result.duplicate,
+        // Re-POST these to /api/payments/webhook to exercise redelivery
+        payload: webhook.payload.toString('utf8'),
+        signature: webhook.signature,
+        signatureHeader: gateway.signatureHeader
+      }
+    }
+  });
+}
+
+export const paymentController = {
+  // Start a card payment of a deposit, the balance or a tip
+  async createPaymentIntent(req: AuthRequest, res: Response) {
+    try {
+      const { bookingId, customerEmail } = req.body;
+
+      const booking = await Booking.findByPk(bookingId, {
+        include: [{ model: Customer, as: 'customer' }]
+      });
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      // Signed-in customers pay for their own bookings; guests confirm the email they booked with
+      const canPay = isStaff(req.user) || (req.user?.customerId
+        ? booking.customerId === req.user.customerId
+        : !!customerEmail && booking.customer?.email.toLowerCase() === customerEmail.toLowerCase());
+      if (!canPay) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Insufficient permissions.'
+        });
+      }
+
+      if (booking.paymentMethod === 'on_account') {
+        return res.status(400).json({
+          success: false,
+          message: 'On-account bookings are invoiced to the fleet account'
+        });
+      }
+
+      if (booking.status === BookingStatus.CANCELLED || booking.status === BookingStatus.NO_SHOW) {
+        return res.status(400).json({
+          success: false,
+          message: `A ${booking.status} booking cannot be paid`
+        });
+      }
+
+      // Without a kind, the deposit is taken while it is owed, then the balance
+      const kind: PaymentKind = req.body.kind
+        || (getAmountDue(booking, PaymentKind.DEPOSIT) > 0 ? PaymentKind.DEPOSIT : PaymentKind.BALANCE);
+      const amount = kind === PaymentKind.TIP ? Number(req.body.tipAmount) : getAmountDue(booking, kind);
+
+      if (amount <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: kind === PaymentKind.DEPOSIT
+            ? 'No deposit is owed on this booking'
+            : 'Booking has already been paid'
+        });
+      }
+
+      const intent = await paymentService.createPaymentIntent(booking, kind, amount);
+
+      res.status(201).json({
+        success: true,
+        data: intent
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating payment intent',
+        error: error.message
+      });
+    }
+  },
+
+  // Receive payment events from the provider; the body arrives unparsed for the signature check
+  async handleWebhook(req: Request, res: Response) {
+    try {
+      const signature = req.headers[paymentService.getGateway().signatureHeader];
+
+      if (typeof signature !== 'string' || !Buffer.isBuffer(req.body)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Missing webhook signature or body'
+        });
+      }
+
+      const result = await paymentService.handleWebhook(req.body, signature);
+
+      if (!result.valid) {
+        return res.status(400).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      res.json({
+        success: true,
+        received: true,
+        duplicate: !!result.duplicate
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error handling payment webhook',
+        error: error.message
+      });
+    }
+  },
+
+  // Fake provider only: pay an intent with a test card
+  async confirmFakePayment(req: Request, res: Response) {
+    try {
+      await simulate(req, res, gateway => gateway.confirm(req.params.intentId, req.body.cardNumber));
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error confirming fake payment',
+        error: error.message
+      });
+    }
+  },
+
+  // Fake provider only: pass or fail a 3-D Secure challenge
+  async authenticateFakePayment(req: Request, res: Response) {
+    try {
+      await simulate(req, res, gateway => gateway.authenticate(req.params.intentId, req.body.approve));
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error authenticating fake payment',
+        error: error.message
+      });
+    }
+  },
+
+  // Fake provider only: pay out or reject a pending refund
+  async settleFakeRefund(req: Request, res: Response) {
+    try {
+      const { refundId } = req.params;
+      await simulate(req, res, gateway => gateway.settleRefund(refundId, req.body.approve), gateway => {
+        const refund = gateway.getRefund(refundId);
+        return { refund, intent: refund && gateway.getIntent(refund.intentId) };
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error settling fake refund',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,235 @@
+import { Request, Response } from 'express';
+import { PriceRule, DepositRule } from '../models';
+
+export const pricingController = {
+  // Get price rules, optionally filtered by type
+  async getAllPriceRules(req: Request, res: Response) {
+    try {
+      const { ruleType, includeInactive } = req.query;
+
+      // Negotiated fleet rules are listed under their fleet account
+      const where: any = { fleetAccountId: null };
+      if (ruleType) where.ruleType = ruleType;
+      if (includeInactive !== 'true') where.active = true;
+
+      const rules = await PriceRule.findAll({
+        where,
+        order: [['ruleType', 'ASC'], ['code', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching price rules',
+        error: error.message
+      });
+    }
+  },
+
+  // Create price rule
+  async createPriceRule(req: Request, res: Response) {
+    try {
+      const rule = await PriceRule.create({
+        ...req.body,
+        code: req.body.code.toUpperCase()
+      });
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Price rule created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A price rule already exists for this type and code'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating price rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Update price rule
+  async updatePriceRule(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const rule = await PriceRule.findByPk(id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          message: 'Price rule not found'
+        });
+      }
+
+      await rule.update({
+        ...req.body,
+        code: req.body.code.toUpperCase()
+      });
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Price rule updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating price rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete price rule (soft delete)
+  async deletePriceRule(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const rule = await PriceRule.findByPk(id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          message: 'Price rule not found'
+        });
+      }
+
+      await rule.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Price rule deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting price rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Get deposit rules
+  async getDepositRules(req: Request, res: Response) {
+    try {
+      const where: any = {};
+      if (req.query.includeInactive !== 'true') where.active = true;
+
+      const rules = await DepositRule.findAll({
+        where,
+        order: [['scope', 'ASC'], ['code', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching deposit rules',
+        error: error.message
+      });
+    }
+  },
+
+  // Create deposit rule
+  async createDepositRule(req: Request, res: Response) {
+    try {
+      const rule = await DepositRule.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Deposit rule created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A deposit rule already exists for this scope and code'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating deposit rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Update deposit rule; bookings already made keep the deposit they were given
+  async updateDepositRule(req: Request, res: Response) {
+    try {
+      const rule = await DepositRule.findByPk(req.params.id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          message: 'Deposit rule not found'
+        });
+      }
+
+      await rule.update(req.body);
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Deposit rule updated successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A deposit rule already exists for this scope and code'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error updating deposit rule',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete deposit rule (soft delete)
+  async deleteDepositRule(req: Request, res: Response) {
+    try {
+      const rule = await DepositRule.findByPk(req.params.id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          message: 'Deposit rule not found'
+        });
+      }
+
+      await rule.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Deposit rule deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting deposit rule',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { Promotion } from '../models';
+import { promotionService } from '../services/promotionService';
+import { calculatePriceBreakdown } from '../utils/priceCalculator';
+
+const normalizePromotion = (body: any) => ({
+  ...body,
+  ...(body.code && { code: body.code.trim().toUpperCase() }),
+  ...(body.vehicleTypes && { vehicleTypes: body.vehicleTypes.map((type: string) => type.toUpperCase()) })
+});
+
+export const promotionController = {
+  // Get all promotions
+  async getAllPromotions(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+
+      const promotions = await Promotion.findAll({
+        where: includeInactive === 'true' ? {} : { active: true },
+        order: [['createdAt', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: promotions
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching promotions',
+        error: error.message
+      });
+    }
+  },
+
+  // Get promotion by ID
+  async getPromotionById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const promotion = await Promotion.findByPk(id);
+
+      if (!promotion) {
+        return res.status(404).json({
+          success: false,
+          message: 'Promotion not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: promotion
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching promotion',
+        error: error.message
+      });
+    }
+  },
+
+  // Create promotion
+  async createPromotion(req: Request, res: Response) {
+    try {
+      const promotion = await Promotion.create(normalizePromotion(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: promotion,
+        message: 'Promotion created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A promotion with this code already exists'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating promotion',
+        error: error.message
+      });
+    }
+  },
+
+  // Update promotion
+  async updatePromotion(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const promotion = await Promotion.findByPk(id);
+
+      if (!promotion) {
+        return res.status(404).json({
+          success: false,
+          message: 'Promotion not found'
+        });
+      }
+
+      await promotion.update(normalizePromotion(req.body));
+
+      res.json({
+        success: true,
+        data: promotion,
+        message: 'Promotion updated successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A promotion with this code already exists'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error updating promotion',
+        error: error.message
+      });
+    }
+  },
+
+  // Delete promotion (soft delete)
+  async deletePromotion(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const promotion = await Promotion.findByPk(id);
+
+      if (!promotion) {
+        return res.status(404).json({
+          success: false,
+          message: 'Promotion not found'
+        });
+      }
+
+      await promotion.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Promotion deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting promotion',
+        error: error.message
+      });
+    }
+  },
+
+  // Validate a promo code at checkout and preview the discounted price
+  async validatePromoCode(req: Request, res: Response) {
+    try {
+      const { code, serviceType, vehicleType, extras = [], condition, customerEmail, date } = req.body;
+
+      const check = await promotionService.checkPromotion(code, { serviceType, vehicleType, customerEmail, date });
+
+      if (!check.valid) {
+        return res.status(400).json({
+          success: false,
+          message: check.message
+        });
+      }
+
+      const breakdown = await calculatePriceBreakdown({
+        serviceType,
+        vehicleType,
+        extras,
+        condition,
+        promotion: check.promotion
+      });
+
+      if (!breakdown) {
+        return res.status(404).json({
+          success: false,
+          message: 'Service not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: breakdown,
+        message: 'Promo code applied'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error validating promo code',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,330 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { Booking, Customer, RecurringBooking, Service } from '../models';
+import { RecurringBookingStatus } from '../models/RecurringBooking';
+import { AppointmentType } from '../models/Booking';
+import { recurringBookingService } from '../services/recurringBookingService';
+import { serviceAreaService } from '../services/serviceAreaService';
+import { AuthRequest, AuthUser, isStaff } from '../middleware/auth';
+import { toDateKey } from '../utils/dateUtils';
+
+// Staff can manage any series; customers only their own
+const canAccess = (user: AuthUser | undefined, rule: RecurringBooking) =>
+  isStaff(user) || (!!user?.customerId && user.customerId === rule.customerId);
+
+async function findAccessible(req: AuthRequest, res: Response): Promise<RecurringBooking | null> {
+  const rule = await RecurringBooking.findByPk(req.params.id);
+
+  if (!rule) {
+    res.status(404).json({
+      success: false,
+      message: 'Recurring booking not found'
+    });
+    return null;
+  }
+
+  if (!canAccess(req.user, rule)) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. Insufficient permissions.'
+    });
+    return null;
+  }
+
+  return rule;
+}
+
+export const recurringBookingController = {
+  // Create a series and book its first occurrences
+  async createRecurringBooking(req: AuthRequest, res: Response) {
+    try {
+      const customerId = isStaff(req.user) ? req.body.customerId : req.user?.customerId;
+
+      if (!customerId) {
+        return res.status(400).json({
+          success: false,
+          message: isStaff(req.user) ? 'customerId is required' : 'A customer account is required'
+        });
+      }
+
+      const customer = await Customer.findByPk(customerId);
+      if (!customer) {
+        return res.status(404).json({
+          success: false,
+          message: 'Customer not found'
+        });
+      }
+
+      const service = await Service.findOne({ where: { name: req.body.serviceType, active: true } });
+      if (!service) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid service type'
+        });
+      }
+
+      if (req.body.startDate < toDateKey(new Date())) {
+        return res.status(400).json({
+          success: false,
+          message: 'Start date cannot be in the past'
+        });
+      }
+
+      const isMobile = req.body.appointmentType === AppointmentType.MOBILE;
+      if (isMobile && !req.body.serviceAddress) {
+        return res.status(400).json({
+          success: false,
+          message: 'serviceAddress is required for mobile appointments'
+        });
+      }
+
+      const areaCheck = isMobile ? serviceAreaService.checkLocation(req.body.serviceAddress) : null;
+      if (areaCheck && !areaCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: areaCheck.message
+        });
+      }
+
+      const rule = await RecurringBooking.create({ ...req.body, customerId });
+      const report = await recurringBookingService.materialise(rule);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          recurringBooking: rule,
+          ...report
+        },
+        message: report.clashes.length > 0
+          ? `Recurring booking created; ${report.clashes.length} occurrence(s) could not be booked`
+          : 'Recurring booking created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating recurring booking',
+        error: error.message
+      });
+    }
+  },
+
+  // Get recurring bookings: all for staff, own for customers
+  async getRecurringBookings(req: AuthRequest, res: Response) {
+    try {
+      const { customerId, status } = req.query;
+
+      const where: any = {};
+      if (!isStaff(req.user)) {
+        where.customerId = req.user?.customerId || null;
+      } else if (customerId) {
+        where.customerId = customerId;
+      }
+      if (status) where.status = status;
+
+      const rules = await RecurringBooking.findAll({
+        where,
+        include: [{ model: Customer, as: 'customer', attributes: ['id', 'name', 'email'] }],
+        order: [['createdAt', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching recurring bookings',
+        error: error.message
+      });
+    }
+  },
+
+  // Get a series with its upcoming bookings
+  async getRecurringBookingById(req: AuthRequest, res: Response) {
+    try {
+      const rule = await findAccessible(req, res);
+      if (!rule) return;
+
+      const upcoming = await Booking.findAll({
+        where: { recurringBookingId: rule.id, date: { [Op.gte]: toDateKey(new Date()) } },
+        order: [['date', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...rule.toJSON(),
+          upcoming
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching recurring booking',
+        error: error.message
+      });
+    }
+  },
+
+  // Stop creating new occurrences; bookings already made are kept
+  async pauseRecurringBooking(req: AuthRequest, res: Response) {
+    try {
+      const rule = await findAccessible(req, res);
+      if (!rule) return;
+
+      if (rule.status !== RecurringBookingStatus.ACTIVE) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only active recurring bookings can be paused'
+        });
+      }
+
+      await rule.update({ status: RecurringBookingStatus.PAUSED });
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Recurring booking paused'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error pausing recurring booking',
+        error: error.message
+      });
+    }
+  },
+
+  // Resume a paused series and book the occurrences it missed
+  async resumeRecurringBooking(req: AuthRequest, res: Response) {
+    try {
+      const rule = await findAccessible(req, res);
+      if (!rule) return;
+
+      if (rule.status !== RecurringBookingStatus.PAUSED) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only paused recurring bookings can be resumed'
+        });
+      }
+
+      await rule.update({ status: RecurringBookingStatus.ACTIVE });
+      const report = await recurringBookingService.materialise(rule);
+
+      res.json({
+        success: true,
+        data: {
+          recurringBooking: rule,
+          ...report
+        },
+        message: 'Recurring booking resumed'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error resuming recurring booking',
+        error: error.message
+      });
+    }
+  },
+
+  // Skip a single occurrence
+  async skipOccurrence(req: AuthRequest, res: Response) {
+    try {
+      const { date } = req.body;
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({
+          success: false,
+          message: 'date is required (YYYY-MM-DD)'
+        });
+      }
+
+      const rule = await findAccessible(req, res);
+      if (!rule) return;
+
+      if (rule.status === RecurringBookingStatus.CANCELLED) {
+        return res.status(400).json({
+          success: false,
+          message: 'Recurring booking has been cancelled'
+        });
+      }
+
+      const result = await recurringBookingService.skipOccurrence(rule, date, req.user?.id);
+
+      if (!result.valid) {
+        return res.status(400).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          recurringBooking: rule,
+          cancelled: result.cancelled || null
+        },
+        message: `Occurrence on ${date} skipped`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error skipping occurrence',
+        error: error.message
+      });
+    }
+  },
+
+  // Cancel the series and its upcoming bookings
+  async cancelRecurringBooking(req: AuthRequest, res: Response) {
+    try {
+      const rule = await findAccessible(req, res);
+      if (!rule) return;
+
+      if (rule.status === RecurringBookingStatus.CANCELLED) {
+        return res.status(400).json({
+          success: false,
+          message: 'Recurring booking is already cancelled'
+        });
+      }
+
+      const cancelled = await recurringBookingService.cancelSeries(rule, req.user?.id);
+
+      res.json({
+        success: true,
+        data: {
+          recurringBooking: rule,
+          cancelled
+        },
+        message: `Recurring booking cancelled along with ${cancelled.length} upcoming booking(s)`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error cancelling recurring booking',
+        error: error.message
+      });
+    }
+  },
+
+  // Top up every active series now instead of waiting for the daily run
+  async materialiseAll(req: AuthRequest, res: Response) {
+    try {
+      const report = await recurringBookingService.materialiseAll();
+
+      res.json({
+        success: true,
+        data: report,
+        message: `${report.created.length} booking(s) created`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating recurring bookings',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import { Request } from 'express';
+import { Refund } from '../models';
+import { RefundStatus } from '../models/Refund';
+import { refundService } from '../services/refundService';
+import { mockResponse } from '../test/http';
+import { mockTransaction } from '../test/transaction';
+import { refundController } from './refundController';
+
+const cashRefund = () => Refund.build({
+  bookingId: 'booking-1',
+  amountPaid: 250,
+  amount: 250,
+  reason: 'Cancelled',
+  status: RefundStatus.PENDING,
+});
+
+const request = (status: RefundStatus) => ({ params: { id: 'refund-1' }, body: { status } }) as unknown as Request;
+
+describe('refundController.updateRefundStatus', () => {
+  beforeEach(() => {
+    mockTransaction();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('settles a pending refund', async () => {
+    const refund = cashRefund();
+    jest.spyOn(Refund, 'findByPk').mockResolvedValue(refund);
+    jest.spyOn(refund, 'reload').mockResolvedValue(refund);
+    const applyOutcome = jest.spyOn(refundService, 'applyOutcome').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await refundController.updateRefundStatus(request(RefundStatus.PROCESSED), res);
+
+    expect(applyOutcome).toHaveBeenCalledWith(refund, RefundStatus.PROCESSED, expect.anything());
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+
+  it('settles a refund only once when two updates race', async () => {
+    const refund = cashRefund();
+    jest.spyOn(Refund, 'findByPk').mockResolvedValue(refund);
+    // The other update commits while this one waits for the lock
+    jest.spyOn(refund, 'reload').mockImplementation(async () => refund.set({ status: RefundStatus.PROCESSED }));
+    const applyOutcome = jest.spyOn(refundService, 'applyOutcome');
+    const res = mockResponse();
+
+    await refundController.updateRefundStatus(request(RefundStatus.PROCESSED), res);
+
+    expect(applyOutcome).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ success: false, message: 'Refund has already been processed' });
+  });
+
+  it('does not pay out a refund that has failed', async () => {
+    const refund = cashRefund();
+    refund.status = RefundStatus.FAILED;
+    jest.spyOn(Refund, 'findByPk').mockResolvedValue(refund);
+    jest.spyOn(refund, 'reload').mockResolvedValue(refund);
+    const applyOutcome = jest.spyOn(refundService, 'applyOutcome');
+    const res = mockResponse();
+
+    await refundController.updateRefundStatus(request(RefundStatus.PROCESSED), res);
+
+    expect(applyOutcome).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { Booking, Refund } from '../models';
+import { RefundStatus } from '../models/Refund';
+import sequelize from '../config/database';
+import { refundService, RefundCheck } from '../services/refundService';
+
+export const refundController = {
+  // Get all refunds, optionally by status
+  async getAllRefunds(req: Request, res: Response) {
+    try {
+      const { status } = req.query;
+
+      const refunds = await Refund.findAll({
+        where: status ? { status: status as RefundStatus } : {},
+        include: [{ model: Booking, as: 'booking', attributes: ['id', 'referenceNumber', 'date', 'time', 'status'] }],
+        order: [['createdAt', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: refunds
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching refunds',
+        error: error.message
+      });
+    }
+  },
+
+  // Mark a pending refund paid out by hand, such as cash, as processed or failed
+  async updateRefundStatus(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { status } = req.body;
+
+      if (status !== RefundStatus.PROCESSED && status !== RefundStatus.FAILED) {
+        return res.status(400).json({
+          success: false,
+          message: 'Status must be "processed" or "failed"'
+        });
+      }
+
+      const refund = await Refund.findByPk(id);
+
+      if (!refund) {
+        return res.status(404).json({
+          success: false,
+          message: 'Refund not found'
+        });
+      }
+
+      if (refund.providerRefundId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Card refunds are settled by the payment provider'
+        });
+      }
+
+      const result = await sequelize.transaction(async (transaction): Promise<RefundCheck> => {
+        // Only a pending refund is settled, and only once however many updates race
+        await refund.reload({ lock: transaction.LOCK.UPDATE, transaction });
+        if (refund.status !== RefundStatus.PENDING) {
+          return { valid: false, message: `Refund has already been ${refund.status}` };
+        }
+
+        await refundService.applyOutcome(refund, status, transaction);
+        return { valid: true };
+      });
+
+      if (!result.valid) {
+        return res.status(400).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      res.json({
+        success: true,
+        data: refund,
+        message: 'Refund updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating refund',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { serviceAreaService } from '../services/serviceAreaService';
+
+export const serviceAreaController = {
+  // Get the mobile service area and travel fee rates
+  async getServiceArea(req: Request, res: Response) {
+    try {
+      res.json({
+        success: true,
+        data: serviceAreaService.getServiceArea()
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching service area',
+        error: error.message
+      });
+    }
+  },
+
+  // Check whether we can come out to a location, and the travel fee if so
+  async checkLocation(req: Request, res: Response) {
+    try {
+      const { latitude, longitude } = req.body;
+      const check = serviceAreaService.checkLocation({ latitude, longitude });
+
+      res.json({
+        success: true,
+        data: {
+          inside: check.valid,
+          ...(check.valid ? check.travel : { message: check.message })
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error checking service area',
+        error: error.message
+      });
+    }
+  }
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { Service } from '../models';
+import { quoteService } from '../services/quoteService';
+import { promotionService } from '../services/promotionService';
+import { serviceAreaService } from '../services/serviceAreaService';
 
 export const serviceController = {
   // Get all services
@@ -128,75 +131,50 @@ export const serviceController = {
     }
   },
 
-  // Calculate price
+  // Calculate a price, issuing a quote when asked to
   async calculatePrice(req: Request, res: Response) {
     try {
-      const { serviceType, vehicleType, extras = [], condition } = req.body;
+      const { serviceType, vehicleType, extras = [], condition, promoCode, customerEmail, date, appointmentType, serviceAddress, persist = false } = req.body;
+
+      // Mobile prices include travel, so the address has to be known and in range
+      const areaCheck = appointmentType === 'mobile' && serviceAddress
+        ? serviceAreaService.checkLocation(serviceAddress)
+        : null;
+      if (areaCheck && !areaCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: areaCheck.message
+        });
+      }
 
-      const service = await Service.findOne({
-        where: { name: serviceType, active: true }
-      });
+      let promotion = null;
+      if (promoCode) {
+        const check = await promotionService.checkPromotion(promoCode, { serviceType, vehicleType, customerEmail, date });
+        if (!check.valid) {
+          return res.status(400).json({
+            success: false,
+            message: check.message
+          });
+        }
+        promotion = check.promotion;
+      }
 
-      if (!service) {
+      // Only the booking flow stores a quote; browsing prices just previews them
+      const pricing = { serviceType, vehicleType, extras, condition, promotion, travel: areaCheck?.travel };
+      const quote = persist
+        ? await quoteService.createQuote(pricing)
+        : await quoteService.previewQuote(pricing);
+
+      if (!quote) {
         return res.status(404).json({
           success: false,
           message: 'Service not found'
         });
       }
 
-      // Vehicle type multipliers
-      const vehicleMultipliers: Record<string, number> = {
-        'SEDAN': 1.0,
-        'COUPE': 1.1,
-        'HATCHBACK': 1.0,
-        'SUV': 1.3,
-        'TRUCK': 1.5,
-        'LUXURY': 1.8
-      };
-
-      // Condition multipliers
-      const conditionMultipliers: Record<string, number> = {
-        'LIGHT': 1.0,
-        'MODERATE': 1.2,
-        'HEAVY': 1.5
-      };
-
-      // Extra service prices
-      const extraPrices: Record<string, number> = {
-        'INTERIOR': 150,
-        'WAX': 200,
-        'ENGINE': 300
-      };
-
-      let totalPrice = service.basePrice;
-
-      // Apply vehicle type multiplier
-      const vehicleMultiplier = vehicleMultipliers[vehicleType.toUpperCase()] || 1.0;
-      totalPrice *= vehicleMultiplier;
-
-      // Apply condition multiplier
-      const conditionMultiplier = conditionMultipliers[condition?.toUpperCase()] || 1.0;
-      totalPrice *= conditionMultiplier;
-
-      // Add extra services
-      const extrasTotal = extras.reduce((sum: number, extra: string) => {
-        return sum + (extraPrices[extra] || 0);
-      }, 0);
-      totalPrice += extrasTotal;
-
       res.json({
         success: true,
-        data: {
-          service: service.name,
-          vehicleType,
-          condition,
-          extras,
-          basePrice: service.basePrice,
-          vehicleMultiplier,
-          conditionMultiplier,
-          extrasTotal,
-          totalPrice: Math.round(totalPrice * 100) / 100 // Round to 2 decimal places
-        }
+        data: quote
       });
     } catch (error: any) {
       res.status(500).json({
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import sequelize from '../config/database';
+import { config } from '../config/env';
+import { Service } from '../models';
+import { AppointmentType } from '../models/Booking';
+import { schedulingService } from '../services/schedulingService';
+import { businessHoursService } from '../services/businessHoursService';
+import { slotHoldService, HoldResult } from '../services/slotHoldService';
+import { isValidBookingDate } from '../utils/helpers';
+import { fromDateKey, combineDateTime } from '../utils/dateUtils';
+
+export const slotHoldController = {
+  // Hold a slot while the customer checks out
+  async createHold(req: Request, res: Response) {
+    try {
+      const { date, time, serviceType, replaceHoldId } = req.body;
+      const appointmentType = (req.body.appointmentType || AppointmentType.STUDIO) as AppointmentType;
+      const holderIp = req.ip || '';
+
+      const service = await Service.findOne({ where: { name: serviceType, active: true } });
+      if (!service) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid service type'
+        });
+      }
+
+      const calendar = await businessHoursService.getCalendar({ from: date, to: date });
+      const dateCheck = isValidBookingDate(fromDateKey(date), calendar);
+      if (!dateCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: dateCheck.message
+        });
+      }
+
+      if (combineDateTime(date, time) <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected time has already passed'
+        });
+      }
+
+      if (!(await schedulingService.fitsBusinessHours(date, time, service.duration))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected time is outside business hours'
+        });
+      }
+
+      const result = await sequelize.transaction(async (transaction): Promise<HoldResult & { status?: number }> => {
+        await schedulingService.lockDate(date, transaction);
+
+        // Picking a different slot gives up the one this client held before
+        if (replaceHoldId) {
+          await slotHoldService.release(replaceHoldId, transaction, holderIp);
+        }
+
+        if (await slotHoldService.countActiveHolds(holderIp, transaction) >= config.SLOT_HOLD_MAX_PER_CLIENT) {
+          return { hold: null, status: 429, message: 'Too many slots held at once, release one before holding another' };
+        }
+
+        return slotHoldService.createHold({
+          date,
+          time,
+          duration: service.duration,
+          appointmentType,
+          serviceType: service.name,
+          holderIp
+        }, config.SLOT_HOLD_MINUTES, transaction);
+      });
+
+      if (!result.hold) {
+        return res.status(result.status || 409).json({
+          success: false,
+          message: result.message
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.hold,
+        message: `Slot held for ${config.SLOT_HOLD_MINUTES} minutes`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error holding slot',
+        error: error.message
+      });
+    }
+  },
+
+  // Check whether a hold is still active
+  async getHold(req: Request, res: Response) {
+    try {
+      const hold = await slotHoldService.findActiveHold(req.params.id);
+
+      if (!hold) {
+        return res.status(404).json({
+          success: false,
+          message: 'Slot hold not found or expired'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: hold
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching slot hold',
+        error: error.message
+      });
+    }
+  },
+
+  // Give a held slot back before the hold runs out
+  async releaseHold(req: Request, res: Response) {
+    try {
+      const released = await slotHoldService.release(req.params.id);
+
+      if (!released) {
+        return res.status(404).json({
+          success: false,
+          message: 'Slot hold not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Slot hold released'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error releasing slot hold',
+        error: error.message
+      });
+    }
+  }
+};
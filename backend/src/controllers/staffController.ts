@@ -0,0 +1,297 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { Staff, StaffShift, Booking, Customer } from '../models';
+import { schedulingService, ACTIVE_BOOKING_STATUSES } from '../services/schedulingService';
+import { BookingStatus } from '../models/Booking';
+import { timeToMinutes, minutesToTime, toDateKey } from '../utils/dateUtils';
+
+export const staffController = {
+  // Get all staff
+  async getAllStaff(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+
+      const staff = await Staff.findAll({
+        where: includeInactive === 'true' ? {} : { active: true },
+        order: [['name', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: staff
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching staff',
+        error: error.message
+      });
+    }
+  },
+
+  // Get staff member by ID
+  async getStaffById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const staff = await Staff.findByPk(id);
+
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: staff
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching staff member',
+        error: error.message
+      });
+    }
+  },
+
+  // Create new staff member
+  async createStaff(req: Request, res: Response) {
+    try {
+      const staff = await Staff.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: staff,
+        message: 'Staff member created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating staff member',
+        error: error.message
+      });
+    }
+  },
+
+  // Update staff member
+  async updateStaff(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const staff = await Staff.findByPk(id);
+
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      await staff.update(req.body);
+
+      res.json({
+        success: true,
+        data: staff,
+        message: 'Staff member updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating staff member',
+        error: error.message
+      });
+    }
+  },
+
+  // Deactivate staff member (soft delete, past bookings keep their detailer)
+  async deleteStaff(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const staff = await Staff.findByPk(id);
+
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      await staff.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Staff member deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting staff member',
+        error: error.message
+      });
+    }
+  },
+
+  // Get shifts for a staff member, optionally within a date range
+  async getShifts(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { from, to } = req.query;
+
+      const where: any = { staffId: id };
+      if (from || to) {
+        where.date = {};
+        if (from) where.date[Op.gte] = from;
+        if (to) where.date[Op.lte] = to;
+      }
+
+      const shifts = await StaffShift.findAll({
+        where,
+        order: [['date', 'ASC'], ['startTime', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: shifts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching shifts',
+        error: error.message
+      });
+    }
+  },
+
+  // Roster a shift, refusing overlaps with the member's other shifts that day
+  async createShift(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { date, startTime, endTime } = req.body;
+
+      const staff = await Staff.findByPk(id);
+
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      const existing = await StaffShift.findAll({ where: { staffId: id, date } });
+      const overlaps = existing.some(shift =>
+        timeToMinutes(shift.startTime) < timeToMinutes(endTime) &&
+        timeToMinutes(startTime) < timeToMinutes(shift.endTime)
+      );
+
+      if (overlaps) {
+        return res.status(409).json({
+          success: false,
+          message: 'Shift overlaps an existing shift'
+        });
+      }
+
+      const shift = await StaffShift.create({ staffId: id, date, startTime, endTime });
+
+      res.status(201).json({
+        success: true,
+        data: shift,
+        message: 'Shift created successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error creating shift',
+        error: error.message
+      });
+    }
+  },
+
+  // Remove a shift
+  async deleteShift(req: Request, res: Response) {
+    try {
+      const { id, shiftId } = req.params;
+
+      const shift = await StaffShift.findOne({ where: { id: shiftId, staffId: id } });
+
+      if (!shift) {
+        return res.status(404).json({
+          success: false,
+          message: 'Shift not found'
+        });
+      }
+
+      await shift.destroy();
+
+      res.json({
+        success: true,
+        message: 'Shift deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting shift',
+        error: error.message
+      });
+    }
+  },
+
+  // Day view: shifts and assigned jobs for one detailer
+  async getSchedule(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const date = (req.query.date as string) || toDateKey(new Date());
+
+      const staff = await Staff.findByPk(id);
+
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          message: 'Staff member not found'
+        });
+      }
+
+      const [shifts, bookings] = await Promise.all([
+        StaffShift.findAll({
+          where: { staffId: id, date },
+          order: [['startTime', 'ASC']]
+        }),
+        Booking.findAll({
+          where: {
+            staffId: id,
+            date,
+            status: { [Op.in]: [...ACTIVE_BOOKING_STATUSES, BookingStatus.COMPLETED] }
+          },
+          include: [{ model: Customer, as: 'customer', attributes: ['id', 'name', 'phone'] }],
+          order: [['time', 'ASC']]
+        })
+      ]);
+
+      const jobs = await Promise.all(bookings.map(async booking => {
+        const duration = await schedulingService.getServiceDuration(booking.serviceType);
+        return {
+          ...booking.toJSON(),
+          endTime: minutesToTime(timeToMinutes(booking.time) + duration)
+        };
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          staff,
+          date,
+          shifts,
+          bookings: jobs
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching schedule',
+        error: error.message
+      });
+    }
+  }
+};
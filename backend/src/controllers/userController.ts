@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { User } from '../models';
+import { UserRole } from '../models/User';
+import { authService } from '../services/authService';
+import { hashPassword } from '../utils/helpers';
+
+export const userController = {
+  // Get all users, optionally filtered by role
+  async getAllUsers(req: Request, res: Response) {
+    try {
+      const { role } = req.query;
+
+      const users = await User.findAll({
+        where: role ? { role: role as UserRole } : {},
+        order: [['name', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: users
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching users',
+        error: error.message
+      });
+    }
+  },
+
+  // Create staff or admin account
+  async createUser(req: Request, res: Response) {
+    try {
+      const { email, name, password, role } = req.body;
+
+      const user = await User.create({
+        email: email.toLowerCase(),
+        name,
+        passwordHash: await hashPassword(password),
+        role
+      });
+
+      res.status(201).json({
+        success: true,
+        data: user,
+        message: 'User created successfully'
+      });
+    } catch (error: any) {
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return res.status(409).json({
+          success: false,
+          message: 'A user with this email already exists'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Error creating user',
+        error: error.message
+      });
+    }
+  },
+
+  // Update name, role or active flag
+  async updateUser(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { name, role, active } = req.body;
+
+      const user = await User.findByPk(id);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      // Customer accounts stay linked to a customer record; staff accounts have none
+      if (role && (role === UserRole.CUSTOMER) !== !!user.customerId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Customer and staff accounts cannot switch roles'
+        });
+      }
+
+      await user.update({
+        ...(name !== undefined && { name }),
+        ...(role !== undefined && { role }),
+        ...(active !== undefined && { active })
+      });
+
+      // Deactivated users are signed out everywhere
+      if (active === false) {
+        await authService.revokeAll(user.id);
+      }
+
+      res.json({
+        success: true,
+        data: user,
+        message: 'User updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating user',
+        error: error.message
+      });
+    }
+  }
+};
@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { Customer, Vehicle, Booking } from '../models';
+
+// Fields a customer may set on their own vehicles
+const VEHICLE_FIELDS = ['vehicleType', 'make', 'model', 'year', 'colour', 'registrationNumber', 'notes'] as const;
+
+const pickVehicleFields = (body: any) => {
+  const values: any = {};
+  VEHICLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) values[field] = body[field];
+  });
+  if (values.registrationNumber) {
+    values.registrationNumber = values.registrationNumber.toUpperCase().replace(/[\s-]/g, '');
+  }
+  return values;
+};
+
+/**
+ * Another active vehicle of the customer already carries the registration number
+ */
+const isRegistrationTaken = async (customerId: string, registrationNumber?: string | null, excludeId?: string) => {
+  if (!registrationNumber) return false;
+
+  const where: any = { customerId, registrationNumber, active: true };
+  if (excludeId) {
+    where.id = { [Op.ne]: excludeId };
+  }
+  return (await Vehicle.count({ where })) > 0;
+};
+
+export const vehicleController = {
+  // Get a customer's vehicles
+  async getVehicles(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const vehicles = await Vehicle.findAll({
+        where: { customerId: id, active: true },
+        order: [['createdAt', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: vehicles
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching vehicles',
+        error: error.message
+      });
+    }
+  },
+
+  // Get a vehicle with its wash history
+  async getVehicleById(req: Request, res: Response) {
+    try {
+      const { id, vehicleId } = req.params;
+
+      const vehicle = await Vehicle.findOne({
+        where: { id: vehicleId, customerId: id },
+        include: [{ model: Booking, as: 'bookings' }],
+        order: [[{ model: Booking, as: 'bookings' }, 'date', 'DESC']]
+      });
+
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          message: 'Vehicle not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: vehicle
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching vehicle',
+        error: error.message
+      });
+    }
+  },
+
+  // Add a vehicle to a customer's garage
+  async createVehicle(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const customer = await Customer.findByPk(id);
+      if (!customer) {
+        return res.status(404).json({
+          success: false,
+          message: 'Customer not found'
+        });
+      }
+
+      const values = pickVehicleFields(req.body);
+      if (await isRegistrationTaken(id, values.registrationNumber)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A vehicle with this registration number is already registered'
+        });
+      }
+
+      const vehicle = await Vehicle.create({ ...values, customerId: id });
+
+      res.status(201).json({
+        success: true,
+        data: vehicle,
+        message: 'Vehicle added successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error adding vehicle',
+        error: error.message
+      });
+    }
+  },
+
+  // Update a vehicle
+  async updateVehicle(req: Request, res: Response) {
+    try {
+      const { id, vehicleId } = req.params;
+
+      const vehicle = await Vehicle.findOne({ where: { id: vehicleId, customerId: id, active: true } });
+
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          message: 'Vehicle not found'
+        });
+      }
+
+      const values = pickVehicleFields(req.body);
+      if (await isRegistrationTaken(id, values.registrationNumber, vehicle.id)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A vehicle with this registration number is already registered'
+        });
+      }
+
+      await vehicle.update(values);
+
+      res.json({
+        success: true,
+        data: vehicle,
+        message: 'Vehicle updated successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error updating vehicle',
+        error: error.message
+      });
+    }
+  },
+
+  // Remove a vehicle from the garage, keeping its wash history
+  async deleteVehicle(req: Request, res: Response) {
+    try {
+      const { id, vehicleId } = req.params;
+
+      const vehicle = await Vehicle.findOne({ where: { id: vehicleId, customerId: id, active: true } });
+
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          message: 'Vehicle not found'
+        });
+      }
+
+      await vehicle.update({ active: false });
+
+      res.json({
+        success: true,
+        message: 'Vehicle deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error deleting vehicle',
+        error: error.message
+      });
+    }
+  }
+};
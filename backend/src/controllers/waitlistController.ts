@@ -0,0 +1,203 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { Customer, WaitlistEntry } from '../models';
+import { WaitlistStatus } from '../models/WaitlistEntry';
+import { waitlistService } from '../services/waitlistService';
+import { businessHoursService } from '../services/businessHoursService';
+import { AuthRequest, isStaff } from '../middleware/auth';
+import { isValidBookingDate } from '../utils/helpers';
+import { fromDateKey } from '../utils/dateUtils';
+
+// Entries still in line for a slot
+const OPEN_STATUSES = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+export const waitlistController = {
+  // Join the waitlist for a date
+  async joinWaitlist(req: AuthRequest, res: Response) {
+    try {
+      const { date, email } = req.body;
+
+      const calendar = await businessHoursService.getCalendar({ from: date, to: date });
+      const dateCheck = isValidBookingDate(fromDateKey(date), calendar);
+      if (!dateCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: dateCheck.message
+        });
+      }
+
+      const existing = await WaitlistEntry.findOne({
+        where: { email, date, status: { [Op.in]: OPEN_STATUSES } }
+      });
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: 'You are already on the waitlist for this date'
+        });
+      }
+
+      const customer = req.user?.customerId
+        ? await Customer.findByPk(req.user.customerId)
+        : await Customer.findOne({ where: { email } });
+
+      const entry = await WaitlistEntry.create({
+        ...req.body,
+        customerId: customer?.id || null
+      });
+
+      const ahead: any = {
+        date,
+        appointmentType: entry.appointmentType,
+        status: WaitlistStatus.WAITING,
+        createdAt: { [Op.lte]: entry.createdAt }
+      };
+      const position = await WaitlistEntry.count({ where: ahead });
+
+      // A slot may already be free at the customer's preferred time
+      await waitlistService.offerNext(date, entry.appointmentType);
+      await entry.reload();
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...entry.toJSON(),
+          position
+        },
+        message: entry.status === WaitlistStatus.OFFERED
+          ? 'A slot is available now; check your email to claim it'
+          : 'Added to the waitlist. We will email you if a slot opens up'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error joining waitlist',
+        error: error.message
+      });
+    }
+  },
+
+  // Get waitlist entries, optionally for a date or status
+  async getWaitlist(req: AuthRequest, res: Response) {
+    try {
+      const { date, status } = req.query;
+
+      const where: any = {};
+      if (date) where.date = date;
+      if (status) where.status = status;
+
+      const entries = await WaitlistEntry.findAll({
+        where,
+        order: [['date', 'ASC'], ['createdAt', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: entries
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching waitlist',
+        error: error.message
+      });
+    }
+  },
+
+  // View an open offer from its claim link
+  async getOffer(req: AuthRequest, res: Response) {
+    try {
+      const offer = await waitlistService.findOffer(req.params.token);
+
+      if (!offer) {
+        return res.status(404).json({
+          success: false,
+          message: 'This offer has expired or has already been used'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: offer
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching waitlist offer',
+        error: error.message
+      });
+    }
+  },
+
+  // Turn down an offer so the next customer gets it
+  async declineOffer(req: AuthRequest, res: Response) {
+    try {
+      const offer = await waitlistService.findOffer(req.params.token);
+
+      if (!offer) {
+        return res.status(404).json({
+          success: false,
+          message: 'This offer has expired or has already been used'
+        });
+      }
+
+      await waitlistService.declineOffer(offer);
+
+      res.json({
+        success: true,
+        message: 'Offer declined'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error declining waitlist offer',
+        error: error.message
+      });
+    }
+  },
+
+  // Leave the waitlist
+  async leaveWaitlist(req: AuthRequest, res: Response) {
+    try {
+      const entry = await WaitlistEntry.findByPk(req.params.id);
+
+      if (!entry) {
+        return res.status(404).json({
+          success: false,
+          message: 'Waitlist entry not found'
+        });
+      }
+
+      if (!isStaff(req.user) && (!req.user?.customerId || entry.customerId !== req.user.customerId)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Insufficient permissions.'
+        });
+      }
+
+      if (!OPEN_STATUSES.includes(entry.status)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Waitlist entry is no longer active'
+        });
+      }
+
+      // Leaving while holding an offer passes it straight on
+      if (entry.status === WaitlistStatus.OFFERED) {
+        await waitlistService.declineOffer(entry);
+      } else {
+        await entry.update({ status: WaitlistStatus.CANCELLED });
+      }
+
+      res.json({
+        success: true,
+        message: 'Removed from the waitlist'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error leaving waitlist',
+        error: error.message
+      });
+    }
+  }
+};
@@ -1,11 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
+import { Booking } from '../models';
+import { UserRole } from '../models/User';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  customerId?: string | null;
+}
 
 export interface AuthRequest extends Request {
-  user?: any;
+  user?: AuthUser;
 }
 
+// Roles that can see and manage every customer's data
+export const STAFF_ROLES = [UserRole.ADMIN, UserRole.STAFF];
+
+export const isStaff = (user?: AuthUser) => !!user && STAFF_ROLES.includes(user.role);
+
 export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
   const token = req.header('Authorization')?.replace('Bearer ', '');
 
@@ -18,7 +32,7 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
 
   try {
     const decoded = jwt.verify(token, config.JWT_SECRET);
-    req.user = decoded;
+    req.user = decoded as AuthUser;
     next();
   } catch (error) {
     res.status(401).json({
@@ -28,6 +42,26 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
   }
 };
 
+/**
+ * Attach the user when a valid token is sent, but let guests through
+ */
+export const optionalAuthenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.header('Authorization')?.replace('Bearer ', '');
+
+  if (token) {
+    try {
+      req.user = jwt.verify(token, config.JWT_SECRET) as AuthUser;
+    } catch (error) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid token.'
+      });
+    }
+  }
+
+  next();
+};
+
 export const authorize = (...roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -46,4 +80,57 @@ export const authorize = (...roles: string[]) => {
 
     next();
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Staff, or the customer whose id is in the route
+ */
+export const authorizeCustomer = (param: string = 'id') => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (isStaff(req.user) || (req.user?.customerId && req.user.customerId === req.params[param])) {
+      return next();
+    }
+
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. Insufficient permissions.'
+    });
+  };
+};
+
+/**
+ * Staff, or the customer who owns the booking in the route
+ */
+export const authorizeBookingOwner = (param: string = 'id') => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (isStaff(req.user)) {
+      return next();
+    }
+
+    try {
+      const booking = await Booking.findByPk(req.params[param], { attributes: ['id', 'customerId'] });
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+      }
+
+      if (!req.user?.customerId || booking.customerId !== req.user.customerId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Insufficient permissions.'
+        });
+      }
+
+      next();
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: 'Error checking booking access',
+        error: error.message
+      });
+    }
+  };
+};
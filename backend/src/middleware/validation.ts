@@ -1,5 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { PriceRuleType } from '../models/PriceRule';
+import { PromotionDiscountType } from '../models/Promotion';
+import { UserRole } from '../models/User';
+import { RecurrenceFrequency } from '../models/RecurringBooking';
+import { GroupSchedulingMode } from '../models/BookingGroup';
+import { FleetInvoiceStatus } from '../models/FleetInvoice';
+import { DepositRuleScope, DepositType } from '../models/DepositRule';
+import { AppointmentType } from '../models/Booking';
+
+const serviceAddressSchema = Joi.object({
+  line1: Joi.string().max(255).required(),
+  line2: Joi.string().max(255).optional(),
+  suburb: Joi.string().max(100).optional(),
+  city: Joi.string().max(100).required(),
+  postalCode: Joi.string().max(20).optional(),
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required()
+});
+
+// Mobile appointments are done at the customer's address
+const mobileServiceAddress = serviceAddressSchema
+  .when('appointmentType', { is: 'mobile', then: Joi.required(), otherwise: Joi.forbidden() });
 
 export const validateBooking = (req: Request, res: Response, next: NextFunction) => {
   const schema = Joi.object({
@@ -7,9 +29,11 @@ export const validateBooking = (req: Request, res: Response, next: NextFunction)
     customerEmail: Joi.string().email().required(),
     phone: Joi.string().pattern(/^[0-9\-\+\(\) ]+$/).optional(),
     date: Joi.date().min('now').required(),
-    time: Joi.string().pattern(/^(0[9]|1[0-7]):[0-5][0-9] (AM|PM)$/).required(),
+    time: Joi.string().pattern(/^([0-1]\d|2[0-3]):[0-5]\d$/).required(),
     serviceType: Joi.string().required(),
-    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY').required(),
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY')
+      .when('vehicleId', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+    vehicleId: Joi.string().uuid().optional(),
     vehicleYear: Joi.string().pattern(/^[0-9]{4}$/).optional(),
     vehicleMake: Joi.string().optional(),
     vehicleModel: Joi.string().optional(),
@@ -17,7 +41,15 @@ export const validateBooking = (req: Request, res: Response, next: NextFunction)
     extras: Joi.array().items(Joi.string()).default([]),
     appointmentType: Joi.string().valid('studio', 'mobile').default('studio'),
     notes: Joi.string().optional(),
-    paymentMethod: Joi.string().valid('card', 'cash').optional()
+    paymentMethod: Joi.string().valid('card', 'cash', 'on_account').optional(),
+    fleetAccountId: Joi.string().uuid().optional(),
+    quoteId: Joi.string().uuid().optional(),
+    promoCode: Joi.string().max(50).optional(),
+    redeemPoints: Joi.number().integer().min(1).optional(),
+    totalPrice: Joi.number().min(0).optional(),
+    waitlistToken: Joi.string().hex().optional(),
+    holdId: Joi.string().uuid().optional(),
+    serviceAddress: mobileServiceAddress
   });
 
   const { error } = schema.validate(req.body);
@@ -59,6 +91,33 @@ export const validateService = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+export const validatePriceCalculation = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    serviceType: Joi.string().required(),
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY').required(),
+    condition: Joi.string().valid('LIGHT', 'MODERATE', 'HEAVY').optional(),
+    extras: Joi.array().items(Joi.string()).default([]),
+    promoCode: Joi.string().max(50).optional(),
+    customerEmail: Joi.string().email().optional(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    appointmentType: Joi.string().valid('studio', 'mobile').optional(),
+    serviceAddress: serviceAddressSchema.optional(),
+    persist: Joi.boolean().default(false) // store the price as a quote the booking can lock in
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
 export const validateCustomer = (req: Request, res: Response, next: NextFunction) => {
   const schema = Joi.object({
     name: Joi.string().min(2).max(100).required(),
@@ -80,4 +139,762 @@ export const validateCustomer = (req: Request, res: Response, next: NextFunction
   }
   
   next();
-};
\ No newline at end of file
+};
+export const validateOperatingHours = (req: Request, res: Response, next: NextFunction) => {
+  const timePattern = /^([0-1]\d|2[0-3]):[0-5]\d$/;
+  const schema = Joi.object({
+    openTime: Joi.string().pattern(timePattern).required(),
+    closeTime: Joi.string().pattern(timePattern).required(),
+    isClosed: Joi.boolean().default(false)
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+
+  if (req.body.openTime >= req.body.closeTime) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: 'openTime must be before closeTime'
+    });
+  }
+  
+  next();
+};
+
+export const validateClosure = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    reason: Joi.string().min(2).max(255).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validatePriceRule = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    ruleType: Joi.string().valid(...Object.values(PriceRuleType)).required(),
+    code: Joi.string().pattern(/^[A-Za-z_]+$/).required(),
+    value: Joi.number().min(0).required(),
+    label: Joi.string().max(100).optional(),
+    active: Joi.boolean().default(true)
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validatePromotion = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    code: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(50).required(),
+    description: Joi.string().max(255).optional(),
+    discountType: Joi.string().valid(...Object.values(PromotionDiscountType)).required(),
+    discountValue: Joi.when('discountType', {
+      is: PromotionDiscountType.PERCENTAGE,
+      then: Joi.number().greater(0).max(100).required(),
+      otherwise: Joi.number().greater(0).required()
+    }),
+    validFrom: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional(),
+    validUntil: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional(),
+    serviceTypes: Joi.array().items(Joi.string()).default([]),
+    vehicleTypes: Joi.array().items(Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY')).default([]),
+    maxUses: Joi.number().integer().min(1).allow(null).optional(),
+    maxUsesPerCustomer: Joi.number().integer().min(1).allow(null).optional(),
+    firstBookingOnly: Joi.boolean().default(false),
+    active: Joi.boolean().default(true)
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validatePromoCode = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    code: Joi.string().max(50).required(),
+    serviceType: Joi.string().required(),
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY').required(),
+    condition: Joi.string().valid('LIGHT', 'MODERATE', 'HEAVY').optional(),
+    extras: Joi.array().items(Joi.string()).default([]),
+    customerEmail: Joi.string().email().optional(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateRegister = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    email: Joi.string().email().required(),
+    password: Joi.string().min(8).max(128).required(),
+    phone: Joi.string().pattern(/^[0-9\-\+\(\) ]+$/).optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateLogin = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    email: Joi.string().email().required(),
+    password: Joi.string().required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateRefreshToken = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    refreshToken: Joi.string().required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateForgotPassword = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    email: Joi.string().email().required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateResetPassword = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    token: Joi.string().required(),
+    password: Joi.string().min(8).max(128).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateVerifyEmail = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    token: Joi.string().required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateUser = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    email: Joi.string().email().required(),
+    name: Joi.string().min(2).max(100).required(),
+    password: Joi.string().min(8).max(128).required(),
+    role: Joi.string().valid(UserRole.ADMIN, UserRole.STAFF).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateUserUpdate = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).optional(),
+    role: Joi.string().valid(...Object.values(UserRole)).optional(),
+    active: Joi.boolean().optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateStaff = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    email: Joi.string().email().allow(null).optional(),
+    phone: Joi.string().max(50).allow(null).optional(),
+    userId: Joi.string().uuid().allow(null).optional(),
+    skills: Joi.array().items(Joi.string()).default([]),
+    active: Joi.boolean().default(true)
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateStaffShift = (req: Request, res: Response, next: NextFunction) => {
+  const timePattern = /^([0-1]\d|2[0-3]):[0-5]\d$/;
+  const schema = Joi.object({
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    startTime: Joi.string().pattern(timePattern).required(),
+    endTime: Joi.string().pattern(timePattern).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+
+  if (req.body.startTime >= req.body.endTime) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: 'startTime must be before endTime'
+    });
+  }
+  
+  next();
+};
+
+export const validateReschedule = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    time: Joi.string().pattern(/^([0-1]\d|2[0-3]):[0-5]\d$/).required()
+      .messages({ 'string.pattern.base': 'Time must be in 24-hour format (HH:MM) e.g., 14:30' }),
+    reason: Joi.string().max(500).optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateRecurringBooking = (req: Request, res: Response, next: NextFunction) => {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  const schema = Joi.object({
+    customerId: Joi.string().uuid().optional(),
+    frequency: Joi.string().valid(...Object.values(RecurrenceFrequency)).required(),
+    startDate: Joi.string().pattern(datePattern).required(),
+    time: Joi.string().pattern(/^([0-1]\d|2[0-3]):[0-5]\d$/).required()
+      .messages({ 'string.pattern.base': 'Time must be in 24-hour format (HH:MM) e.g., 14:30' }),
+    endDate: Joi.string().pattern(datePattern).optional(),
+    occurrences: Joi.number().integer().min(1).max(104).optional(),
+    serviceType: Joi.string().required(),
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY').required(),
+    vehicleYear: Joi.string().pattern(/^\d{4}$/).optional(),
+    vehicleMake: Joi.string().max(50).optional(),
+    vehicleModel: Joi.string().max(50).optional(),
+    condition: Joi.string().valid('LIGHT', 'MODERATE', 'HEAVY').optional(),
+    extras: Joi.array().items(Joi.string()).default([]),
+    appointmentType: Joi.string().valid('studio', 'mobile').default('studio'),
+    paymentMethod: Joi.string().valid('card', 'cash').required(),
+    notes: Joi.string().max(500).optional(),
+    serviceAddress: mobileServiceAddress
+  }).oxor('endDate', 'occurrences');
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+
+  if (req.body.endDate && req.body.endDate < req.body.startDate) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: 'endDate must not be before startDate'
+    });
+  }
+  
+  next();
+};
+
+export const validateWaitlistEntry = (req: Request, res: Response, next: NextFunction) => {
+  const timePattern = /^([0-1]\d|2[0-3]):[0-5]\d$/;
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    email: Joi.string().email().required(),
+    phone: Joi.string().pattern(/^[0-9\-\+\(\) ]+$/).optional(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    windowStart: Joi.string().pattern(timePattern).optional(),
+    windowEnd: Joi.string().pattern(timePattern).optional(),
+    serviceType: Joi.string().optional(),
+    appointmentType: Joi.string().valid('studio', 'mobile').default('studio')
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+
+  if (req.body.windowStart && req.body.windowEnd && req.body.windowStart >= req.body.windowEnd) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: 'windowStart must be before windowEnd'
+    });
+  }
+  
+  next();
+};
+
+export const validateSlotHold = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    time: Joi.string().pattern(/^([0-1]\d|2[0-3]):[0-5]\d$/).required(),
+    serviceType: Joi.string().required(),
+    appointmentType: Joi.string().valid('studio', 'mobile').default('studio'),
+    replaceHoldId: Joi.string().uuid().optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateVehicle = (req: Request, res: Response, next: NextFunction) => {
+  // Updates may change any subset of fields
+  const presence = req.method === 'POST' ? 'required' : 'optional';
+  const schema = Joi.object({
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY').presence(presence),
+    make: Joi.string().max(100).allow(null).optional(),
+    model: Joi.string().max(100).allow(null).optional(),
+    year: Joi.string().pattern(/^[0-9]{4}$/).allow(null).optional(),
+    colour: Joi.string().max(50).allow(null).optional(),
+    registrationNumber: Joi.string().pattern(/^[A-Za-z0-9 \-]{2,20}$/).allow(null).optional(),
+    notes: Joi.string().max(1000).allow(null, '').optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateBookingGroup = (req: Request, res: Response, next: NextFunction) => {
+  const line = Joi.object({
+    serviceType: Joi.string().required(),
+    vehicleId: Joi.string().uuid().optional(),
+    vehicleType: Joi.string().valid('SEDAN', 'COUPE', 'HATCHBACK', 'SUV', 'TRUCK', 'LUXURY')
+      .when('vehicleId', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+    vehicleYear: Joi.string().pattern(/^[0-9]{4}$/).optional(),
+    vehicleMake: Joi.string().max(50).optional(),
+    vehicleModel: Joi.string().max(50).optional(),
+    condition: Joi.string().valid('LIGHT', 'MODERATE', 'HEAVY').optional(),
+    extras: Joi.array().items(Joi.string()).default([])
+  });
+
+  const schema = Joi.object({
+    customerName: Joi.string().min(2).max(100).required(),
+    customerEmail: Joi.string().email().required(),
+    phone: Joi.string().pattern(/^[0-9\-\+\(\) ]+$/).optional(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    time: Joi.string().pattern(/^([0-1]\d|2[0-3]):[0-5]\d$/).required()
+      .messages({ 'string.pattern.base': 'Time must be in 24-hour format (HH:MM) e.g., 14:30' }),
+    appointmentType: Joi.string().valid('studio', 'mobile').default('studio'),
+    schedulingMode: Joi.string().valid(...Object.values(GroupSchedulingMode)).default(GroupSchedulingMode.BACK_TO_BACK),
+    paymentMethod: Joi.string().valid('card', 'cash').required(),
+    notes: Joi.string().max(500).optional(),
+    serviceAddress: mobileServiceAddress,
+    lines: Joi.array().items(line).min(2).max(10).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateFleetAccount = (req: Request, res: Response, next: NextFunction) => {
+  // Updates may change any subset of fields
+  const presence = req.method === 'POST' ? 'required' : 'optional';
+  const schema = Joi.object({
+    name: Joi.string().min(2).max(255).presence(presence),
+    contactName: Joi.string().max(255).allow(null).optional(),
+    contactEmail: Joi.string().email().presence(presence),
+    phone: Joi.string().pattern(/^[0-9\-\+\(\) ]+$/).allow(null).optional(),
+    billingAddress: Joi.string().max(1000).allow(null).optional(),
+    vatNumber: Joi.string().max(50).allow(null).optional(),
+    paymentTermsDays: Joi.number().integer().min(0).max(120).optional(),
+    active: Joi.boolean().optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateFleetInvoice = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    month: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).required()
+      .messages({ 'string.pattern.base': 'Month must be in YYYY-MM format' })
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateFleetInvoiceStatus = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    status: Joi.string().valid(FleetInvoiceStatus.PAID, FleetInvoiceStatus.VOID).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateServiceAreaCheck = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validatePaymentIntent = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    bookingId: Joi.string().uuid().required(),
+    customerEmail: Joi.string().email().optional(),
+    kind: Joi.string().valid('deposit', 'balance', 'tip').optional(),
+    tipAmount: Joi.number().positive().precision(2).when('kind', {
+      is: 'tip',
+      then: Joi.required(),
+      otherwise: Joi.forbidden()
+    })
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateFakeCard = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    cardNumber: Joi.string().pattern(/^[0-9 ]{12,23}$/).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateFakeAuthentication = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    approve: Joi.boolean().required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validatePaymentStatus = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    paymentStatus: Joi.string().valid('pending', 'paid', 'failed').required(),
+    paymentMethod: Joi.string().valid('card', 'cash', 'on_account').optional(),
+    transactionId: Joi.string().max(255).optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateBookingPayment = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    kind: Joi.string().valid('deposit', 'balance', 'tip').required(),
+    amount: Joi.number().positive().precision(2).when('kind', {
+      is: 'tip',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    }),
+    method: Joi.string().valid('card', 'cash').required(),
+    reference: Joi.string().max(255).optional()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateDepositRule = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    scope: Joi.string().valid(...Object.values(DepositRuleScope)).required(),
+    code: Joi.when('scope', {
+      is: DepositRuleScope.CATEGORY,
+      then: Joi.string().valid('basic', 'deluxe', 'premium').required(),
+      otherwise: Joi.string().valid(...Object.values(AppointmentType)).required()
+    }),
+    depositType: Joi.string().valid(...Object.values(DepositType)).required(),
+    value: Joi.when('depositType', {
+      is: DepositType.PERCENTAGE,
+      then: Joi.number().positive().max(100).required(),
+      otherwise: Joi.number().positive().precision(2).required()
+    }),
+    active: Joi.boolean().default(true)
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
+
+export const validateRefund = (req: Request, res: Response, next: NextFunction) => {
+  const schema = Joi.object({
+    amount: Joi.number().positive().precision(2).optional(),
+    reason: Joi.string().max(255).required()
+  });
+
+  const { error } = schema.validate(req.body);
+  
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+  }
+  
+  next();
+};
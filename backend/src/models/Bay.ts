@@ -0,0 +1,53 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface BayAttributes {
+  id: string;
+  name: string;
+  notes?: string;
+  active: boolean;
+}
+
+interface BayCreationAttributes extends Optional<BayAttributes, 'id' | 'active'> {}
+
+class Bay extends Model<BayAttributes, BayCreationAttributes> implements BayAttributes {
+  public id!: string;
+  public name!: string;
+  public notes?: string;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Bay.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'bays',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default Bay;
@@ -1,6 +1,11 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import sequelize from '../config/database';
 import Customer from './Customer';
+import Bay from './Bay';
+import MobileUnit from './MobileUnit';
+import Promotion from './Promotion';
+import Staff from './Staff';
+import { ServiceAddress } from '../types';
 
 export enum AppointmentType {
   STUDIO = 'studio',
@@ -10,8 +15,10 @@ export enum AppointmentType {
 export enum BookingStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
+  IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  NO_SHOW = 'no_show'
 }
 
 interface BookingAttributes {
@@ -24,13 +31,33 @@ interface BookingAttributes {
   vehicleYear?: string;
   vehicleMake?: string;
   vehicleModel?: string;
+  vehicleId?: string | null; // registered car; the vehicle fields above are a snapshot of it
   condition?: string;
   extras: string[];
   appointmentType: AppointmentType;
+  bayId?: string | null;
+  mobileUnitId?: string | null;
+  staffId?: string | null;
+  serviceAddress?: ServiceAddress | null; // mobile jobs only
+  travelDistanceKm?: number | null;
+  travelFee?: number;
+  recurringBookingId?: string | null;
+  bookingGroupId?: string | null; // set on each line of a multi-vehicle booking
+  fleetAccountId?: string | null; // account billed for on_account bookings
+  fleetInvoiceId?: string | null; // monthly invoice that billed the booking
+  promotionId?: string | null;
+  discountAmount?: number;
+  pointsRedeemed?: number;
+  loyaltyDiscount?: number;
   totalPrice: number;
+  depositAmount?: number; // due up front to secure the booking
+  amountPaid?: number; // towards totalPrice, tips excluded
+  tipAmount?: number;
+  amountRefunded?: number; // tips included
   status: BookingStatus;
-  paymentMethod?: 'card' | 'cash';
-  paymentStatus: 'pending' | 'paid' | 'failed';
+  paymentMethod?: 'card' | 'cash' | 'on_account';
+  paymentStatus: 'pending' | 'partially_paid' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+  transactionId?: string | null;
   notes?: string;
   referenceNumber: string;
 }
@@ -47,13 +74,33 @@ class Booking extends Model<BookingAttributes, BookingCreationAttributes> implem
   public vehicleYear?: string;
   public vehicleMake?: string;
   public vehicleModel?: string;
+  public vehicleId?: string | null;
   public condition?: string;
   public extras!: string[];
   public appointmentType!: AppointmentType;
+  public bayId?: string | null;
+  public mobileUnitId?: string | null;
+  public staffId?: string | null;
+  public serviceAddress?: ServiceAddress | null;
+  public travelDistanceKm?: number | null;
+  public travelFee?: number;
+  public recurringBookingId?: string | null;
+  public bookingGroupId?: string | null;
+  public fleetAccountId?: string | null;
+  public fleetInvoiceId?: string | null;
+  public promotionId?: string | null;
+  public discountAmount?: number;
+  public pointsRedeemed?: number;
+  public loyaltyDiscount?: number;
   public totalPrice!: number;
+  public depositAmount?: number;
+  public amountPaid?: number;
+  public tipAmount?: number;
+  public amountRefunded?: number;
   public status!: BookingStatus;
-  public paymentMethod?: 'card' | 'cash';
-  public paymentStatus!: 'pending' | 'paid' | 'failed';
+  public paymentMethod?: 'card' | 'cash' | 'on_account';
+  public paymentStatus!: 'pending' | 'partially_paid' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+  public transactionId?: string | null;
   public notes?: string;
   public referenceNumber!: string;
 
@@ -62,6 +109,10 @@ class Booking extends Model<BookingAttributes, BookingCreationAttributes> implem
 
   // Associations
   public readonly customer?: Customer;
+  public readonly bay?: Bay;
+  public readonly mobileUnit?: MobileUnit;
+  public readonly promotion?: Promotion;
+  public readonly staff?: Staff;
 }
 
 Booking.init(
@@ -104,6 +155,14 @@ Booking.init(
     vehicleModel: {
       type: DataTypes.STRING,
     },
+    vehicleId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'vehicles',
+        key: 'id',
+      },
+    },
     condition: {
       type: DataTypes.STRING,
     },
@@ -115,21 +174,129 @@ Booking.init(
       type: DataTypes.ENUM(...Object.values(AppointmentType)),
       defaultValue: AppointmentType.STUDIO,
     },
+    bayId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bays',
+        key: 'id',
+      },
+    },
+    mobileUnitId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'mobile_units',
+        key: 'id',
+      },
+    },
+    staffId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'staff',
+        key: 'id',
+      },
+    },
+    serviceAddress: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    travelDistanceKm: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: true,
+    },
+    travelFee: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    recurringBookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'recurring_bookings',
+        key: 'id',
+      },
+    },
+    bookingGroupId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'booking_groups',
+        key: 'id',
+      },
+    },
+    fleetAccountId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'fleet_accounts',
+        key: 'id',
+      },
+    },
+    fleetInvoiceId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'fleet_invoices',
+        key: 'id',
+      },
+    },
+    promotionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'promotions',
+        key: 'id',
+      },
+    },
+    discountAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    pointsRedeemed: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+    },
+    loyaltyDiscount: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
     totalPrice: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
     },
+    depositAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    amountPaid: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    tipAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    amountRefunded: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
     status: {
       type: DataTypes.ENUM(...Object.values(BookingStatus)),
       defaultValue: BookingStatus.PENDING,
     },
     paymentMethod: {
-      type: DataTypes.ENUM('card', 'cash'),
+      type: DataTypes.ENUM('card', 'cash', 'on_account'),
     },
     paymentStatus: {
-      type: DataTypes.ENUM('pending', 'paid', 'failed'),
+      type: DataTypes.ENUM('pending', 'partially_paid', 'paid', 'failed', 'partially_refunded', 'refunded'),
       defaultValue: 'pending',
     },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
     notes: {
       type: DataTypes.TEXT,
     },
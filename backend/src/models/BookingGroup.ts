@@ -0,0 +1,106 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { AppointmentType } from './Booking';
+import { ServiceAddress } from '../types';
+
+export enum GroupSchedulingMode {
+  BACK_TO_BACK = 'back_to_back', // each vehicle starts when the previous one is done
+  PARALLEL = 'parallel' // all vehicles start together in separate bays or vans
+}
+
+interface BookingGroupAttributes {
+  id: string;
+  referenceNumber: string;
+  customerId: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM start of the first line
+  appointmentType: AppointmentType;
+  schedulingMode: GroupSchedulingMode;
+  serviceAddress?: ServiceAddress | null; // every line of a mobile group is done here
+  paymentMethod: 'card' | 'cash';
+  notes?: string | null;
+}
+
+interface BookingGroupCreationAttributes extends Optional<BookingGroupAttributes, 'id'> {}
+
+class BookingGroup extends Model<BookingGroupAttributes, BookingGroupCreationAttributes> implements BookingGroupAttributes {
+  public id!: string;
+  public referenceNumber!: string;
+  public customerId!: string;
+  public date!: string;
+  public time!: string;
+  public appointmentType!: AppointmentType;
+  public schedulingMode!: GroupSchedulingMode;
+  public serviceAddress?: ServiceAddress | null;
+  public paymentMethod!: 'card' | 'cash';
+  public notes?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+BookingGroup.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    referenceNumber: {
+      type: DataTypes.STRING,
+      unique: true,
+      allowNull: false,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    time: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    appointmentType: {
+      type: DataTypes.ENUM(...Object.values(AppointmentType)),
+      defaultValue: AppointmentType.STUDIO,
+    },
+    schedulingMode: {
+      type: DataTypes.ENUM(...Object.values(GroupSchedulingMode)),
+      defaultValue: GroupSchedulingMode.BACK_TO_BACK,
+    },
+    serviceAddress: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    paymentMethod: {
+      type: DataTypes.ENUM('card', 'cash'),
+      allowNull: false,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'booking_groups',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['customer_id'],
+      },
+    ],
+  }
+);
+
+export default BookingGroup;
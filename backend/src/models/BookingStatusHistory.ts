@@ -0,0 +1,84 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { BookingStatus } from './Booking';
+import User from './User';
+
+interface BookingStatusHistoryAttributes {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus | null; // null for the booking's first status
+  toStatus: BookingStatus;
+  changedById?: string | null; // null for guests and automatic changes
+  reason?: string | null;
+}
+
+interface BookingStatusHistoryCreationAttributes extends Optional<BookingStatusHistoryAttributes, 'id'> {}
+
+class BookingStatusHistory
+  extends Model<BookingStatusHistoryAttributes, BookingStatusHistoryCreationAttributes>
+  implements BookingStatusHistoryAttributes {
+  public id!: string;
+  public bookingId!: string;
+  public fromStatus?: BookingStatus | null;
+  public toStatus!: BookingStatus;
+  public changedById?: string | null;
+  public reason?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public changedBy?: User;
+}
+
+BookingStatusHistory.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+    fromStatus: {
+      type: DataTypes.ENUM(...Object.values(BookingStatus)),
+      allowNull: true,
+    },
+    toStatus: {
+      type: DataTypes.ENUM(...Object.values(BookingStatus)),
+      allowNull: false,
+    },
+    changedById: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'booking_status_history',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['booking_id'],
+      },
+    ],
+  }
+);
+
+export default BookingStatusHistory;
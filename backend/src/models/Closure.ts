@@ -0,0 +1,48 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface ClosureAttributes {
+  id: string;
+  date: string; // YYYY-MM-DD
+  reason: string;
+}
+
+interface ClosureCreationAttributes extends Optional<ClosureAttributes, 'id'> {}
+
+class Closure extends Model<ClosureAttributes, ClosureCreationAttributes> implements ClosureAttributes {
+  public id!: string;
+  public date!: string;
+  public reason!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Closure.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      unique: true,
+    },
+    reason: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'closures',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default Closure;
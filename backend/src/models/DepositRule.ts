@@ -0,0 +1,81 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum DepositRuleScope {
+  CATEGORY = 'category', // service category, e.g. premium
+  APPOINTMENT_TYPE = 'appointment_type' // e.g. mobile
+}
+
+export enum DepositType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed'
+}
+
+interface DepositRuleAttributes {
+  id: string;
+  scope: DepositRuleScope;
+  code: string;
+  depositType: DepositType;
+  value: number; // percent of the booking total, or a Rand amount
+  active: boolean;
+}
+
+interface DepositRuleCreationAttributes extends Optional<DepositRuleAttributes, 'id' | 'active'> {}
+
+class DepositRule extends Model<DepositRuleAttributes, DepositRuleCreationAttributes> implements DepositRuleAttributes {
+  public id!: string;
+  public scope!: DepositRuleScope;
+  public code!: string;
+  public depositType!: DepositType;
+  public value!: number;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+DepositRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    scope: {
+      type: DataTypes.ENUM(...Object.values(DepositRuleScope)),
+      allowNull: false,
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    depositType: {
+      type: DataTypes.ENUM(...Object.values(DepositType)),
+      allowNull: false,
+    },
+    value: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'deposit_rules',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['scope', 'code'],
+      },
+    ],
+  }
+);
+
+export default DepositRule;
@@ -0,0 +1,86 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface FleetAccountAttributes {
+  id: string;
+  name: string; // company name on the invoice
+  contactName?: string | null;
+  contactEmail: string; // where monthly statements are sent
+  phone?: string | null;
+  billingAddress?: string | null;
+  vatNumber?: string | null;
+  paymentTermsDays: number;
+  active: boolean;
+}
+
+interface FleetAccountCreationAttributes extends Optional<FleetAccountAttributes, 'id' | 'paymentTermsDays' | 'active'> {}
+
+class FleetAccount extends Model<FleetAccountAttributes, FleetAccountCreationAttributes> implements FleetAccountAttributes {
+  public id!: string;
+  public name!: string;
+  public contactName?: string | null;
+  public contactEmail!: string;
+  public phone?: string | null;
+  public billingAddress?: string | null;
+  public vatNumber?: string | null;
+  public paymentTermsDays!: number;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FleetAccount.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    contactName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    contactEmail: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isEmail: true,
+      },
+    },
+    phone: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    billingAddress: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    vatNumber: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    paymentTermsDays: {
+      type: DataTypes.INTEGER,
+      defaultValue: 30,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fleet_accounts',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default FleetAccount;
@@ -0,0 +1,64 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// A customer allowed to book on a fleet account
+interface FleetAccountBookerAttributes {
+  id: string;
+  fleetAccountId: string;
+  customerId: string;
+}
+
+interface FleetAccountBookerCreationAttributes extends Optional<FleetAccountBookerAttributes, 'id'> {}
+
+class FleetAccountBooker
+  extends Model<FleetAccountBookerAttributes, FleetAccountBookerCreationAttributes>
+  implements FleetAccountBookerAttributes {
+  public id!: string;
+  public fleetAccountId!: string;
+  public customerId!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FleetAccountBooker.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    fleetAccountId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'fleet_accounts',
+        key: 'id',
+      },
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fleet_account_bookers',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['fleet_account_id', 'customer_id'],
+      },
+    ],
+  }
+);
+
+export default FleetAccountBooker;
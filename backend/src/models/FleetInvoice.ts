@@ -0,0 +1,111 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum FleetInvoiceStatus {
+  ISSUED = 'issued',
+  PAID = 'paid',
+  VOID = 'void'
+}
+
+interface FleetInvoiceAttributes {
+  id: string;
+  fleetAccountId: string;
+  invoiceNumber: string;
+  periodStart: string; // YYYY-MM-DD, first day of the month
+  periodEnd: string; // YYYY-MM-DD, last day of the month
+  bookingCount: number;
+  total: number;
+  status: FleetInvoiceStatus;
+  issuedAt: Date;
+  dueDate: string; // YYYY-MM-DD
+  paidAt?: Date | null;
+}
+
+interface FleetInvoiceCreationAttributes extends Optional<FleetInvoiceAttributes, 'id' | 'status'> {}
+
+class FleetInvoice extends Model<FleetInvoiceAttributes, FleetInvoiceCreationAttributes> implements FleetInvoiceAttributes {
+  public id!: string;
+  public fleetAccountId!: string;
+  public invoiceNumber!: string;
+  public periodStart!: string;
+  public periodEnd!: string;
+  public bookingCount!: number;
+  public total!: number;
+  public status!: FleetInvoiceStatus;
+  public issuedAt!: Date;
+  public dueDate!: string;
+  public paidAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FleetInvoice.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    fleetAccountId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'fleet_accounts',
+        key: 'id',
+      },
+    },
+    invoiceNumber: {
+      type: DataTypes.STRING,
+      unique: true,
+      allowNull: false,
+    },
+    periodStart: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    periodEnd: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    bookingCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    total: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(FleetInvoiceStatus)),
+      defaultValue: FleetInvoiceStatus.ISSUED,
+    },
+    issuedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    dueDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fleet_invoices',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['fleet_account_id', 'period_start'],
+      },
+    ],
+  }
+);
+
+export default FleetInvoice;
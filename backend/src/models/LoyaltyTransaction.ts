@@ -0,0 +1,88 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum LoyaltyTransactionType {
+  EARN = 'earn',
+  REDEEM = 'redeem',
+  REVERSAL = 'reversal',
+  ADJUSTMENT = 'adjustment'
+}
+
+interface LoyaltyTransactionAttributes {
+  id: string;
+  customerId: string;
+  bookingId?: string | null;
+  type: LoyaltyTransactionType;
+  points: number; // positive credits, negative debits
+  balanceAfter: number;
+  description: string;
+}
+
+interface LoyaltyTransactionCreationAttributes extends Optional<LoyaltyTransactionAttributes, 'id' | 'bookingId'> {}
+
+class LoyaltyTransaction
+  extends Model<LoyaltyTransactionAttributes, LoyaltyTransactionCreationAttributes>
+  implements LoyaltyTransactionAttributes {
+  public id!: string;
+  public customerId!: string;
+  public bookingId?: string | null;
+  public type!: LoyaltyTransactionType;
+  public points!: number;
+  public balanceAfter!: number;
+  public description!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LoyaltyTransaction.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+    type: {
+      type: DataTypes.ENUM(...Object.values(LoyaltyTransactionType)),
+      allowNull: false,
+    },
+    points: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    balanceAfter: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'loyalty_transactions',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default LoyaltyTransaction;
@@ -0,0 +1,58 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface MobileUnitAttributes {
+  id: string;
+  name: string;
+  registrationNumber?: string;
+  notes?: string;
+  active: boolean;
+}
+
+interface MobileUnitCreationAttributes extends Optional<MobileUnitAttributes, 'id' | 'active'> {}
+
+class MobileUnit extends Model<MobileUnitAttributes, MobileUnitCreationAttributes> implements MobileUnitAttributes {
+  public id!: string;
+  public name!: string;
+  public registrationNumber?: string;
+  public notes?: string;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+MobileUnit.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    registrationNumber: {
+      type: DataTypes.STRING,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'mobile_units',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default MobileUnit;
@@ -0,0 +1,64 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface OperatingHoursAttributes {
+  id: string;
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  openTime: string; // HH:MM
+  closeTime: string; // HH:MM
+  isClosed: boolean;
+}
+
+interface OperatingHoursCreationAttributes extends Optional<OperatingHoursAttributes, 'id' | 'isClosed'> {}
+
+class OperatingHours extends Model<OperatingHoursAttributes, OperatingHoursCreationAttributes> implements OperatingHoursAttributes {
+  public id!: string;
+  public dayOfWeek!: number;
+  public openTime!: string;
+  public closeTime!: string;
+  public isClosed!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+OperatingHours.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    dayOfWeek: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      validate: {
+        min: 0,
+        max: 6,
+      },
+    },
+    openTime: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    closeTime: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    isClosed: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'operating_hours',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default OperatingHours;
@@ -0,0 +1,117 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum PaymentKind {
+  DEPOSIT = 'deposit',
+  BALANCE = 'balance', // whatever is left of the booking total
+  TIP = 'tip' // on top of the booking total
+}
+
+export enum PaymentRecordStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+interface PaymentAttributes {
+  id: string;
+  bookingId: string;
+  kind: PaymentKind;
+  amount: number;
+  method: 'card' | 'cash' | 'on_account'; // on_account: settled through a fleet invoice
+  status: PaymentRecordStatus;
+  provider?: string | null; // set for online payments
+  providerReference?: string | null; // payment intent, or a card machine slip number
+  paidAt?: Date | null;
+  recordedById?: string | null; // staff member who took an in-person payment
+}
+
+interface PaymentCreationAttributes extends Optional<PaymentAttributes, 'id' | 'status'> {}
+
+class Payment extends Model<PaymentAttributes, PaymentCreationAttributes> implements PaymentAttributes {
+  public id!: string;
+  public bookingId!: string;
+  public kind!: PaymentKind;
+  public amount!: number;
+  public method!: 'card' | 'cash' | 'on_account';
+  public status!: PaymentRecordStatus;
+  public provider?: string | null;
+  public providerReference?: string | null;
+  public paidAt?: Date | null;
+  public recordedById?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Payment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+    kind: {
+      type: DataTypes.ENUM(...Object.values(PaymentKind)),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    method: {
+      type: DataTypes.ENUM('card', 'cash', 'on_account'),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PaymentRecordStatus)),
+      defaultValue: PaymentRecordStatus.PENDING,
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    providerReference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    recordedById: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payments',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['booking_id'],
+      },
+      {
+        fields: ['provider_reference'],
+      },
+    ],
+  }
+);
+
+export default Payment;
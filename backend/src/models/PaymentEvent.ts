@@ -0,0 +1,90 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum PaymentEventStatus {
+  PROCESSED = 'processed',
+  IGNORED = 'ignored' // event types we do not act on, or for unknown bookings
+}
+
+interface PaymentEventAttributes {
+  id: string;
+  provider: string;
+  eventId: string; // the provider's id, unique per provider
+  eventType: string;
+  bookingId?: string | null;
+  status: PaymentEventStatus;
+  payload: object;
+}
+
+interface PaymentEventCreationAttributes extends Optional<PaymentEventAttributes, 'id' | 'bookingId' | 'status'> {}
+
+class PaymentEvent extends Model<PaymentEventAttributes, PaymentEventCreationAttributes> implements PaymentEventAttributes {
+  public id!: string;
+  public provider!: string;
+  public eventId!: string;
+  public eventType!: string;
+  public bookingId?: string | null;
+  public status!: PaymentEventStatus;
+  public payload!: object;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PaymentEvent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      defaultValue: 'stripe',
+    },
+    eventId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    eventType: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PaymentEventStatus)),
+      defaultValue: PaymentEventStatus.PROCESSED,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payment_events',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['provider', 'event_id'],
+      },
+      {
+        fields: ['booking_id'],
+      },
+    ],
+  }
+);
+
+export default PaymentEvent;
@@ -0,0 +1,91 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum PriceRuleType {
+  VEHICLE_MULTIPLIER = 'vehicle_multiplier',
+  CONDITION_MULTIPLIER = 'condition_multiplier',
+  EXTRA_PRICE = 'extra_price'
+}
+
+interface PriceRuleAttributes {
+  id: string;
+  ruleType: PriceRuleType;
+  code: string; // e.g. SUV, HEAVY, WAX
+  value: number; // multiplier or Rand amount depending on ruleType
+  label?: string;
+  fleetAccountId?: string | null; // negotiated rule for one fleet account
+  active: boolean;
+}
+
+interface PriceRuleCreationAttributes extends Optional<PriceRuleAttributes, 'id' | 'active'> {}
+
+class PriceRule extends Model<PriceRuleAttributes, PriceRuleCreationAttributes> implements PriceRuleAttributes {
+  public id!: string;
+  public ruleType!: PriceRuleType;
+  public code!: string;
+  public value!: number;
+  public label?: string;
+  public fleetAccountId?: string | null;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PriceRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    ruleType: {
+      type: DataTypes.ENUM(...Object.values(PriceRuleType)),
+      allowNull: false,
+    },
+    code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    value: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+    },
+    label: {
+      type: DataTypes.STRING,
+    },
+    fleetAccountId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'fleet_accounts',
+        key: 'id',
+      },
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'price_rules',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['rule_type', 'code'],
+        where: { fleet_account_id: null },
+      },
+      {
+        unique: true,
+        fields: ['fleet_account_id', 'rule_type', 'code'],
+      },
+    ],
+  }
+);
+
+export default PriceRule;
@@ -0,0 +1,115 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum PromotionDiscountType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed'
+}
+
+interface PromotionAttributes {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: PromotionDiscountType;
+  discountValue: number; // percent off or Rand amount depending on discountType
+  validFrom?: string | null; // YYYY-MM-DD
+  validUntil?: string | null; // YYYY-MM-DD
+  serviceTypes: string[]; // empty means every service
+  vehicleTypes: string[]; // empty means every vehicle type
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  firstBookingOnly: boolean;
+  active: boolean;
+}
+
+interface PromotionCreationAttributes extends Optional<
+  PromotionAttributes,
+  'id' | 'serviceTypes' | 'vehicleTypes' | 'firstBookingOnly' | 'active'
+> {}
+
+class Promotion extends Model<PromotionAttributes, PromotionCreationAttributes> implements PromotionAttributes {
+  public id!: string;
+  public code!: string;
+  public description?: string;
+  public discountType!: PromotionDiscountType;
+  public discountValue!: number;
+  public validFrom?: string | null;
+  public validUntil?: string | null;
+  public serviceTypes!: string[];
+  public vehicleTypes!: string[];
+  public maxUses?: number | null;
+  public maxUsesPerCustomer?: number | null;
+  public firstBookingOnly!: boolean;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Promotion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING,
+    },
+    discountType: {
+      type: DataTypes.ENUM(...Object.values(PromotionDiscountType)),
+      allowNull: false,
+    },
+    discountValue: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    validFrom: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    validUntil: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    serviceTypes: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      defaultValue: [],
+    },
+    vehicleTypes: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      defaultValue: [],
+    },
+    maxUses: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    maxUsesPerCustomer: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    firstBookingOnly: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'promotions',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default Promotion;
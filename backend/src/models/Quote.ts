@@ -0,0 +1,110 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { QuoteLineItem } from '../types';
+
+interface QuoteAttributes {
+  id: string;
+  serviceType: string;
+  vehicleType: string;
+  condition?: string | null;
+  extras: string[];
+  lineItems: QuoteLineItem[];
+  promotionId?: string | null;
+  discountAmount?: number;
+  travelFee?: number;
+  totalPrice: number;
+  expiresAt: Date;
+  bookingId?: string | null; // set once the quote has been used
+}
+
+interface QuoteCreationAttributes extends Optional<QuoteAttributes, 'id' | 'condition' | 'extras' | 'promotionId' | 'discountAmount' | 'travelFee' | 'bookingId'> {}
+
+class Quote extends Model<QuoteAttributes, QuoteCreationAttributes> implements QuoteAttributes {
+  public id!: string;
+  public serviceType!: string;
+  public vehicleType!: string;
+  public condition?: string | null;
+  public extras!: string[];
+  public lineItems!: QuoteLineItem[];
+  public promotionId?: string | null;
+  public discountAmount?: number;
+  public travelFee?: number;
+  public totalPrice!: number;
+  public expiresAt!: Date;
+  public bookingId?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Quote.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    serviceType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    vehicleType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    condition: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    extras: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      defaultValue: [],
+    },
+    lineItems: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    promotionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'promotions',
+        key: 'id',
+      },
+    },
+    discountAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    travelFee: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    totalPrice: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'quotes',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default Quote;
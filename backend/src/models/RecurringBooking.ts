@@ -0,0 +1,173 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { AppointmentType } from './Booking';
+import { ServiceAddress } from '../types';
+import Customer from './Customer';
+
+export enum RecurrenceFrequency {
+  WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
+  MONTHLY = 'monthly'
+}
+
+export enum RecurringBookingStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled'
+}
+
+interface RecurringBookingAttributes {
+  id: string;
+  customerId: string;
+  frequency: RecurrenceFrequency;
+  startDate: string; // YYYY-MM-DD, the first occurrence
+  time: string; // HH:MM
+  endDate?: string | null; // last day an occurrence may fall on
+  occurrences?: number | null; // total occurrences in the series, counted from startDate
+  serviceType: string;
+  vehicleType: string;
+  vehicleYear?: string | null;
+  vehicleMake?: string | null;
+  vehicleModel?: string | null;
+  condition?: string | null;
+  extras: string[];
+  appointmentType: AppointmentType;
+  serviceAddress?: ServiceAddress | null; // mobile series only
+  paymentMethod: 'card' | 'cash';
+  notes?: string | null;
+  skippedDates: string[]; // occurrences the customer has opted out of
+  status: RecurringBookingStatus;
+}
+
+interface RecurringBookingCreationAttributes
+  extends Optional<RecurringBookingAttributes, 'id' | 'extras' | 'skippedDates' | 'status'> {}
+
+class RecurringBooking
+  extends Model<RecurringBookingAttributes, RecurringBookingCreationAttributes>
+  implements RecurringBookingAttributes {
+  public id!: string;
+  public customerId!: string;
+  public frequency!: RecurrenceFrequency;
+  public startDate!: string;
+  public time!: string;
+  public endDate?: string | null;
+  public occurrences?: number | null;
+  public serviceType!: string;
+  public vehicleType!: string;
+  public vehicleYear?: string | null;
+  public vehicleMake?: string | null;
+  public vehicleModel?: string | null;
+  public condition?: string | null;
+  public extras!: string[];
+  public appointmentType!: AppointmentType;
+  public serviceAddress?: ServiceAddress | null;
+  public paymentMethod!: 'card' | 'cash';
+  public notes?: string | null;
+  public skippedDates!: string[];
+  public status!: RecurringBookingStatus;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public readonly customer?: Customer;
+}
+
+RecurringBooking.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    frequency: {
+      type: DataTypes.ENUM(...Object.values(RecurrenceFrequency)),
+      allowNull: false,
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    time: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    occurrences: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    serviceType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    vehicleType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    vehicleYear: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    vehicleMake: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    vehicleModel: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    condition: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    extras: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      defaultValue: [],
+    },
+    appointmentType: {
+      type: DataTypes.ENUM(...Object.values(AppointmentType)),
+      defaultValue: AppointmentType.STUDIO,
+    },
+    serviceAddress: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    paymentMethod: {
+      type: DataTypes.ENUM('card', 'cash'),
+      allowNull: false,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    skippedDates: {
+      type: DataTypes.ARRAY(DataTypes.DATEONLY),
+      defaultValue: [],
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(RecurringBookingStatus)),
+      defaultValue: RecurringBookingStatus.ACTIVE,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'recurring_bookings',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default RecurringBooking;
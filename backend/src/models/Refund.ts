@@ -0,0 +1,142 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  PROCESSED = 'processed',
+  FAILED = 'failed'
+}
+
+interface RefundAttributes {
+  id: string;
+  bookingId: string;
+  paymentId?: string | null; // the payment refunded; null for payments made before they were itemised
+  paymentReference?: string | null; // the booking's payment transaction being refunded
+  provider?: string | null; // set when the refund goes back through the payment provider
+  providerRefundId?: string | null;
+  amountPaid: number;
+  fee: number;
+  amount: number; // amountPaid less the fee
+  reason: string;
+  status: RefundStatus;
+  requestedById?: string | null;
+  processedAt?: Date | null;
+  failureReason?: string | null;
+}
+
+interface RefundCreationAttributes extends Optional<RefundAttributes, 'id' | 'fee' | 'status'> {}
+
+class Refund extends Model<RefundAttributes, RefundCreationAttributes> implements RefundAttributes {
+  public id!: string;
+  public bookingId!: string;
+  public paymentId?: string | null;
+  public paymentReference?: string | null;
+  public provider?: string | null;
+  public providerRefundId?: string | null;
+  public amountPaid!: number;
+  public fee!: number;
+  public amount!: number;
+  public reason!: string;
+  public status!: RefundStatus;
+  public requestedById?: string | null;
+  public processedAt?: Date | null;
+  public failureReason?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Refund.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+    paymentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+    },
+    paymentReference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    providerRefundId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    amountPaid: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    fee: {
+      type: DataTypes.DECIMAL(10, 2),
+      defaultValue: 0,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(RefundStatus)),
+      defaultValue: RefundStatus.PENDING,
+    },
+    requestedById: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    processedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    failureReason: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refunds',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['booking_id'],
+      },
+      {
+        fields: ['status'],
+      },
+      {
+        fields: ['payment_id'],
+      },
+    ],
+  }
+);
+
+export default Refund;
@@ -0,0 +1,123 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { AppointmentType } from './Booking';
+
+interface SlotHoldAttributes {
+  id: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  duration: number; // in minutes
+  serviceType?: string | null;
+  appointmentType: AppointmentType;
+  bayId?: string | null;
+  mobileUnitId?: string | null;
+  staffId?: string | null;
+  holderIp?: string | null; // client that holds the slot during checkout; null for waitlist offers
+  expiresAt: Date;
+  bookingId?: string | null; // set once the hold has been turned into a booking
+}
+
+interface SlotHoldCreationAttributes extends Optional<SlotHoldAttributes, 'id'> {}
+
+class SlotHold extends Model<SlotHoldAttributes, SlotHoldCreationAttributes> implements SlotHoldAttributes {
+  public id!: string;
+  public date!: string;
+  public time!: string;
+  public duration!: number;
+  public serviceType?: string | null;
+  public appointmentType!: AppointmentType;
+  public bayId?: string | null;
+  public mobileUnitId?: string | null;
+  public staffId?: string | null;
+  public holderIp?: string | null;
+  public expiresAt!: Date;
+  public bookingId?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+SlotHold.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    time: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    duration: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    serviceType: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    appointmentType: {
+      type: DataTypes.ENUM(...Object.values(AppointmentType)),
+      defaultValue: AppointmentType.STUDIO,
+    },
+    bayId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bays',
+        key: 'id',
+      },
+    },
+    mobileUnitId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'mobile_units',
+        key: 'id',
+      },
+    },
+    staffId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'staff',
+        key: 'id',
+      },
+    },
+    holderIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'slot_holds',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['date', 'expires_at'],
+      },
+    ],
+  }
+);
+
+export default SlotHold;
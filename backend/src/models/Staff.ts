@@ -0,0 +1,82 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// Skill that lets a detailer take mobile jobs; other skills are service names
+export const MOBILE_UNIT_SKILL = 'mobile_unit';
+
+interface StaffAttributes {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  userId?: string | null; // login account, if the detailer has one
+  skills: string[]; // e.g. ['Eco Refresh', 'Executive Detail', 'mobile_unit']
+  active: boolean;
+}
+
+interface StaffCreationAttributes extends Optional<StaffAttributes, 'id' | 'skills' | 'active'> {}
+
+class Staff extends Model<StaffAttributes, StaffCreationAttributes> implements StaffAttributes {
+  public id!: string;
+  public name!: string;
+  public email?: string | null;
+  public phone?: string | null;
+  public userId?: string | null;
+  public skills!: string[];
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Staff.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    phone: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      unique: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    skills: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      defaultValue: [],
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'staff',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default Staff;
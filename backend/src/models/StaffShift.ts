@@ -0,0 +1,68 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface StaffShiftAttributes {
+  id: string;
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+interface StaffShiftCreationAttributes extends Optional<StaffShiftAttributes, 'id'> {}
+
+class StaffShift extends Model<StaffShiftAttributes, StaffShiftCreationAttributes> implements StaffShiftAttributes {
+  public id!: string;
+  public staffId!: string;
+  public date!: string;
+  public startTime!: string;
+  public endTime!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+StaffShift.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    staffId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'staff',
+        key: 'id',
+      },
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    startTime: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+    endTime: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'staff_shifts',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['staff_id', 'date'],
+      },
+    ],
+  }
+);
+
+export default StaffShift;
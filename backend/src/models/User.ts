@@ -0,0 +1,136 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import Customer from './Customer';
+
+export enum UserRole {
+  ADMIN = 'admin',
+  STAFF = 'staff',
+  CUSTOMER = 'customer'
+}
+
+interface UserAttributes {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  role: UserRole;
+  customerId?: string | null; // set for customer accounts
+  active: boolean;
+  passwordResetTokenHash?: string | null;
+  passwordResetExpiresAt?: Date | null;
+  emailVerifiedAt?: Date | null; // a guest customer with the same email is only linked once set
+  emailVerificationTokenHash?: string | null;
+  emailVerificationExpiresAt?: Date | null;
+}
+
+interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'customerId' | 'active'> {}
+
+// Never serialised into API responses
+const SECRET_FIELDS = [
+  'passwordHash',
+  'passwordResetTokenHash',
+  'passwordResetExpiresAt',
+  'emailVerificationTokenHash',
+  'emailVerificationExpiresAt',
+];
+
+class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
+  public id!: string;
+  public email!: string;
+  public name!: string;
+  public passwordHash!: string;
+  public role!: UserRole;
+  public customerId?: string | null;
+  public active!: boolean;
+  public passwordResetTokenHash?: string | null;
+  public passwordResetExpiresAt?: Date | null;
+  public emailVerifiedAt?: Date | null;
+  public emailVerificationTokenHash?: string | null;
+  public emailVerificationExpiresAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly customer?: Customer;
+
+  public toJSON(): object {
+    const values: Record<string, unknown> = { ...this.get() };
+    SECRET_FIELDS.forEach(field => delete values[field]);
+    return values;
+  }
+}
+
+User.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    passwordHash: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    role: {
+      type: DataTypes.ENUM(...Object.values(UserRole)),
+      allowNull: false,
+      defaultValue: UserRole.CUSTOMER,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      unique: true,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+    passwordResetTokenHash: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    passwordResetExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    emailVerificationTokenHash: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    emailVerificationExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'users',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default User;
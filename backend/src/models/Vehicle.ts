@@ -0,0 +1,98 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface VehicleAttributes {
+  id: string;
+  customerId: string;
+  vehicleType: string; // pricing code, e.g. 'SEDAN'
+  make?: string | null;
+  model?: string | null;
+  year?: string | null;
+  colour?: string | null;
+  registrationNumber?: string | null;
+  notes?: string | null;
+  active: boolean;
+}
+
+interface VehicleCreationAttributes extends Optional<VehicleAttributes, 'id' | 'active'> {}
+
+class Vehicle extends Model<VehicleAttributes, VehicleCreationAttributes> implements VehicleAttributes {
+  public id!: string;
+  public customerId!: string;
+  public vehicleType!: string;
+  public make?: string | null;
+  public model?: string | null;
+  public year?: string | null;
+  public colour?: string | null;
+  public registrationNumber?: string | null;
+  public notes?: string | null;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Vehicle.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    vehicleType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    make: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    model: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    year: {
+      type: DataTypes.STRING(4),
+      allowNull: true,
+    },
+    colour: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    registrationNumber: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'vehicles',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['customer_id'],
+      },
+    ],
+  }
+);
+
+export default Vehicle;
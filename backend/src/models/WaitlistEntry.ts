@@ -0,0 +1,165 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { AppointmentType } from './Booking';
+
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered', // a freed slot is being held out to this customer
+  BOOKED = 'booked',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled'
+}
+
+interface WaitlistEntryAttributes {
+  id: string;
+  customerId?: string | null;
+  name: string;
+  email: string;
+  phone?: string | null;
+  date: string; // YYYY-MM-DD
+  windowStart?: string | null; // HH:MM, earliest acceptable start
+  windowEnd?: string | null; // HH:MM, latest acceptable finish
+  serviceType?: string | null;
+  appointmentType: AppointmentType;
+  status: WaitlistStatus;
+  offeredTime?: string | null;
+  offerTokenHash?: string | null;
+  offerExpiresAt?: Date | null;
+  holdId?: string | null; // keeps the offered slot free until the offer lapses
+  bookingId?: string | null;
+}
+
+interface WaitlistEntryCreationAttributes
+  extends Optional<WaitlistEntryAttributes, 'id' | 'appointmentType' | 'status'> {}
+
+class WaitlistEntry
+  extends Model<WaitlistEntryAttributes, WaitlistEntryCreationAttributes>
+  implements WaitlistEntryAttributes {
+  public id!: string;
+  public customerId?: string | null;
+  public name!: string;
+  public email!: string;
+  public phone?: string | null;
+  public date!: string;
+  public windowStart?: string | null;
+  public windowEnd?: string | null;
+  public serviceType?: string | null;
+  public appointmentType!: AppointmentType;
+  public status!: WaitlistStatus;
+  public offeredTime?: string | null;
+  public offerTokenHash?: string | null;
+  public offerExpiresAt?: Date | null;
+  public holdId?: string | null;
+  public bookingId?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Never expose the claim token hash
+  public toJSON(): object {
+    // The hold id would let anyone book the offered slot without the claim link
+    const { offerTokenHash, holdId, ...values } = this.get();
+    return values;
+  }
+}
+
+WaitlistEntry.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    customerId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'customers',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isEmail: true,
+      },
+    },
+    phone: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    windowStart: {
+      type: DataTypes.STRING(5),
+      allowNull: true,
+    },
+    windowEnd: {
+      type: DataTypes.STRING(5),
+      allowNull: true,
+    },
+    serviceType: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    appointmentType: {
+      type: DataTypes.ENUM(...Object.values(AppointmentType)),
+      defaultValue: AppointmentType.STUDIO,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(WaitlistStatus)),
+      defaultValue: WaitlistStatus.WAITING,
+    },
+    offeredTime: {
+      type: DataTypes.STRING(5),
+      allowNull: true,
+    },
+    offerTokenHash: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+    },
+    offerExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    holdId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'slot_holds',
+        key: 'id',
+      },
+    },
+    bookingId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'waitlist_entries',
+    timestamps: true,
+    underscored: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['date', 'status'],
+      },
+    ],
+  }
+);
+
+export default WaitlistEntry;
@@ -1,15 +1,145 @@
 import Booking from './Booking';
 import Customer from './Customer';
 import Service from './Service';
+import Bay from './Bay';
+import MobileUnit from './MobileUnit';
+import OperatingHours from './OperatingHours';
+import Closure from './Closure';
+import PriceRule from './PriceRule';
+import Quote from './Quote';
+import Promotion from './Promotion';
+import LoyaltyTransaction from './LoyaltyTransaction';
+import RefreshToken from './RefreshToken';
+import User from './User';
+import Staff from './Staff';
+import StaffShift from './StaffShift';
+import BookingStatusHistory from './BookingStatusHistory';
+import Refund from './Refund';
+import RecurringBooking from './RecurringBooking';
+import WaitlistEntry from './WaitlistEntry';
+import SlotHold from './SlotHold';
+import Vehicle from './Vehicle';
+import BookingGroup from './BookingGroup';
+import FleetAccount from './FleetAccount';
+import FleetAccountBooker from './FleetAccountBooker';
+import FleetInvoice from './FleetInvoice';
+import PaymentEvent from './PaymentEvent';
+import DepositRule from './DepositRule';
+import Payment from './Payment';
 
 // Define associations
 Booking.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
 Customer.hasMany(Booking, { foreignKey: 'customerId', as: 'bookings' });
 
-export { Booking, Customer, Service };
+Vehicle.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+Customer.hasMany(Vehicle, { foreignKey: 'customerId', as: 'vehicles' });
+Booking.belongsTo(Vehicle, { foreignKey: 'vehicleId', as: 'vehicle' });
+Vehicle.hasMany(Booking, { foreignKey: 'vehicleId', as: 'bookings' });
+
+Booking.belongsTo(Bay, { foreignKey: 'bayId', as: 'bay' });
+Bay.hasMany(Booking, { foreignKey: 'bayId', as: 'bookings' });
+
+Booking.belongsTo(MobileUnit, { foreignKey: 'mobileUnitId', as: 'mobileUnit' });
+MobileUnit.hasMany(Booking, { foreignKey: 'mobileUnitId', as: 'bookings' });
+
+Booking.belongsTo(Staff, { foreignKey: 'staffId', as: 'staff' });
+Staff.hasMany(Booking, { foreignKey: 'staffId', as: 'bookings' });
+
+StaffShift.belongsTo(Staff, { foreignKey: 'staffId', as: 'staff' });
+Staff.hasMany(StaffShift, { foreignKey: 'staffId', as: 'shifts' });
+
+Staff.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+BookingStatusHistory.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasMany(BookingStatusHistory, { foreignKey: 'bookingId', as: 'statusHistory' });
+BookingStatusHistory.belongsTo(User, { foreignKey: 'changedById', as: 'changedBy' });
+
+RecurringBooking.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+Customer.hasMany(RecurringBooking, { foreignKey: 'customerId', as: 'recurringBookings' });
+Booking.belongsTo(RecurringBooking, { foreignKey: 'recurringBookingId', as: 'recurringBooking' });
+RecurringBooking.hasMany(Booking, { foreignKey: 'recurringBookingId', as: 'bookings' });
+
+BookingGroup.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+Customer.hasMany(BookingGroup, { foreignKey: 'customerId', as: 'bookingGroups' });
+Booking.belongsTo(BookingGroup, { foreignKey: 'bookingGroupId', as: 'bookingGroup' });
+BookingGroup.hasMany(Booking, { foreignKey: 'bookingGroupId', as: 'lines' });
+
+FleetAccount.hasMany(FleetAccountBooker, { foreignKey: 'fleetAccountId', as: 'bookers' });
+FleetAccountBooker.belongsTo(FleetAccount, { foreignKey: 'fleetAccountId', as: 'fleetAccount' });
+FleetAccountBooker.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+FleetAccount.hasMany(PriceRule, { foreignKey: 'fleetAccountId', as: 'priceRules' });
+FleetAccount.hasMany(FleetInvoice, { foreignKey: 'fleetAccountId', as: 'invoices' });
+FleetInvoice.belongsTo(FleetAccount, { foreignKey: 'fleetAccountId', as: 'fleetAccount' });
+Booking.belongsTo(FleetAccount, { foreignKey: 'fleetAccountId', as: 'fleetAccount' });
+FleetAccount.hasMany(Booking, { foreignKey: 'fleetAccountId', as: 'bookings' });
+Booking.belongsTo(FleetInvoice, { foreignKey: 'fleetInvoiceId', as: 'fleetInvoice' });
+FleetInvoice.hasMany(Booking, { foreignKey: 'fleetInvoiceId', as: 'bookings' });
+
+WaitlistEntry.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+WaitlistEntry.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+WaitlistEntry.belongsTo(SlotHold, { foreignKey: 'holdId', as: 'hold' });
+
+SlotHold.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+
+Refund.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasMany(Refund, { foreignKey: 'bookingId', as: 'refunds' });
+
+Payment.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasMany(Payment, { foreignKey: 'bookingId', as: 'payments' });
+Payment.belongsTo(User, { foreignKey: 'recordedById', as: 'recordedBy' });
+Refund.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+Payment.hasMany(Refund, { foreignKey: 'paymentId', as: 'refunds' });
+
+PaymentEvent.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasMany(PaymentEvent, { foreignKey: 'bookingId', as: 'paymentEvents' });
+
+Booking.belongsTo(Promotion, { foreignKey: 'promotionId', as: 'promotion' });
+Promotion.hasMany(Booking, { foreignKey: 'promotionId', as: 'bookings' });
+
+LoyaltyTransaction.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+Customer.hasMany(LoyaltyTransaction, { foreignKey: 'customerId', as: 'loyaltyTransactions' });
+
+LoyaltyTransaction.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasMany(LoyaltyTransaction, { foreignKey: 'bookingId', as: 'loyaltyTransactions' });
+
+User.belongsTo(Customer, { foreignKey: 'customerId', as: 'customer' });
+Customer.hasOne(User, { foreignKey: 'customerId', as: 'user' });
+
+RefreshToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(RefreshToken, { foreignKey: 'userId', as: 'refreshTokens' });
+
+Quote.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+Booking.hasOne(Quote, { foreignKey: 'bookingId', as: 'quote' });
+
+export { Booking, Customer, Service, Bay, MobileUnit, OperatingHours, Closure, PriceRule, Quote, Promotion, LoyaltyTransaction, RefreshToken, User, Staff, StaffShift, BookingStatusHistory, Refund, RecurringBooking, WaitlistEntry, SlotHold, Vehicle, BookingGroup, FleetAccount, FleetAccountBooker, FleetInvoice, PaymentEvent, DepositRule, Payment };
 
 export default {
   Booking,
   Customer,
   Service,
-};
\ No newline at end of file
+  Bay,
+  MobileUnit,
+  OperatingHours,
+  Closure,
+  PriceRule,
+  Quote,
+  Promotion,
+  LoyaltyTransaction,
+  RefreshToken,
+  User,
+  Staff,
+  StaffShift,
+  BookingStatusHistory,
+  Refund,
+  RecurringBooking,
+  WaitlistEntry,
+  SlotHold,
+  Vehicle,
+  BookingGroup,
+  FleetAccount,
+  FleetAccountBooker,
+  FleetInvoice,
+  PaymentEvent,
+  DepositRule,
+  Payment,
+};
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authController } from '../controllers/authController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateRegister,
+  validateLogin,
+  validateRefreshToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail
+} from '../middleware/validation';
+
+const router = Router();
+
+// Auth routes
+router.post('/register', validateRegister, authController.register);
+router.post('/login', validateLogin, authController.login);
+router.post('/refresh', validateRefreshToken, authController.refresh);
+router.post('/logout', validateRefreshToken, authController.logout);
+router.post('/forgot-password', validateForgotPassword, authController.forgotPassword);
+router.post('/reset-password', validateResetPassword, authController.resetPassword);
+router.post('/verify-email', validateVerifyEmail, authController.verifyEmail);
+router.post('/verify-email/resend', authenticate, authController.resendVerification);
+router.get('/me', authenticate, authController.getProfile);
+router.get('/me/bookings', authenticate, authController.getMyBookings);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { bayController } from '../controllers/bayController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Bay routes
+router.get('/', bayController.getAllBays);
+router.get('/:id', bayController.getBayById);
+router.post('/', authenticate, authorize(UserRole.ADMIN), bayController.createBay);
+router.put('/:id', authenticate, authorize(UserRole.ADMIN), bayController.updateBay);
+router.delete('/:id', authenticate, authorize(UserRole.ADMIN), bayController.deleteBay);
+
+export default router;
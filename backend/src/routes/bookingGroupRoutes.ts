@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { bookingGroupController } from '../controllers/bookingGroupController';
+import { validateBookingGroup } from '../middleware/validation';
+import { authenticate, optionalAuthenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+
+const router = Router();
+
+// Booking group routes; ownership is checked per group in the controller
+router.post('/', optionalAuthenticate, validateBookingGroup, bookingGroupController.createGroup);
+router.get('/:id', authenticate, bookingGroupController.getGroupById);
+router.patch('/:id/payment', authenticate, authorize(...STAFF_ROLES), bookingGroupController.updateGroupPayment);
+router.delete('/:id/cancel', authenticate, bookingGroupController.cancelGroup);
+
+export default router;
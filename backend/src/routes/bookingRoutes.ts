@@ -1,21 +1,39 @@
 import { Router } from 'express';
 import { bookingController } from '../controllers/bookingController';
-import { validateBooking } from '../middleware/validation';
+import {
+  validateBooking,
+  validateReschedule,
+  validatePaymentStatus,
+  validateBookingPayment,
+  validateRefund
+} from '../middleware/validation';
+import { authenticate, optionalAuthenticate, authorize, authorizeBookingOwner, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+import { config } from '../config/env';
 
 const router = Router();
 
 // Booking routes
 // Note: More specific routes MUST come before generic :id routes to avoid conflicts
-router.post('/', validateBooking, bookingController.createBooking);
-router.get('/', bookingController.getAllBookings);
-router.get('/stats', bookingController.getBookingStats);
-router.get('/search', bookingController.searchBookings);
+router.post('/', optionalAuthenticate, validateBooking, bookingController.createBooking);
+router.get('/', authenticate, authorize(...STAFF_ROLES), bookingController.getAllBookings);
+router.get('/stats', authenticate, authorize(...STAFF_ROLES), bookingController.getBookingStats);
+router.get('/search', authenticate, authorize(...STAFF_ROLES), bookingController.searchBookings);
 router.get('/available-slots', bookingController.getAvailableSlots);
-router.get('/debug/fields', bookingController.debugModelFields);
+if (config.NODE_ENV !== 'production') {
+  router.get('/debug/fields', authenticate, authorize(UserRole.ADMIN), bookingController.debugModelFields);
+}
 router.get('/reference/:reference', bookingController.getBookingByReference);
-router.get('/:id', bookingController.getBookingById);
-router.patch('/:id/status', bookingController.updateBookingStatus);
-router.patch('/:id/payment', bookingController.updatePaymentStatus);
-router.delete('/:id/cancel', bookingController.cancelBooking);
+router.get('/:id', authenticate, authorizeBookingOwner(), bookingController.getBookingById);
+router.get('/:id/history', authenticate, authorizeBookingOwner(), bookingController.getBookingHistory);
+router.patch('/:id/status', authenticate, authorize(...STAFF_ROLES), bookingController.updateBookingStatus);
+router.patch('/:id/reschedule', authenticate, authorizeBookingOwner(), validateReschedule, bookingController.rescheduleBooking);
+router.patch('/:id/assign', authenticate, authorize(...STAFF_ROLES), bookingController.assignStaff);
+router.patch('/:id/payment', authenticate, authorize(...STAFF_ROLES), validatePaymentStatus, bookingController.updatePaymentStatus);
+router.get('/:id/payments', authenticate, authorizeBookingOwner(), bookingController.getBookingPayments);
+router.post('/:id/payments', authenticate, authorize(...STAFF_ROLES), validateBookingPayment, bookingController.recordBookingPayment);
+router.post('/:id/refunds', authenticate, authorize(UserRole.ADMIN), validateRefund, bookingController.refundBooking);
+router.get('/:id/cancellation', authenticate, authorizeBookingOwner(), bookingController.getCancellationQuote);
+router.delete('/:id/cancel', authenticate, authorizeBookingOwner(), bookingController.cancelBooking);
 
-export default router;
\ No newline at end of file
+export default router;
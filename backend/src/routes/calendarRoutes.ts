@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { calendarController } from '../controllers/calendarController';
+import { validateOperatingHours, validateClosure } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Business calendar routes
+router.get('/hours', calendarController.getOperatingHours);
+router.put('/hours/:dayOfWeek', authenticate, authorize(UserRole.ADMIN), validateOperatingHours, calendarController.updateOperatingHours);
+router.get('/closures', calendarController.getClosures);
+router.post('/closures', authenticate, authorize(UserRole.ADMIN), validateClosure, calendarController.createClosure);
+router.put('/closures/:id', authenticate, authorize(UserRole.ADMIN), validateClosure, calendarController.updateClosure);
+router.delete('/closures/:id', authenticate, authorize(UserRole.ADMIN), calendarController.deleteClosure);
+router.get('/holidays', calendarController.getHolidays);
+router.get('/next-business-day', calendarController.getNextBusinessDay);
+
+export default router;
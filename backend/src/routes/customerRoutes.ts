@@ -1,14 +1,26 @@
 import { Router } from 'express';
 import { customerController } from '../controllers/customerController';
+import { vehicleController } from '../controllers/vehicleController';
+import { validateVehicle } from '../middleware/validation';
+import { authenticate, authorize, authorizeCustomer, STAFF_ROLES } from '../middleware/auth';
 
 const router = Router();
 
 // Customer routes
-router.get('/', customerController.getAllCustomers);
-router.get('/search', customerController.searchCustomers);
-router.get('/:id', customerController.getCustomerById);
-router.get('/email/:email', customerController.getCustomerByEmail);
-router.get('/:id/stats', customerController.getCustomerStats);
-router.put('/:id', customerController.updateCustomer);
-
-export default router;
\ No newline at end of file
+router.use(authenticate);
+router.get('/', authorize(...STAFF_ROLES), customerController.getAllCustomers);
+router.get('/search', authorize(...STAFF_ROLES), customerController.searchCustomers);
+router.get('/:id', authorizeCustomer(), customerController.getCustomerById);
+router.get('/email/:email', authorize(...STAFF_ROLES), customerController.getCustomerByEmail);
+router.get('/:id/stats', authorizeCustomer(), customerController.getCustomerStats);
+router.get('/:id/loyalty', authorizeCustomer(), customerController.getLoyaltyHistory);
+router.put('/:id', authorizeCustomer(), customerController.updateCustomer);
+
+// Vehicle garage
+router.get('/:id/vehicles', authorizeCustomer(), vehicleController.getVehicles);
+router.post('/:id/vehicles', authorizeCustomer(), validateVehicle, vehicleController.createVehicle);
+router.get('/:id/vehicles/:vehicleId', authorizeCustomer(), vehicleController.getVehicleById);
+router.put('/:id/vehicles/:vehicleId', authorizeCustomer(), validateVehicle, vehicleController.updateVehicle);
+router.delete('/:id/vehicles/:vehicleId', authorizeCustomer(), vehicleController.deleteVehicle);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { fleetAccountController } from '../controllers/fleetAccountController';
+import {
+  validateFleetAccount,
+  validateFleetInvoice,
+  validateFleetInvoiceStatus,
+  validatePriceRule
+} from '../middleware/validation';
+import { authenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Fleet account routes; authorised bookers may view their own account
+router.use(authenticate);
+
+router.get('/', authorize(...STAFF_ROLES), fleetAccountController.getFleetAccounts);
+router.post('/', authorize(UserRole.ADMIN), validateFleetAccount, fleetAccountController.createFleetAccount);
+router.get('/:id', fleetAccountController.getFleetAccountById);
+router.put('/:id', authorize(UserRole.ADMIN), validateFleetAccount, fleetAccountController.updateFleetAccount);
+router.delete('/:id', authorize(UserRole.ADMIN), fleetAccountController.deleteFleetAccount);
+router.post('/:id/bookers', authorize(UserRole.ADMIN), fleetAccountController.addBooker);
+router.delete('/:id/bookers/:customerId', authorize(UserRole.ADMIN), fleetAccountController.removeBooker);
+router.get('/:id/price-rules', fleetAccountController.getPriceRules);
+router.post('/:id/price-rules', authorize(UserRole.ADMIN), validatePriceRule, fleetAccountController.createPriceRule);
+router.get('/:id/statement', fleetAccountController.getStatement);
+router.get('/:id/invoices', fleetAccountController.getInvoices);
+router.post('/:id/invoices', authorize(UserRole.ADMIN), validateFleetInvoice, fleetAccountController.issueInvoice);
+router.patch(
+  '/:id/invoices/:invoiceId/status',
+  authorize(UserRole.ADMIN),
+  validateFleetInvoiceStatus,
+  fleetAccountController.updateInvoiceStatus
+);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { mobileUnitController } from '../controllers/mobileUnitController';
+import { authenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Mobile unit routes
+router.get('/', mobileUnitController.getAllMobileUnits);
+router.get('/:id', mobileUnitController.getMobileUnitById);
+router.get('/:id/route', authenticate, authorize(...STAFF_ROLES), mobileUnitController.getRoute);
+router.post('/', authenticate, authorize(UserRole.ADMIN), mobileUnitController.createMobileUnit);
+router.put('/:id', authenticate, authorize(UserRole.ADMIN), mobileUnitController.updateMobileUnit);
+router.delete('/:id', authenticate, authorize(UserRole.ADMIN), mobileUnitController.deleteMobileUnit);
+
+export default router;
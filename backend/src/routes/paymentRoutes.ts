@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { paymentController } from '../controllers/paymentController';
+import { optionalAuthenticate } from '../middleware/auth';
+import { validatePaymentIntent, validateFakeCard, validateFakeAuthentication } from '../middleware/validation';
+import { config } from '../config/env';
+
+const router = Router();
+
+// Payment routes; the webhook is called by Stripe and checked by its signature
+router.post('/intent', optionalAuthenticate, validatePaymentIntent, paymentController.createPaymentIntent);
+router.post('/webhook', paymentController.handleWebhook);
+
+// Stand-ins for the provider's hosted checkout when payments are faked
+if (config.PAYMENT_PROVIDER === 'fake' && config.NODE_ENV !== 'production') {
+  router.post('/fake/:intentId/confirm', validateFakeCard, paymentController.confirmFakePayment);
+  router.post('/fake/:intentId/authenticate', validateFakeAuthentication, paymentController.authenticateFakePayment);
+  router.post('/fake/refunds/:refundId/settle', validateFakeAuthentication, paymentController.settleFakeRefund);
+}
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { pricingController } from '../controllers/pricingController';
+import { validatePriceRule, validateDepositRule } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Pricing rule routes
+router.get('/rules', pricingController.getAllPriceRules);
+router.post('/rules', authenticate, authorize(UserRole.ADMIN), validatePriceRule, pricingController.createPriceRule);
+router.put('/rules/:id', authenticate, authorize(UserRole.ADMIN), validatePriceRule, pricingController.updatePriceRule);
+router.delete('/rules/:id', authenticate, authorize(UserRole.ADMIN), pricingController.deletePriceRule);
+
+// Deposit rule routes
+router.get('/deposit-rules', pricingController.getDepositRules);
+router.post('/deposit-rules', authenticate, authorize(UserRole.ADMIN), validateDepositRule, pricingController.createDepositRule);
+router.put('/deposit-rules/:id', authenticate, authorize(UserRole.ADMIN), validateDepositRule, pricingController.updateDepositRule);
+router.delete('/deposit-rules/:id', authenticate, authorize(UserRole.ADMIN), pricingController.deleteDepositRule);
+
+export default router;
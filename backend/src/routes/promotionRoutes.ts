@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { promotionController } from '../controllers/promotionController';
+import { validatePromotion, validatePromoCode } from '../middleware/validation';
+import { authenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Promotion routes
+router.post('/validate', validatePromoCode, promotionController.validatePromoCode);
+router.get('/', authenticate, authorize(...STAFF_ROLES), promotionController.getAllPromotions);
+router.get('/:id', authenticate, authorize(...STAFF_ROLES), promotionController.getPromotionById);
+router.post('/', authenticate, authorize(UserRole.ADMIN), validatePromotion, promotionController.createPromotion);
+router.put('/:id', authenticate, authorize(UserRole.ADMIN), validatePromotion, promotionController.updatePromotion);
+router.delete('/:id', authenticate, authorize(UserRole.ADMIN), promotionController.deletePromotion);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { recurringBookingController } from '../controllers/recurringBookingController';
+import { validateRecurringBooking } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Recurring booking routes; ownership is checked per series in the controller
+router.use(authenticate);
+
+router.get('/', recurringBookingController.getRecurringBookings);
+router.post('/', validateRecurringBooking, recurringBookingController.createRecurringBooking);
+router.post('/materialise', authorize(UserRole.ADMIN), recurringBookingController.materialiseAll);
+router.get('/:id', recurringBookingController.getRecurringBookingById);
+router.patch('/:id/pause', recurringBookingController.pauseRecurringBooking);
+router.patch('/:id/resume', recurringBookingController.resumeRecurringBooking);
+router.post('/:id/skip', recurringBookingController.skipOccurrence);
+router.delete('/:id', recurringBookingController.cancelRecurringBooking);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { refundController } from '../controllers/refundController';
+import { authenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Refund routes
+router.get('/', authenticate, authorize(...STAFF_ROLES), refundController.getAllRefunds);
+router.patch('/:id/status', authenticate, authorize(UserRole.ADMIN), refundController.updateRefundStatus);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { serviceAreaController } from '../controllers/serviceAreaController';
+import { validateServiceAreaCheck } from '../middleware/validation';
+
+const router = Router();
+
+// Service area routes
+router.get('/', serviceAreaController.getServiceArea);
+router.post('/check', validateServiceAreaCheck, serviceAreaController.checkLocation);
+
+export default router;
@@ -1,14 +1,17 @@
 import { Router } from 'express';
 import { serviceController } from '../controllers/serviceController';
+import { validatePriceCalculation } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
 
 const router = Router();
 
 // Service routes
 router.get('/', serviceController.getAllServices);
 router.get('/:id', serviceController.getServiceById);
-router.post('/', serviceController.createService);
-router.put('/:id', serviceController.updateService);
-router.delete('/:id', serviceController.deleteService);
-router.post('/calculate-price', serviceController.calculatePrice);
+router.post('/', authenticate, authorize(UserRole.ADMIN), serviceController.createService);
+router.put('/:id', authenticate, authorize(UserRole.ADMIN), serviceController.updateService);
+router.delete('/:id', authenticate, authorize(UserRole.ADMIN), serviceController.deleteService);
+router.post('/calculate-price', validatePriceCalculation, serviceController.calculatePrice);
 
-export default router;
\ No newline at end of file
+export default router;
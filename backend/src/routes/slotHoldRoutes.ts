@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { slotHoldController } from '../controllers/slotHoldController';
+import { validateSlotHold } from '../middleware/validation';
+
+const router = Router();
+
+// Each hold blocks a bay or van for everyone else, so creating them is limited more tightly
+const holdLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // limit each IP to 20 holds per windowMs
+  message: 'Too many slot holds from this IP, please try again later.'
+});
+
+// Slot hold routes; the hold id is only known to the checkout that created it
+router.post('/', holdLimiter, validateSlotHold, slotHoldController.createHold);
+router.get('/:id', slotHoldController.getHold);
+router.delete('/:id', slotHoldController.releaseHold);
+
+export default router;
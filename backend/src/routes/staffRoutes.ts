@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { staffController } from '../controllers/staffController';
+import { validateStaff, validateStaffShift } from '../middleware/validation';
+import { authenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// Staff routes
+router.use(authenticate, authorize(...STAFF_ROLES));
+
+router.get('/', staffController.getAllStaff);
+router.get('/:id', staffController.getStaffById);
+router.get('/:id/schedule', staffController.getSchedule);
+router.get('/:id/shifts', staffController.getShifts);
+router.post('/', authorize(UserRole.ADMIN), validateStaff, staffController.createStaff);
+router.put('/:id', authorize(UserRole.ADMIN), staffController.updateStaff);
+router.delete('/:id', authorize(UserRole.ADMIN), staffController.deleteStaff);
+router.post('/:id/shifts', authorize(UserRole.ADMIN), validateStaffShift, staffController.createShift);
+router.delete('/:id/shifts/:shiftId', authorize(UserRole.ADMIN), staffController.deleteShift);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { userController } from '../controllers/userController';
+import { validateUser, validateUserUpdate } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// User account routes (admin only)
+router.use(authenticate, authorize(UserRole.ADMIN));
+router.get('/', userController.getAllUsers);
+router.post('/', validateUser, userController.createUser);
+router.put('/:id', validateUserUpdate, userController.updateUser);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { waitlistController } from '../controllers/waitlistController';
+import { validateWaitlistEntry } from '../middleware/validation';
+import { authenticate, optionalAuthenticate, authorize, STAFF_ROLES } from '../middleware/auth';
+
+const router = Router();
+
+// Waitlist routes; offers are reached through the emailed claim token
+router.post('/', optionalAuthenticate, validateWaitlistEntry, waitlistController.joinWaitlist);
+router.get('/', authenticate, authorize(...STAFF_ROLES), waitlistController.getWaitlist);
+router.get('/offers/:token', waitlistController.getOffer);
+router.post('/offers/:token/decline', waitlistController.declineOffer);
+router.delete('/:id', authenticate, waitlistController.leaveWaitlist);
+
+export default router;
@@ -2,11 +2,21 @@ import { createApp } from './app';
 import { config } from './config/env';
 import sequelize from './config/database';
 import logger from './utils/logger';
+import { authService } from './services/authService';
+import { recurringBookingService } from './services/recurringBookingService';
+import { waitlistService } from './services/waitlistService';
+import { slotHoldService } from './services/slotHoldService';
+import { fleetService } from './services/fleetService';
+import { getPaymentGateway } from './services/paymentProvider';
 
 async function startServer() {
   try {
     console.log('🚀 Starting AquaGlow Backend...');
     console.log(`📁 Environment: ${config.NODE_ENV}`);
+
+    // Refuse to start with a payment provider that cannot be used here
+    const paymentGateway = getPaymentGateway();
+    console.log(`💳 Payment provider: ${paymentGateway.name}`);
     
     // Test database connection
     await sequelize.authenticate();
@@ -23,6 +33,35 @@ async function startServer() {
       force: false
     });
     console.log('✅ Database synchronized');
+
+    // Bootstrap the first admin account if configured
+    await authService.ensureAdmin();
+
+    // Keep recurring bookings created ahead of time, topping them up daily
+    const materialiseRecurring = () => recurringBookingService.materialiseAll()
+      .then(report => logger.info(`Recurring bookings: ${report.created.length} created, ${report.clashes.length} clashes`))
+      .catch(error => logger.error('Failed to create recurring bookings:', error));
+    await materialiseRecurring();
+    const recurringTimer = setInterval(materialiseRecurring, 24 * 60 * 60 * 1000);
+
+    // Pass unclaimed waitlist offers on to the next customer
+    const waitlistTimer = setInterval(() => {
+      waitlistService.expireOffers()
+        .catch(error => logger.error('Failed to expire waitlist offers:', error));
+    }, 60 * 1000);
+
+    // Bill fleet accounts for last month's completed on-account bookings
+    const invoiceTimer = setInterval(() => {
+      fleetService.issueMonthlyInvoices()
+        .then(invoices => invoices.length > 0 && logger.info(`Fleet invoices issued: ${invoices.length}`))
+        .catch(error => logger.error('Failed to issue fleet invoices:', error));
+    }, 24 * 60 * 60 * 1000);
+
+    // Clear out checkout holds that lapsed without a booking
+    const holdTimer = setInterval(() => {
+      slotHoldService.sweepExpired()
+        .catch(error => logger.error('Failed to sweep expired slot holds:', error));
+    }, 60 * 1000);
     
     // Create and start Express app
     const app = createApp();
@@ -47,6 +86,10 @@ async function startServer() {
       console.log(`\n${signal} received: shutting down gracefully...`);
       logger.info(`${signal} signal received`);
       
+      clearInterval(recurringTimer);
+      clearInterval(waitlistTimer);
+      clearInterval(holdTimer);
+      clearInterval(invoiceTimer);
       server.close(async () => {
         console.log('✅ HTTP server closed');
         
@@ -0,0 +1,249 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import { config } from '../config/env';
+import { Customer, RefreshToken, User } from '../models';
+import { UserRole } from '../models/User';
+import {
+  hashPassword,
+  comparePassword,
+  generateToken,
+  generateRefreshToken,
+  generateResetToken,
+  hashToken
+} from '../utils/helpers';
+import { emailService } from './emailService';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface AuthResult {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export interface RegisterInput {
+  name: string;
+  email: string;
+  password: string;
+  phone?: string;
+}
+
+export class AuthService {
+  /**
+   * Create a customer account. A guest customer record with the same email is
+   * only linked, with its booking history, once the email is verified.
+   * Returns null when the email already has an account.
+   */
+  async register(input: RegisterInput): Promise<AuthResult | null> {
+    const email = input.email.toLowerCase();
+    if (await User.findOne({ where: { email } })) {
+      return null;
+    }
+
+    const passwordHash = await hashPassword(input.password);
+
+    const user = await sequelize.transaction(async (transaction) => {
+      const guest = await Customer.findOne({ where: { email }, transaction });
+      const customer = guest
+        ? null
+        : await Customer.create({ name: input.name, email, phone: input.phone || '' }, { transaction });
+
+      return User.create({
+        email,
+        name: input.name,
+        passwordHash,
+        role: UserRole.CUSTOMER,
+        customerId: customer?.id || null,
+      }, { transaction });
+    });
+
+    await this.sendVerification(user);
+
+    return { user, tokens: (await this.issueTokens(user)).tokens };
+  }
+
+  /**
+   * Email a link that confirms the account owns its email address
+   */
+  async sendVerification(user: User): Promise<void> {
+    const token = generateResetToken();
+    await user.update({
+      emailVerificationTokenHash: hashToken(token),
+      emailVerificationExpiresAt: new Date(Date.now() + config.EMAIL_VERIFICATION_EXPIRY_HOURS * 60 * 60 * 1000),
+    });
+
+    const verifyUrl = `${config.FRONTEND_URL}/verify-email?token=${token}`;
+    await emailService.sendEmailVerification(user, verifyUrl);
+  }
+
+  /**
+   * Mark the email verified and link the customer record for it, creating one
+   * if the address has never booked. Returns false when the token is unknown or expired.
+   */
+  async verifyEmail(token: string): Promise<boolean> {
+    const user = await User.findOne({
+      where: {
+        emailVerificationTokenHash: hashToken(token),
+        emailVerificationExpiresAt: { [Op.gt]: new Date() },
+      },
+    });
+    if (!user) return false;
+
+    await sequelize.transaction(async (transaction) => {
+      let customerId = user.customerId;
+      if (!customerId) {
+        const customer = await Customer.findOne({ where: { email: user.email }, transaction })
+          || await Customer.create({ name: user.name, email: user.email, phone: '' }, { transaction });
+        customerId = customer.id;
+      }
+
+      await user.update({
+        customerId,
+        emailVerifiedAt: new Date(),
+        emailVerificationTokenHash: null,
+        emailVerificationExpiresAt: null,
+      }, { transaction });
+    });
+
+    return true;
+  }
+
+  /**
+   * Check credentials, or null when they do not match an active account
+   */
+  async login(email: string, password: string): Promise<AuthResult | null> {
+    const user = await User.findOne({ where: { email: email.toLowerCase(), active: true } });
+    if (!user || !(await comparePassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    return { user, tokens: (await this.issueTokens(user)).tokens };
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Each refresh token works once;
+   * presenting a rotated token again revokes every session for the user.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens | null> {
+    const stored = await RefreshToken.findOne({ where: { tokenHash: hashToken(refreshToken) } });
+    if (!stored) return null;
+
+    if (stored.revokedAt) {
+      await this.revokeAll(stored.userId);
+      return null;
+    }
+
+    if (stored.expiresAt.getTime() < Date.now()) {
+      return null;
+    }
+
+    const user = await User.findByPk(stored.userId);
+    if (!user || !user.active) return null;
+
+    // Only one concurrent refresh can win the rotation
+    const [rotated] = await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { id: stored.id, revokedAt: null } }
+    );
+    if (rotated === 0) return null;
+
+    const { tokens, tokenId } = await this.issueTokens(user);
+    await RefreshToken.update({ replacedById: tokenId }, { where: { id: stored.id } });
+
+    return tokens;
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { tokenHash: hashToken(refreshToken), revokedAt: null } }
+    );
+  }
+
+  /**
+   * Email a reset link. Unknown addresses are ignored so accounts cannot be probed.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await User.findOne({ where: { email: email.toLowerCase(), active: true } });
+    if (!user) return;
+
+    const token = generateResetToken();
+    await user.update({
+      passwordResetTokenHash: hashToken(token),
+      passwordResetExpiresAt: new Date(Date.now() + config.PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000),
+    });
+
+    const resetUrl = `${config.FRONTEND_URL}/reset-password?token=${token}`;
+    await emailService.sendPasswordReset(user, resetUrl);
+  }
+
+  /**
+   * Set a new password from a reset token and sign out every session.
+   * Returns false when the token is unknown or expired.
+   */
+  async resetPassword(token: string, password: string): Promise<boolean> {
+    const user = await User.findOne({
+      where: {
+        passwordResetTokenHash: hashToken(token),
+        passwordResetExpiresAt: { [Op.gt]: new Date() },
+      },
+    });
+    if (!user) return false;
+
+    await user.update({
+      passwordHash: await hashPassword(password),
+      passwordResetTokenHash: null,
+      passwordResetExpiresAt: null,
+    });
+    await this.revokeAll(user.id);
+
+    return true;
+  }
+
+  /**
+   * Create the first admin from ADMIN_EMAIL / ADMIN_PASSWORD when no admin exists
+   */
+  async ensureAdmin(): Promise<void> {
+    if (!config.ADMIN_EMAIL || !config.ADMIN_PASSWORD) return;
+    if (await User.count({ where: { role: UserRole.ADMIN } }) > 0) return;
+
+    await User.create({
+      email: config.ADMIN_EMAIL.toLowerCase(),
+      name: 'Administrator',
+      passwordHash: await hashPassword(config.ADMIN_PASSWORD),
+      role: UserRole.ADMIN,
+    });
+  }
+
+  private async issueTokens(user: User): Promise<{ tokens: AuthTokens; tokenId: string }> {
+    const refreshToken = generateRefreshToken();
+    const stored = await RefreshToken.create({
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    const payload = { id: user.id, email: user.email, role: user.role, customerId: user.customerId || null };
+
+    return {
+      tokens: {
+        accessToken: generateToken(payload, config.JWT_EXPIRY),
+        refreshToken,
+        expiresIn: config.JWT_EXPIRY,
+      },
+      tokenId: stored.id,
+    };
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { userId, revokedAt: null } }
+    );
+  }
+}
+
+export const authService = new AuthService();
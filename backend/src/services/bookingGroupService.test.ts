@@ -0,0 +1,38 @@
+import { AppointmentType, BookingStatus } from '../models/Booking';
+import { GroupSchedulingMode } from '../models/BookingGroup';
+import { buildBooking } from '../test/bookingFactory';
+import { planLineTimes, summariseLines } from './bookingGroupService';
+
+describe('planLineTimes', () => {
+  it('starts every line together in parallel', () => {
+    expect(planLineTimes('09:00', [60, 90, 45], AppointmentType.STUDIO, GroupSchedulingMode.PARALLEL))
+      .toEqual(['09:00', '09:00', '09:00']);
+  });
+
+  it('leaves the studio turnaround between back-to-back lines', () => {
+    expect(planLineTimes('09:00', [60, 90, 45], AppointmentType.STUDIO, GroupSchedulingMode.BACK_TO_BACK))
+      .toEqual(['09:00', '10:15', '12:00']);
+  });
+
+  it('leaves the longer mobile turnaround between back-to-back lines', () => {
+    expect(planLineTimes('09:00', [60, 60], AppointmentType.MOBILE, GroupSchedulingMode.BACK_TO_BACK))
+      .toEqual(['09:00', '10:30']);
+  });
+});
+
+describe('summariseLines', () => {
+  it('leaves cancelled lines out of the totals', () => {
+    const summary = summariseLines([
+      buildBooking({ totalPrice: 250, amountPaid: 100, paymentStatus: 'partially_paid' }),
+      buildBooking({ status: BookingStatus.PENDING, totalPrice: 180.5 }),
+      buildBooking({ status: BookingStatus.CANCELLED, totalPrice: 400 }),
+    ]);
+
+    expect(summary).toEqual({
+      lineCount: 3,
+      activeLines: 2,
+      totalPrice: 430.5,
+      amountDue: 330.5,
+    });
+  });
+});
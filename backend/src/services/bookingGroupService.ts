@@ -0,0 +1,330 @@
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, BookingGroup, Customer, Service, Vehicle } from '../models';
+import { BookingStatus, AppointmentType } from '../models/Booking';
+import { GroupSchedulingMode } from '../models/BookingGroup';
+import { PaymentKind } from '../models/Payment';
+import { ServiceAddress, TravelCharge } from '../types';
+import { calculatePriceBreakdown } from '../utils/priceCalculator';
+import { generateReferenceNumber, getAppointmentBuffer } from '../utils/helpers';
+import { timeToMinutes, minutesToTime, fromDateKey } from '../utils/dateUtils';
+import { schedulingService } from './schedulingService';
+import { serviceAreaService } from './serviceAreaService';
+import { bookingStatusService, checkTransition, StatusChange, StatusCheck } from './bookingStatusService';
+import { depositService } from './depositService';
+import { paymentService, getAmountDue } from './paymentService';
+
+export interface GroupLineInput {
+  serviceType: string;
+  vehicleId?: string;
+  vehicleType?: string;
+  vehicleYear?: string;
+  vehicleMake?: string;
+  vehicleModel?: string;
+  condition?: string;
+  extras?: string[];
+}
+
+export interface GroupRequest {
+  customer: Customer;
+  date: string;
+  time: string;
+  appointmentType: AppointmentType;
+  schedulingMode: GroupSchedulingMode;
+  paymentMethod: 'card' | 'cash';
+  notes?: string;
+  serviceAddress?: ServiceAddress; // required for mobile groups
+  lines: GroupLineInput[];
+  changedById?: string | null;
+}
+
+export interface GroupResult {
+  group: BookingGroup | null;
+  message?: string;
+  conflict?: boolean; // the schedule, not the request, is the problem
+}
+
+export interface GroupSummary {
+  lineCount: number;
+  activeLines: number;
+  totalPrice: number; // cancelled lines excluded
+  amountDue: number; // active lines not yet paid
+}
+
+interface PlannedLine {
+  input: GroupLineInput;
+  vehicle: Vehicle | null;
+  vehicleType: string;
+  duration: number;
+  time: string;
+  totalPrice: number;
+  travel?: TravelCharge;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Raised to roll back lines already booked when a later one finds no room
+class LineConflictError extends Error {}
+
+/**
+ * Start times for each line: all together in parallel, or one after another
+ * with the turnaround buffer between jobs
+ */
+export function planLineTimes(
+  startTime: string,
+  durations: number[],
+  appointmentType: AppointmentType | string,
+  mode: GroupSchedulingMode
+): string[] {
+  let start = timeToMinutes(startTime);
+
+  return durations.map(duration => {
+    const time = minutesToTime(start);
+    if (mode === GroupSchedulingMode.BACK_TO_BACK) {
+      start += duration + getAppointmentBuffer(appointmentType);
+    }
+    return time;
+  });
+}
+
+export function summariseLines(lines: Booking[]): GroupSummary {
+  const active = lines.filter(line => line.status !== BookingStatus.CANCELLED);
+
+  return {
+    lineCount: lines.length,
+    activeLines: active.length,
+    totalPrice: round(active.reduce((sum, line) => sum + Number(line.totalPrice), 0)),
+    amountDue: round(active.reduce((sum, line) => sum + getAmountDue(line, PaymentKind.BALANCE), 0)),
+  };
+}
+
+export class BookingGroupService {
+  /**
+   * Price and place every line, then book them all or none. Each line becomes its
+   * own booking so it can be rescheduled, paid or cancelled on its own.
+   */
+  async createGroup(request: GroupRequest): Promise<GroupResult> {
+    const planned: PlannedLine[] = [];
+
+    const isMobile = request.appointmentType === AppointmentType.MOBILE;
+    if (isMobile && !request.serviceAddress) {
+      return { group: null, message: 'serviceAddress is required for mobile appointments' };
+    }
+
+    const areaCheck = isMobile ? serviceAreaService.checkLocation(request.serviceAddress!) : null;
+    if (areaCheck && !areaCheck.valid) {
+      return { group: null, message: areaCheck.message };
+    }
+
+    for (const [index, input] of request.lines.entries()) {
+      const label = `Line ${index + 1}`;
+
+      const service = await Service.findOne({ where: { name: input.serviceType, active: true } });
+      if (!service) {
+        return { group: null, message: `${label}: invalid service type` };
+      }
+
+      const vehicle = input.vehicleId
+        ? await Vehicle.findOne({
+            where: { id: input.vehicleId, customerId: request.customer.id, active: true },
+          })
+        : null;
+      if (input.vehicleId && !vehicle) {
+        return { group: null, message: `${label}: vehicle not found for this customer` };
+      }
+
+      const vehicleType = vehicle?.vehicleType || input.vehicleType;
+      if (!vehicleType) {
+        return { group: null, message: `${label}: vehicleType is required` };
+      }
+
+      // One van working back to back makes a single trip; parallel lines each send their own
+      const travel = index === 0 || request.schedulingMode === GroupSchedulingMode.PARALLEL
+        ? areaCheck?.travel
+        : undefined;
+
+      const breakdown = await calculatePriceBreakdown({
+        serviceType: service.name,
+        vehicleType,
+        extras: input.extras,
+        condition: input.condition,
+        travel,
+      });
+      if (!breakdown) {
+        return { group: null, message: `${label}: invalid service type` };
+      }
+
+      planned.push({ input, vehicle, vehicleType, duration: service.duration, time: '', totalPrice: breakdown.totalPrice, travel });
+    }
+
+    const times = planLineTimes(
+      request.time,
+      planned.map(line => line.duration),
+      request.appointmentType,
+      request.schedulingMode
+    );
+
+    for (const [index, line] of planned.entries()) {
+      line.time = times[index];
+      if (!(await schedulingService.fitsBusinessHours(request.date, line.time, line.duration))) {
+        return { group: null, message: `Line ${index + 1} would run past business hours` };
+      }
+    }
+
+    try {
+      const group = await sequelize.transaction(transaction => this.bookLines(request, planned, transaction));
+      return { group };
+    } catch (error) {
+      if (error instanceof LineConflictError) {
+        return { group: null, conflict: true, message: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async bookLines(request: GroupRequest, planned: PlannedLine[], transaction: Transaction): Promise<BookingGroup> {
+    await schedulingService.lockDate(request.date, transaction);
+
+    const isMobile = request.appointmentType === AppointmentType.MOBILE;
+    const group = await BookingGroup.create({
+      referenceNumber: generateReferenceNumber(),
+      customerId: request.customer.id,
+      date: request.date,
+      time: request.time,
+      appointmentType: request.appointmentType,
+      schedulingMode: request.schedulingMode,
+      paymentMethod: request.paymentMethod,
+      notes: request.notes || null,
+      serviceAddress: isMobile ? request.serviceAddress : null,
+    }, { transaction });
+
+    const isStaffingEnabled = await schedulingService.isStaffingEnabled(transaction);
+
+    // Lines created earlier in the transaction count against the capacity for later ones
+    for (const [index, line] of planned.entries()) {
+      const slot = {
+        date: request.date,
+        time: line.time,
+        duration: line.duration,
+        appointmentType: request.appointmentType,
+        serviceType: line.input.serviceType,
+        location: request.serviceAddress,
+      };
+
+      const resourceId = await schedulingService.findAvailableResource(slot, transaction);
+      if (!resourceId) {
+        throw new LineConflictError(`Line ${index + 1}: no bay or mobile unit is free at ${line.time}`);
+      }
+
+      if (isStaffingEnabled && !(await schedulingService.findAvailableStaff(slot, transaction))) {
+        throw new LineConflictError(`Line ${index + 1}: no detailer is available at ${line.time}`);
+      }
+
+      const booking = await Booking.create({
+        customerId: request.customer.id,
+        bookingGroupId: group.id,
+        date: fromDateKey(request.date),
+        time: line.time,
+        serviceType: line.input.serviceType,
+        vehicleId: line.vehicle?.id || null,
+        vehicleType: line.vehicleType,
+        vehicleYear: (line.vehicle ? line.vehicle.year : line.input.vehicleYear) || undefined,
+        vehicleMake: (line.vehicle ? line.vehicle.make : line.input.vehicleMake) || undefined,
+        vehicleModel: (line.vehicle ? line.vehicle.model : line.input.vehicleModel) || undefined,
+        condition: line.input.condition || undefined,
+        extras: line.input.extras || [],
+        appointmentType: request.appointmentType,
+        bayId: isMobile ? null : resourceId,
+        mobileUnitId: isMobile ? resourceId : null,
+        serviceAddress: isMobile ? request.serviceAddress : null,
+        travelDistanceKm: line.travel?.distanceKm ?? null,
+        travelFee: line.travel?.fee || 0,
+        totalPrice: line.totalPrice,
+        depositAmount: await depositService.getDeposit(line.input.serviceType, request.appointmentType, line.totalPrice, transaction),
+        status: BookingStatus.PENDING,
+        paymentMethod: request.paymentMethod,
+        paymentStatus: 'pending',
+        notes: request.notes || undefined,
+        referenceNumber: `${group.referenceNumber}-${index + 1}`,
+      }, { transaction });
+
+      await bookingStatusService.recordHistory(booking, null, {
+        changedById: request.changedById,
+        reason: `Booked in group ${group.referenceNumber}`,
+      }, transaction);
+    }
+
+    return group;
+  }
+
+  async getLines(groupId: string, transaction?: Transaction): Promise<Booking[]> {
+    return Booking.findAll({
+      where: { bookingGroupId: groupId },
+      order: [['time', 'ASC'], ['referenceNumber', 'ASC']],
+      transaction,
+    });
+  }
+
+  /**
+   * Record a payment against every line still open, confirming lines once paid.
+   * Marking lines paid takes what each still owes as a balance payment.
+   */
+  async updatePayment(
+    groupId: string,
+    payment: { paymentStatus: 'pending' | 'paid' | 'failed'; transactionId?: string },
+    change: StatusChange,
+    transaction: Transaction
+  ): Promise<Booking[]> {
+    const lines = (await this.getLines(groupId, transaction))
+      .filter(line => line.status !== BookingStatus.CANCELLED);
+
+    for (const line of lines) {
+      if (payment.transactionId) {
+        await line.update({ transactionId: payment.transactionId }, { transaction });
+      }
+
+      const balance = getAmountDue(line, PaymentKind.BALANCE);
+      if (payment.paymentStatus === 'paid' && balance > 0) {
+        await paymentService.recordPayment(line, {
+          kind: PaymentKind.BALANCE,
+          amount: balance,
+          method: line.paymentMethod as 'card' | 'cash',
+          reference: payment.transactionId,
+        }, change.changedById, transaction);
+        continue;
+      }
+
+      await line.update({ paymentStatus: payment.paymentStatus }, { transaction });
+
+      if (payment.paymentStatus === 'paid' && line.status === BookingStatus.PENDING) {
+        await bookingStatusService.changeStatus(line, BookingStatus.CONFIRMED, change, transaction);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Cancel every line that can still be cancelled. Returns null when none could be.
+   */
+  async cancelGroup(
+    groupId: string,
+    change: StatusChange,
+    transaction: Transaction
+  ): Promise<{ line: Booking; check: StatusCheck }[] | null> {
+    const lines = await this.getLines(groupId, transaction);
+    const cancellable = lines.filter(line => checkTransition(line, BookingStatus.CANCELLED).valid);
+    if (cancellable.length === 0) return null;
+
+    const results = [];
+    for (const line of cancellable) {
+      results.push({
+        line,
+        check: await bookingStatusService.changeStatus(line, BookingStatus.CANCELLED, change, transaction),
+      });
+    }
+    return results;
+  }
+}
+
+export const bookingGroupService = new BookingGroupService();
@@ -0,0 +1,62 @@
+import { BookingStatus } from '../models/Booking';
+import { buildBooking } from '../test/bookingFactory';
+import { checkTransition } from './bookingStatusService';
+
+const now = new Date(2025, 2, 4, 10, 0);
+
+describe('checkTransition', () => {
+  it('refuses moves the lifecycle does not allow', () => {
+    expect(checkTransition(buildBooking({ status: BookingStatus.COMPLETED }), BookingStatus.CANCELLED, now)).toEqual({
+      valid: false,
+      message: 'A completed booking cannot be changed to cancelled',
+    });
+  });
+
+  it('allows cancelling a pending booking', () => {
+    expect(checkTransition(buildBooking({ status: BookingStatus.PENDING }), BookingStatus.CANCELLED, now).valid).toBe(true);
+  });
+
+  it('lets a cash booking without a deposit complete before it is paid', () => {
+    const started = buildBooking({ status: BookingStatus.IN_PROGRESS });
+
+    expect(checkTransition(started, BookingStatus.COMPLETED, now).valid).toBe(true);
+  });
+
+  it('needs card bookings paid before they complete', () => {
+    const started = buildBooking({ status: BookingStatus.IN_PROGRESS, paymentMethod: 'card', paymentStatus: 'partially_paid' });
+
+    expect(checkTransition(started, BookingStatus.COMPLETED, now).valid).toBe(false);
+    expect(checkTransition(started, BookingStatus.COMPLETED, now, { balanceCollected: true }).valid).toBe(true);
+  });
+
+  it('completes a paid booking that has since been partly refunded', () => {
+    const started = buildBooking({
+      status: BookingStatus.IN_PROGRESS,
+      paymentMethod: 'card',
+      paymentStatus: 'partially_refunded',
+      amountPaid: 250,
+      amountRefunded: 50,
+    });
+
+    expect(checkTransition(started, BookingStatus.COMPLETED, now).valid).toBe(true);
+  });
+
+  it('needs bookings that took a deposit paid before they complete', () => {
+    const started = buildBooking({ status: BookingStatus.IN_PROGRESS, depositAmount: 100, paymentStatus: 'partially_paid' });
+
+    expect(checkTransition(started, BookingStatus.COMPLETED, now).message)
+      .toBe('The balance must be paid before the booking can be completed');
+  });
+
+  it('does not start a booking before its date', () => {
+    const tomorrow = buildBooking({ date: new Date(2025, 2, 5) });
+
+    expect(checkTransition(tomorrow, BookingStatus.IN_PROGRESS, now).valid).toBe(false);
+    expect(checkTransition(buildBooking(), BookingStatus.IN_PROGRESS, now).valid).toBe(true);
+  });
+
+  it('only marks a no-show once the start time has passed', () => {
+    expect(checkTransition(buildBooking({ time: '11:00' }), BookingStatus.NO_SHOW, now).valid).toBe(false);
+    expect(checkTransition(buildBooking({ time: '09:00' }), BookingStatus.NO_SHOW, now).valid).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+import { Transaction } from 'sequelize';
+import { Booking, BookingStatusHistory, User } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { formatDateYYYYMMDD, combineDateTime } from '../utils/dateUtils';
+import { loyaltyService } from './loyaltyService';
+import { cancellationService, calculateRefund, RefundQuote } from './cancellationService';
+import { schedulingService } from './schedulingService';
+import { waitlistService } from './waitlistService';
+
+// Statuses each status may move to; completed, cancelled and no-show are final
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+  [BookingStatus.CONFIRMED]: [BookingStatus.IN_PROGRESS, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
+  [BookingStatus.IN_PROGRESS]: [BookingStatus.COMPLETED],
+  [BookingStatus.COMPLETED]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.NO_SHOW]: [],
+};
+
+export interface StatusChange {
+  changedById?: string | null;
+  reason?: string | null;
+  waiveFee?: boolean; // cancellations only
+  balanceCollected?: boolean; // completions only: the caller takes what is owed in the same transaction
+}
+
+export interface StatusCheck {
+  valid: boolean;
+  message?: string;
+  conflict?: boolean; // the schedule, not the request, is the problem
+  refund?: RefundQuote & { refundIds?: string[] }; // set when the booking was cancelled
+}
+
+/**
+ * Whether a booking may move to a status right now
+ */
+export function checkTransition(
+  booking: Booking,
+  to: BookingStatus,
+  now: Date = new Date(),
+  change: StatusChange = {}
+): StatusCheck {
+  const allowed = BOOKING_STATUS_TRANSITIONS[booking.status] || [];
+  if (!allowed.includes(to)) {
+    return { valid: false, message: `A ${booking.status} booking cannot be changed to ${to}` };
+  }
+
+  // Card bookings and bookings that took a deposit are settled in full at completion.
+  // What was paid is compared rather than the status, which a later refund changes.
+  const settledAtCompletion = booking.paymentMethod === 'card' || Number(booking.depositAmount || 0) > 0;
+  if (
+    to === BookingStatus.COMPLETED &&
+    settledAtCompletion &&
+    Number(booking.amountPaid || 0) < Number(booking.totalPrice) &&
+    !change.balanceCollected
+  ) {
+    return { valid: false, message: 'The balance must be paid before the booking can be completed' };
+  }
+
+  if (to === BookingStatus.IN_PROGRESS && formatDateYYYYMMDD(booking.date) > formatDateYYYYMMDD(now)) {
+    return { valid: false, message: 'A booking cannot be started before its scheduled date' };
+  }
+
+  if (to === BookingStatus.NO_SHOW && combineDateTime(formatDateYYYYMMDD(booking.date), booking.time) > now) {
+    return { valid: false, message: 'A booking can only be marked as a no-show after its start time' };
+  }
+
+  return { valid: true };
+}
+
+export class BookingStatusService {
+  /**
+   * Move a booking through its lifecycle, applying the side effects of the new
+   * status and recording the change. Nothing is written when the move is refused.
+   */
+  async changeStatus(
+    booking: Booking,
+    to: BookingStatus,
+    change: StatusChange,
+    transaction: Transaction
+  ): Promise<StatusCheck> {
+    await booking.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+    const check = checkTransition(booking, to, new Date(), change);
+    if (!check.valid) return check;
+
+    // Confirmed bookings are handed to a detailer who is on shift
+    if (to === BookingStatus.CONFIRMED && !(await schedulingService.assignStaff(booking, transaction))) {
+      return { valid: false, conflict: true, message: 'No detailer is available to take this booking' };
+    }
+
+    // The refund is priced against the booking as it stood before cancelling
+    const refund = to === BookingStatus.CANCELLED ? calculateRefund(booking, { waiveFee: change.waiveFee }) : undefined;
+
+    const from = booking.status;
+    await booking.update({ status: to }, { transaction });
+
+    // Glow Points are earned on completion and given back on cancellation;
+    // a no-show forfeits any points redeemed against the booking
+    if (to === BookingStatus.COMPLETED) {
+      await loyaltyService.awardForBooking(booking, transaction);
+    } else if (to === BookingStatus.CANCELLED) {
+      await loyaltyService.reverseForBooking(booking, transaction);
+    }
+
+    await this.recordHistory(booking, from, change, transaction);
+
+    // Hand the freed slot to the waitlist once the cancellation is committed
+    if (to === BookingStatus.CANCELLED) {
+      const date = formatDateYYYYMMDD(booking.date);
+      transaction.afterCommit(() => {
+        waitlistService.offerNext(date, booking.appointmentType)
+          .catch(error => console.error('Error offering freed slot to waitlist:', error));
+      });
+    }
+
+    if (refund) {
+      const records = await cancellationService.createRefunds(booking, refund, change.changedById, transaction);
+      return { valid: true, refund: { ...refund, refundIds: records.map(record => record.id) } };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Record that a booking reached its current status
+   */
+  async recordHistory(
+    booking: Booking,
+    fromStatus: BookingStatus | null,
+    change: StatusChange,
+    transaction?: Transaction
+  ): Promise<BookingStatusHistory> {
+    return BookingStatusHistory.create({
+      bookingId: booking.id,
+      fromStatus,
+      toStatus: booking.status,
+      changedById: change.changedById || null,
+      reason: change.reason || null,
+    }, { transaction });
+  }
+
+  /**
+   * A booking's status changes, oldest first
+   */
+  async getHistory(bookingId: string): Promise<BookingStatusHistory[]> {
+    return BookingStatusHistory.findAll({
+      where: { bookingId },
+      include: [{ model: User, as: 'changedBy', attributes: ['id', 'name', 'role'] }],
+      order: [['createdAt', 'ASC']],
+    });
+  }
+}
+
+export const bookingStatusService = new BookingStatusService();
@@ -0,0 +1,81 @@
+import { Op } from 'sequelize';
+import { config } from '../config/env';
+import { OperatingHours, Closure } from '../models';
+import {
+  BusinessCalendar,
+  DayHours,
+  getBusinessHours,
+  getClosureReason,
+  toDateKey,
+  fromDateKey,
+} from '../utils/dateUtils';
+
+// Used for any weekday without a configured row
+export const DEFAULT_OPEN_TIME = '08:00';
+export const DEFAULT_CLOSE_TIME = '18:00';
+
+export interface WeekdayHours {
+  dayOfWeek: number;
+  openTime: string;
+  closeTime: string;
+  isClosed: boolean;
+}
+
+export class BusinessHoursService {
+  async getWeeklyHours(): Promise<WeekdayHours[]> {
+    const rows = await OperatingHours.findAll();
+    const byDay = new Map(rows.map(row => [row.dayOfWeek, row]));
+
+    return [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => {
+      const row = byDay.get(dayOfWeek);
+      return {
+        dayOfWeek,
+        openTime: row?.openTime ?? DEFAULT_OPEN_TIME,
+        closeTime: row?.closeTime ?? DEFAULT_CLOSE_TIME,
+        isClosed: row?.isClosed ?? false,
+      };
+    });
+  }
+
+  /**
+   * Load weekly hours and closures in a date range (from today by default)
+   */
+  async getCalendar(range: { from?: string; to?: string } = {}): Promise<BusinessCalendar> {
+    const dateFilter: any = { [Op.gte]: range.from ?? toDateKey(new Date()) };
+    if (range.to) dateFilter[Op.lte] = range.to;
+
+    const [weeklyHours, closures] = await Promise.all([
+      this.getWeeklyHours(),
+      Closure.findAll({ where: { date: dateFilter } }),
+    ]);
+
+    const calendar: BusinessCalendar = {
+      weeklyHours: {},
+      closures: {},
+      closedOnPublicHolidays: config.CLOSED_ON_PUBLIC_HOLIDAYS,
+    };
+
+    weeklyHours.forEach(day => {
+      calendar.weeklyHours[day.dayOfWeek] = day.isClosed
+        ? null
+        : { open: day.openTime, close: day.closeTime };
+    });
+    closures.forEach(closure => {
+      calendar.closures[closure.date] = closure.reason;
+    });
+
+    return calendar;
+  }
+
+  async getHoursForDate(date: string): Promise<DayHours | null> {
+    const calendar = await this.getCalendar({ from: date, to: date });
+    return getBusinessHours(fromDateKey(date), calendar);
+  }
+
+  async getClosureReason(date: string): Promise<string | null> {
+    const calendar = await this.getCalendar({ from: date, to: date });
+    return getClosureReason(fromDateKey(date), calendar);
+  }
+}
+
+export const businessHoursService = new BusinessHoursService();
@@ -0,0 +1,94 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config/env';
+import { Booking, Refund } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { combineDateTime, formatDateYYYYMMDD } from '../utils/dateUtils';
+import { refundService } from './refundService';
+
+export interface RefundQuote {
+  amountPaid: number;
+  fee: number;
+  refundAmount: number;
+  reason: string;
+}
+
+export interface CancellationOptions {
+  waiveFee?: boolean; // staff discretion, e.g. when we cancel on the customer
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * How much of a booking's payment comes back if it is cancelled at a given
+ * moment: everything up to the free-cancellation window, less the late fee
+ * after it, and nothing for no-shows
+ */
+export function calculateRefund(
+  booking: Booking,
+  options: CancellationOptions = {},
+  now: Date = new Date()
+): RefundQuote {
+  const amountPaid = round(Math.max(0, Number(booking.amountPaid || 0) - Number(booking.amountRefunded || 0)));
+
+  if (amountPaid <= 0) {
+    return { amountPaid, fee: 0, refundAmount: 0, reason: 'Nothing has been paid, so there is nothing to refund' };
+  }
+
+  if (booking.status === BookingStatus.NO_SHOW) {
+    return { amountPaid, fee: amountPaid, refundAmount: 0, reason: 'No refund is given for missed appointments' };
+  }
+
+  if (options.waiveFee) {
+    return { amountPaid, fee: 0, refundAmount: amountPaid, reason: 'Full refund: cancellation fee waived' };
+  }
+
+  const start = combineDateTime(formatDateYYYYMMDD(booking.date), booking.time);
+  const hoursBefore = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  if (hoursBefore >= config.FREE_CANCELLATION_HOURS) {
+    return {
+      amountPaid,
+      fee: 0,
+      refundAmount: amountPaid,
+      reason: `Full refund: cancelled at least ${config.FREE_CANCELLATION_HOURS} hours before the appointment`,
+    };
+  }
+
+  const fee = round(amountPaid * config.LATE_CANCELLATION_FEE_PERCENT / 100);
+  return {
+    amountPaid,
+    fee,
+    refundAmount: round(amountPaid - fee),
+    reason: `Cancelled less than ${config.FREE_CANCELLATION_HOURS} hours before the appointment, ` +
+      `so a ${config.LATE_CANCELLATION_FEE_PERCENT}% late-cancellation fee applies`,
+  };
+}
+
+export class CancellationService {
+  /**
+   * Record the refunds a cancellation is owed, one per payment refunded, and
+   * send card refunds to the provider once the cancellation commits
+   */
+  async createRefunds(
+    booking: Booking,
+    quote: RefundQuote,
+    requestedById: string | null | undefined,
+    transaction: Transaction
+  ): Promise<Refund[]> {
+    if (quote.refundAmount <= 0) return [];
+
+    const refunds = await refundService.createRefunds(booking, quote.refundAmount, {
+      reason: quote.reason,
+      withholdsFee: quote.fee > 0,
+    }, requestedById, transaction);
+
+    transaction.afterCommit(() => {
+      refundService.submit(refunds)
+        .catch(error => console.error('Error submitting cancellation refunds:', error));
+    });
+
+    return refunds;
+  }
+}
+
+export const cancellationService = new CancellationService();
@@ -0,0 +1,48 @@
+import { Transaction } from 'sequelize';
+import { DepositRule, Service } from '../models';
+import { DepositRuleScope, DepositType } from '../models/DepositRule';
+
+export interface DepositContext {
+  category?: string | null; // the service's category
+  appointmentType: string;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The deposit a booking must pay up front. When several rules match, the
+ * largest deposit wins; it never exceeds the booking total.
+ */
+export function applyDepositRules(totalPrice: number, context: DepositContext, rules: DepositRule[]): number {
+  const amounts = rules
+    .filter(rule =>
+      (rule.scope === DepositRuleScope.CATEGORY && rule.code === context.category) ||
+      (rule.scope === DepositRuleScope.APPOINTMENT_TYPE && rule.code === context.appointmentType)
+    )
+    .map(rule => {
+      const value = parseFloat(rule.value.toString());
+      return rule.depositType === DepositType.PERCENTAGE ? round(totalPrice * value / 100) : value;
+    });
+
+  if (amounts.length === 0 || totalPrice <= 0) return 0;
+  return round(Math.min(totalPrice, Math.max(...amounts)));
+}
+
+export class DepositService {
+  /**
+   * Deposit due for a booking of a service, by name, under the active rules
+   */
+  async getDeposit(
+    serviceType: string,
+    appointmentType: string,
+    totalPrice: number,
+    transaction?: Transaction
+  ): Promise<number> {
+    const service = await Service.findOne({ where: { name: serviceType }, transaction });
+    const rules = await DepositRule.findAll({ where: { active: true }, transaction });
+
+    return applyDepositRules(totalPrice, { category: service?.category, appointmentType }, rules);
+  }
+}
+
+export const depositService = new DepositService();
@@ -1,8 +1,19 @@
 import nodemailer from 'nodemailer';
 import { config } from '../config/env';
-import { Booking } from '../models';
+import { Booking, User, WaitlistEntry, FleetAccount, FleetInvoice, Payment, Refund } from '../models';
 import { BookingStatus } from '../models/Booking';
 
+// Promo discounts are itemised on their own line
+const discountLabel = (booking: Booking) =>
+  booking.promotion ? `Discount (${booking.promotion.code})` : 'Discount';
+
+const hasDiscount = (booking: Booking) => Number(booking.discountAmount) > 0;
+
+const hasPointsRedeemed = (booking: Booking) => Number(booking.pointsRedeemed) > 0;
+
+const balanceDue = (booking: Booking) =>
+  Math.max(0, Math.round((Number(booking.totalPrice) - Number(booking.amountPaid || 0)) * 100) / 100);
+
 export class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -53,6 +64,8 @@ export class EmailService {
                 <p><strong>Time:</strong> ${booking.time}</p>
                 <p><strong>Service:</strong> ${booking.serviceType}</p>
                 <p><strong>Vehicle:</strong> ${booking.vehicleType} ${booking.vehicleMake ? `- ${booking.vehicleMake} ${booking.vehicleModel}` : ''}</p>
+                ${hasDiscount(booking) ? `<p><strong>${discountLabel(booking)}:</strong> -R${booking.discountAmount}</p>` : ''}
+                ${hasPointsRedeemed(booking) ? `<p><strong>Glow Points (${booking.pointsRedeemed}):</strong> -R${booking.loyaltyDiscount}</p>` : ''}
                 <p><strong>Total Amount:</strong> R${booking.totalPrice}</p>
                 <p><strong>Status:</strong> 
                   <span class="status status-${booking.status}">${booking.status.toUpperCase()}</span>
@@ -90,7 +103,9 @@ export class EmailService {
       Date: ${new Date(booking.date).toLocaleDateString()}
       Time: ${booking.time}
       Service: ${booking.serviceType}
-      Vehicle: ${booking.vehicleType}
+      Vehicle: ${booking.vehicleType}${hasDiscount(booking) ? `
+      ${discountLabel(booking)}: -R${booking.discountAmount}` : ''}${hasPointsRedeemed(booking) ? `
+      Glow Points (${booking.pointsRedeemed}): -R${booking.loyaltyDiscount}` : ''}
       Total: R${booking.totalPrice}
       Status: ${booking.status.toUpperCase()}
       
@@ -127,8 +142,10 @@ export class EmailService {
     const statusMessages: Record<BookingStatus, string> = {
       [BookingStatus.PENDING]: 'is pending confirmation',
       [BookingStatus.CONFIRMED]: 'has been confirmed',
+      [BookingStatus.IN_PROGRESS]: 'is in progress',
       [BookingStatus.COMPLETED]: 'has been completed',
       [BookingStatus.CANCELLED]: 'has been cancelled',
+      [BookingStatus.NO_SHOW]: 'was marked as a no-show',
     };
 
     const html = `
@@ -182,7 +199,80 @@ export class EmailService {
     }
   }
 
-  async sendPaymentReceipt(booking: Booking) {
+  async sendBookingRescheduled(booking: Booking, previous: { date: string; time: string }) {
+    const subject = `Booking Rescheduled - ${booking.referenceNumber}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .status-update { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; text-align: center; }
+            .previous { color: #999; text-decoration: line-through; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Booking Rescheduled</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${booking.customer?.name},</h2>
+              <p>Your booking has been moved to a new date and time. Your reference number and payment stay the same.</p>
+              
+              <div class="status-update">
+                <h3>${booking.referenceNumber}</h3>
+                <p class="previous">${new Date(previous.date).toLocaleDateString()} at ${previous.time}</p>
+                <p><strong>New Date:</strong> ${new Date(booking.date).toLocaleDateString()}</p>
+                <p><strong>New Time:</strong> ${booking.time}</p>
+                <p><strong>Service:</strong> ${booking.serviceType}</p>
+              </div>
+              
+              <p>If you have any questions, please contact us at +27 11 456 7890.</p>
+              
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      AquaGlow Auto Spa - Booking Rescheduled
+      
+      Hello ${booking.customer?.name},
+      
+      Your booking ${booking.referenceNumber} has been moved.
+      
+      Was: ${new Date(previous.date).toLocaleDateString()} at ${previous.time}
+      Now: ${new Date(booking.date).toLocaleDateString()} at ${booking.time}
+      
+      Your reference number and payment stay the same.
+      
+      Best regards,
+      The AquaGlow Team
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: booking.customer?.email,
+        subject,
+        text,
+        html,
+      });
+      
+      console.log(`Reschedule email sent to ${booking.customer?.email}`);
+    } catch (error) {
+      console.error('Error sending reschedule email:', error);
+    }
+  }
+
+  async sendPaymentReceipt(booking: Booking, payment?: Payment) {
     const subject = `Payment Receipt - ${booking.referenceNumber}`;
     
     const html = `
@@ -213,9 +303,13 @@ export class EmailService {
                 <p><strong>Reference:</strong> ${booking.referenceNumber}</p>
                 <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
                 <p><strong>Service:</strong> ${booking.serviceType}</p>
-                <p><strong>Amount Paid:</strong> <span class="amount">R${booking.totalPrice}</span></p>
-                <p><strong>Payment Method:</strong> ${booking.paymentMethod?.toUpperCase()}</p>
-                <p><strong>Status:</strong> PAID</p>
+                ${hasDiscount(booking) ? `<p><strong>${discountLabel(booking)}:</strong> -R${booking.discountAmount}</p>` : ''}
+                ${hasPointsRedeemed(booking) ? `<p><strong>Glow Points (${booking.pointsRedeemed}):</strong> -R${booking.loyaltyDiscount}</p>` : ''}
+                ${payment ? `<p><strong>Payment For:</strong> ${payment.kind.toUpperCase()}</p>` : ''}
+                <p><strong>Amount Paid:</strong> <span class="amount">R${payment ? payment.amount : booking.totalPrice}</span></p>
+                <p><strong>Payment Method:</strong> ${(payment?.method || booking.paymentMethod)?.toUpperCase()}</p>
+                ${balanceDue(booking) > 0 ? `<p><strong>Balance Due:</strong> R${balanceDue(booking)}</p>` : ''}
+                <p><strong>Status:</strong> ${booking.paymentStatus.replace('_', ' ').toUpperCase()}</p>
               </div>
               
               <p>Your appointment is now confirmed. We look forward to seeing you!</p>
@@ -240,6 +334,349 @@ export class EmailService {
       console.error('Error sending payment receipt:', error);
     }
   }
+
+  async sendRefundNotification(booking: Booking, refund: Refund) {
+    const subject = `Refund Processed - ${booking.referenceNumber}`;
+    const fromCard = !!refund.provider;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .receipt { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; }
+            .amount { font-size: 24px; font-weight: bold; color: #10b981; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Refund Processed</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${booking.customer?.name},</h2>
+              <p>We have refunded money for booking ${booking.referenceNumber}.</p>
+              
+              <div class="receipt">
+                <h3>Refund Details</h3>
+                <p><strong>Reference:</strong> ${booking.referenceNumber}</p>
+                <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
+                <p><strong>Service:</strong> ${booking.serviceType}</p>
+                <p><strong>Amount Refunded:</strong> <span class="amount">R${refund.amount}</span></p>
+                ${Number(refund.fee) > 0 ? `<p><strong>Fee Withheld:</strong> R${refund.fee}</p>` : ''}
+                <p><strong>Reason:</strong> ${refund.reason}</p>
+              </div>
+              
+              <p>${fromCard
+                ? 'The refund goes back to the card you paid with and can take 5-10 business days to appear on your statement.'
+                : 'The refund was paid back to you in person.'}</p>
+              
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      AquaGlow Auto Spa - Refund Processed
+      
+      Hello ${booking.customer?.name},
+      
+      We have refunded R${refund.amount} for booking ${booking.referenceNumber}.
+      Reason: ${refund.reason}
+      
+      ${fromCard ? 'The refund can take 5-10 business days to appear on your card statement.' : ''}
+      
+      Best regards,
+      The AquaGlow Team
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: booking.customer?.email,
+        subject,
+        text,
+        html,
+      });
+      
+      console.log(`Refund email sent to ${booking.customer?.email}`);
+    } catch (error) {
+      console.error('Error sending refund email:', error);
+    }
+  }
+
+  async sendWaitlistOffer(entry: WaitlistEntry, claimUrl: string) {
+    const subject = 'A slot has opened up at AquaGlow';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .status-update { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; text-align: center; }
+            .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Good News!</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${entry.name},</h2>
+              <p>A slot has opened up on the day you were waiting for.</p>
+              
+              <div class="status-update">
+                <p><strong>Date:</strong> ${new Date(entry.date).toLocaleDateString()}</p>
+                <p><strong>Time:</strong> ${entry.offeredTime}</p>
+                ${entry.serviceType ? `<p><strong>Service:</strong> ${entry.serviceType}</p>` : ''}
+              </div>
+              
+              <p style="text-align: center;"><a class="button" href="${claimUrl}">Claim This Slot</a></p>
+              
+              <p>This offer expires in ${config.WAITLIST_OFFER_MINUTES} minutes, after which it goes to the next customer on the waitlist.</p>
+              
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      AquaGlow Auto Spa - A Slot Has Opened Up
+      
+      Hello ${entry.name},
+      
+      A slot is free on ${new Date(entry.date).toLocaleDateString()} at ${entry.offeredTime}.
+      
+      Claim it here: ${claimUrl}
+      
+      This offer expires in ${config.WAITLIST_OFFER_MINUTES} minutes.
+      
+      Best regards,
+      The AquaGlow Team
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: entry.email,
+        subject,
+        text,
+        html,
+      });
+      
+      console.log(`Waitlist offer sent to ${entry.email}`);
+    } catch (error) {
+      console.error('Error sending waitlist offer email:', error);
+    }
+  }
+
+  async sendFleetInvoice(account: FleetAccount, invoice: FleetInvoice, bookings: Booking[]) {
+    const subject = `Monthly Statement ${invoice.invoiceNumber} - AquaGlow`;
+
+    const rows = bookings.map(booking => `
+                  <tr>
+                    <td>${booking.date}</td>
+                    <td>${booking.referenceNumber}</td>
+                    <td>${booking.serviceType}</td>
+                    <td>${[booking.vehicleMake, booking.vehicleModel].filter(Boolean).join(' ') || booking.vehicleType}</td>
+                    <td style="text-align: right;">R${booking.totalPrice}</td>
+                  </tr>`).join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 700px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .receipt { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; }
+            table { width: 100%; border-collapse: collapse; font-size: 14px; }
+            th, td { padding: 6px; border-bottom: 1px solid #eee; text-align: left; }
+            .amount { font-size: 24px; font-weight: bold; color: #667eea; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Monthly Statement</h1>
+              <p>${account.name}</p>
+            </div>
+            <div class="content">
+              <h2>Hello ${account.contactName || account.name},</h2>
+              <p>Here is your statement for ${invoice.periodStart} to ${invoice.periodEnd}.</p>
+
+              <div class="receipt">
+                <p><strong>Invoice:</strong> ${invoice.invoiceNumber}</p>
+                ${account.vatNumber ? `<p><strong>VAT Number:</strong> ${account.vatNumber}</p>` : ''}
+                <table>
+                  <tr><th>Date</th><th>Reference</th><th>Service</th><th>Vehicle</th><th style="text-align: right;">Amount</th></tr>
+                  ${rows}
+                </table>
+                <p><strong>Total Due:</strong> <span class="amount">R${invoice.total}</span></p>
+                <p><strong>Due Date:</strong> ${invoice.dueDate}</p>
+              </div>
+
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: account.contactEmail,
+        subject,
+        html,
+      });
+
+      console.log(`Fleet invoice sent to ${account.contactEmail}`);
+    } catch (error) {
+      console.error('Error sending fleet invoice:', error);
+    }
+  }
+
+  async sendPasswordReset(user: User, resetUrl: string) {
+    const subject = 'Reset your AquaGlow password';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Password Reset</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${user.name},</h2>
+              <p>We received a request to reset the password for your AquaGlow account.</p>
+              
+              <p style="text-align: center;"><a class="button" href="${resetUrl}">Reset Password</a></p>
+              
+              <p>This link expires in ${config.PASSWORD_RESET_EXPIRY_MINUTES} minutes. If you did not ask for a reset, you can ignore this email.</p>
+              
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      AquaGlow Auto Spa - Password Reset
+      
+      Hello ${user.name},
+      
+      Reset your password here: ${resetUrl}
+      
+      This link expires in ${config.PASSWORD_RESET_EXPIRY_MINUTES} minutes. If you did not ask for a reset, you can ignore this email.
+      
+      Best regards,
+      The AquaGlow Team
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: user.email,
+        subject,
+        text,
+        html,
+      });
+      
+      console.log(`Password reset email sent to ${user.email}`);
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+    }
+  }
+
+  async sendEmailVerification(user: User, verifyUrl: string) {
+    const subject = 'Verify your AquaGlow email';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Verify Your Email</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${user.name},</h2>
+              <p>Thanks for creating an AquaGlow account. Please confirm this is your email address so we can link your past bookings to it.</p>
+              
+              <p style="text-align: center;"><a class="button" href="${verifyUrl}">Verify Email</a></p>
+              
+              <p>This link expires in ${config.EMAIL_VERIFICATION_EXPIRY_HOURS} hours. If you did not create an account, you can ignore this email.</p>
+              
+              <p>Best regards,<br>The AquaGlow Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      AquaGlow Auto Spa - Verify Your Email
+      
+      Hello ${user.name},
+      
+      Verify your email here: ${verifyUrl}
+      
+      This link expires in ${config.EMAIL_VERIFICATION_EXPIRY_HOURS} hours. If you did not create an account, you can ignore this email.
+      
+      Best regards,
+      The AquaGlow Team
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: `"AquaGlow Auto Spa" <${config.EMAIL_FROM}>`,
+        to: user.email,
+        subject,
+        text,
+        html,
+      });
+      
+      console.log(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
+  }
 }
 
 export const emailService = new EmailService();
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { FAKE_CARDS, FakePaymentGateway, SimulatedWebhook } from './fakePaymentGateway';
+import { GatewayEventType } from './paymentGateway';
+
+const metadata = { bookingId: 'booking-1', paymentId: 'payment-1', kind: 'balance' };
+
+const parse = (gateway: FakePaymentGateway, webhook: SimulatedWebhook) =>
+  gateway.parseWebhook(webhook.payload, webhook.signature);
+
+describe('FakePaymentGateway', () => {
+  let gateway: FakePaymentGateway;
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('test_secret');
+  });
+
+  const createIntent = (amount = 500) =>
+    gateway.createIntent({ amount, currency: 'zar', description: 'Booking AG-1', metadata });
+
+  it('takes a payment and refunds part of it through signed webhooks', async () => {
+    const intent = await createIntent();
+    expect(intent).toMatchObject({ amount: 500, status: 'requires_payment_method' });
+
+    const paid = parse(gateway, gateway.confirm(intent.id, FAKE_CARDS.SUCCESS));
+    expect(paid).toMatchObject({
+      type: GatewayEventType.SUCCEEDED,
+      intentId: intent.id,
+      bookingId: 'booking-1',
+      paymentId: 'payment-1',
+      amount: 500,
+    });
+
+    const refund = await gateway.createRefund({
+      intentId: intent.id,
+      amount: 200,
+      metadata: { bookingId: 'booking-1', refundId: 'refund-1' },
+    });
+    expect(refund.status).toBe('pending');
+
+    const refunded = parse(gateway, gateway.settleRefund(refund.id, true));
+    expect(refunded).toMatchObject({
+      type: GatewayEventType.REFUND_SUCCEEDED,
+      intentId: intent.id,
+      bookingId: 'booking-1',
+      refundId: 'refund-1',
+      amount: 200,
+    });
+    expect(gateway.getIntent(intent.id)?.amountRefunded).toBe(200);
+  });
+
+  it('refuses to refund more than is left of the payment', async () => {
+    const intent = await createIntent();
+    gateway.confirm(intent.id, FAKE_CARDS.SUCCESS);
+
+    await gateway.createRefund({ intentId: intent.id, amount: 400, metadata: {} });
+
+    await expect(gateway.createRefund({ intentId: intent.id, amount: 101, metadata: {} }))
+      .rejects.toThrow('Refund is more than what is left of the payment');
+  });
+
+  it('reports a refund the bank rejects', async () => {
+    const intent = await createIntent();
+    gateway.confirm(intent.id, FAKE_CARDS.SUCCESS);
+    const refund = await gateway.createRefund({ intentId: intent.id, amount: 500, metadata: { refundId: 'refund-1' } });
+
+    const rejected = parse(gateway, gateway.settleRefund(refund.id, false));
+
+    expect(rejected).toMatchObject({ type: GatewayEventType.REFUND_FAILED, failureReason: 'The bank rejected the refund' });
+    expect(gateway.getIntent(intent.id)?.amountRefunded).toBe(0);
+  });
+
+  it('declines the declined test card', async () => {
+    const intent = await createIntent();
+
+    expect(parse(gateway, gateway.confirm(intent.id, FAKE_CARDS.DECLINED)).type).toBe(GatewayEventType.FAILED);
+    expect(gateway.getIntent(intent.id)?.status).toBe('failed');
+    await expect(gateway.createRefund({ intentId: intent.id, amount: 100, metadata: {} })).rejects.toThrow();
+  });
+
+  it('waits for 3-D Secure before the outcome', async () => {
+    const intent = await createIntent();
+
+    expect(parse(gateway, gateway.confirm(intent.id, FAKE_CARDS.REQUIRES_ACTION)).type)
+      .toBe(GatewayEventType.REQUIRES_ACTION);
+    expect(parse(gateway, gateway.authenticate(intent.id, true)).type).toBe(GatewayEventType.SUCCEEDED);
+  });
+
+  it('changes the amount of an intent that has not been paid', async () => {
+    const intent = await createIntent();
+
+    expect(await gateway.updateIntentAmount(intent.id, 350)).toMatchObject({ id: intent.id, amount: 350 });
+    expect(await gateway.retrieveIntent(intent.id)).toMatchObject({ clientSecret: intent.clientSecret, amount: 350 });
+
+    gateway.confirm(intent.id, FAKE_CARDS.SUCCESS);
+    await expect(gateway.updateIntentAmount(intent.id, 400)).rejects.toThrow();
+  });
+
+  it('rejects a webhook whose payload does not match its signature', async () => {
+    const intent = await createIntent();
+    const webhook = gateway.confirm(intent.id, FAKE_CARDS.SUCCESS);
+
+    const tampered = Buffer.from(webhook.payload.toString('utf8').replace('"amount":500', '"amount":5'));
+
+    expect(() => gateway.parseWebhook(tampered, webhook.signature))
+      .toThrow('Webhook signature does not match the payload');
+  });
+});
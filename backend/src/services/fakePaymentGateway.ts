@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import {
+  PaymentGateway,
+  GatewayEvent,
+  GatewayEventType,
+  GatewayIntent,
+  GatewayRefund,
+  IntentRequest,
+  RefundRequest
+} from './paymentGateway';
+
+// Test cards, named after the outcome they always produce
+export const FAKE_CARDS = {
+  SUCCESS: '4242424242424242',
+  DECLINED: '4000000000000002',
+  REQUIRES_ACTION: '4000002500003155', // 3-D Secure challenge before the outcome
+};
+
+export type FakeIntentStatus = 'requires_payment_method' | 'requires_action' | 'succeeded' | 'failed';
+
+export interface FakeIntent {
+  id: string;
+  amount: number; // in Rand
+  currency: string;
+  description: string;
+  metadata: Record<string, string>;
+  status: FakeIntentStatus;
+  failureReason?: string;
+  amountRefunded: number; // in Rand, settled refunds only
+}
+
+export type FakeRefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface FakeRefund {
+  id: string;
+  intentId: string;
+  amount: number; // in Rand
+  metadata: Record<string, string>;
+  status: FakeRefundStatus;
+  failureReason?: string;
+}
+
+// A signed delivery, as the provider would POST it to the webhook route
+export interface SimulatedWebhook {
+  eventId: string;
+  payload: Buffer;
+  signature: string;
+}
+
+const EVENT_TYPES: Record<string, GatewayEventType> = {
+  'payment.succeeded': GatewayEventType.SUCCEEDED,
+  'payment.failed': GatewayEventType.FAILED,
+  'payment.requires_action': GatewayEventType.REQUIRES_ACTION,
+  'refund.succeeded': GatewayEventType.REFUND_SUCCEEDED,
+  'refund.failed': GatewayEventType.REFUND_FAILED,
+};
+
+const newId = (prefix: string) => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+/**
+ * Offline stand-in for a card provider. Outcomes depend only on the test card
+ * used, and every state change produces a signed webhook that goes through the
+ * same handler as a real one. Intents and refunds live in memory and are lost
+ * on restart.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  readonly signatureHeader = 'x-fake-signature';
+  private intents = new Map<string, FakeIntent>();
+  private refunds = new Map<string, FakeRefund>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createIntent(request: IntentRequest): Promise<GatewayIntent> {
+    const intent: FakeIntent = {
+      id: newId('fake_pi'),
+      amount: request.amount,
+      currency: request.currency,
+      description: request.description,
+      metadata: request.metadata,
+      status: 'requires_payment_method',
+      amountRefunded: 0,
+    };
+    this.intents.set(intent.id, intent);
+
+    return this.toGatewayIntent(intent);
+  }
+
+  async retrieveIntent(intentId: string): Promise<GatewayIntent> {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Payment intent '${intentId}' not found`);
+    }
+    return this.toGatewayIntent(intent);
+  }
+
+  async updateIntentAmount(intentId: string, amount: number): Promise<GatewayIntent> {
+    const intent = this.findOpenIntent(intentId, 'requires_payment_method');
+    intent.amount = amount;
+    return this.toGatewayIntent(intent);
+  }
+
+  getIntent(intentId: string): FakeIntent | null {
+    return this.intents.get(intentId) || null;
+  }
+
+  /**
+   * Refunds stay pending until settled, like a real provider's bank transfer
+   */
+  async createRefund(request: RefundRequest): Promise<GatewayRefund> {
+    const intent = this.findOpenIntent(request.intentId, 'succeeded');
+
+    const pending = [...this.refunds.values()]
+      .filter(refund => refund.intentId === intent.id && refund.status === 'pending')
+      .reduce((sum, refund) => sum + refund.amount, 0);
+    if (request.amount > intent.amount - intent.amountRefunded - pending) {
+      throw new Error('Refund is more than what is left of the payment');
+    }
+
+    const refund: FakeRefund = {
+      id: newId('fake_re'),
+      intentId: intent.id,
+      amount: request.amount,
+      metadata: request.metadata,
+      status: 'pending',
+    };
+    this.refunds.set(refund.id, refund);
+
+    return { id: refund.id, amount: refund.amount, status: refund.status };
+  }
+
+  getRefund(refundId: string): FakeRefund | null {
+    return this.refunds.get(refundId) || null;
+  }
+
+  /**
+   * Pay out or reject a pending refund
+   */
+  settleRefund(refundId: string, approve: boolean): SimulatedWebhook {
+    const refund = this.refunds.get(refundId);
+    if (!refund) {
+      throw new Error(`Refund '${refundId}' not found`);
+    }
+    if (refund.status !== 'pending') {
+      throw new Error(`Refund is ${refund.status}, expected pending`);
+    }
+
+    if (approve) {
+      refund.status = 'succeeded';
+      this.intents.get(refund.intentId)!.amountRefunded += refund.amount;
+    } else {
+      refund.status = 'failed';
+      refund.failureReason = 'The bank rejected the refund';
+    }
+
+    return this.deliver(`refund.${refund.status}`, refund);
+  }
+
+  /**
+   * Pay an intent with a test card. Unknown cards are declined.
+   */
+  confirm(intentId: string, cardNumber: string): SimulatedWebhook {
+    const intent = this.findOpenIntent(intentId, 'requires_payment_method');
+
+    switch (cardNumber.replace(/\s/g, '')) {
+      case FAKE_CARDS.SUCCESS:
+        return this.transition(intent, 'succeeded');
+      case FAKE_CARDS.REQUIRES_ACTION:
+        return this.transition(intent, 'requires_action');
+      case FAKE_CARDS.DECLINED:
+        return this.transition(intent, 'failed', 'Your card was declined');
+      default:
+        return this.transition(intent, 'failed', 'Unrecognised test card');
+    }
+  }
+
+  /**
+   * Pass or fail the 3-D Secure challenge of an intent that requires action
+   */
+  authenticate(intentId: string, approve: boolean): SimulatedWebhook {
+    const intent = this.findOpenIntent(intentId, 'requires_action');
+    return approve
+      ? this.transition(intent, 'succeeded')
+      : this.transition(intent, 'failed', 'Card authentication failed');
+  }
+
+  parseWebhook(payload: Buffer, signature: string): GatewayEvent {
+    const expected = Buffer.from(this.sign(payload));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+      throw new Error('Webhook signature does not match the payload');
+    }
+
+    const event = JSON.parse(payload.toString('utf8'));
+
+    if (event.type.startsWith('refund.')) {
+      const refund = event.data as FakeRefund;
+      return {
+        id: event.id,
+        type: EVENT_TYPES[event.type] || GatewayEventType.OTHER,
+        providerType: event.type,
+        intentId: refund.intentId,
+        bookingId: refund.metadata?.bookingId,
+        refundId: refund.metadata?.refundId,
+        amount: refund.amount,
+        failureReason: refund.failureReason,
+        payload: event,
+      };
+    }
+
+    const intent = event.data as FakeIntent;
+    return {
+      id: event.id,
+      type: EVENT_TYPES[event.type] || GatewayEventType.OTHER,
+      providerType: event.type,
+      intentId: intent.id,
+      bookingId: intent.metadata?.bookingId,
+      paymentId: intent.metadata?.paymentId,
+      amount: intent.amount,
+      payload: event,
+    };
+  }
+
+  private toGatewayIntent(intent: FakeIntent): GatewayIntent {
+    return {
+      id: intent.id,
+      clientSecret: `${intent.id}_secret`,
+      amount: intent.amount,
+      status: intent.status,
+    };
+  }
+
+  private findOpenIntent(intentId: string, status: FakeIntentStatus): FakeIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Payment intent '${intentId}' not found`);
+    }
+    if (intent.status !== status) {
+      throw new Error(`Payment intent is ${intent.status}, expected ${status}`);
+    }
+    return intent;
+  }
+
+  private transition(intent: FakeIntent, status: FakeIntentStatus, failureReason?: string): SimulatedWebhook {
+    intent.status = status;
+    intent.failureReason = failureReason;
+
+    const type = status === 'succeeded' ? 'payment.succeeded'
+      : status === 'requires_action' ? 'payment.requires_action'
+      : 'payment.failed';
+    return this.deliver(type, intent);
+  }
+
+  private deliver(type: string, data: FakeIntent | FakeRefund): SimulatedWebhook {
+    const event = { id: newId('fake_evt'), type, created: new Date().toISOString(), data: { ...data } };
+    const payload = Buffer.from(JSON.stringify(event));
+
+    return { eventId: event.id, payload, signature: this.sign(payload) };
+  }
+
+  private sign(payload: Buffer): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+}
@@ -0,0 +1,174 @@
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, FleetAccount, FleetAccountBooker, FleetInvoice } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { FleetInvoiceStatus } from '../models/FleetInvoice';
+import { PaymentKind } from '../models/Payment';
+import { generateReferenceNumber } from '../utils/helpers';
+import { addDays, addMonths, fromDateKey, toDateKey, getStartOfMonth, getEndOfMonth } from '../utils/dateUtils';
+import { emailService } from './emailService';
+import { paymentService, getAmountDue } from './paymentService';
+
+export interface StatementPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+export interface FleetStatement extends StatementPeriod {
+  fleetAccountId: string;
+  bookings: Booking[];
+  bookingCount: number;
+  total: number;
+  uninvoicedTotal: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const sumTotals = (bookings: Booking[]) =>
+  round(bookings.reduce((sum, booking) => sum + Number(booking.totalPrice), 0));
+
+/**
+ * First and last day of a 'YYYY-MM' month
+ */
+export function getStatementPeriod(month: string): StatementPeriod {
+  const start = fromDateKey(`${month}-01`);
+  return {
+    start: toDateKey(start),
+    end: toDateKey(getEndOfMonth(start)),
+  };
+}
+
+export class FleetService {
+  async isAuthorisedBooker(fleetAccountId: string, customerId: string, transaction?: Transaction): Promise<boolean> {
+    const booker = await FleetAccountBooker.findOne({
+      where: { fleetAccountId, customerId },
+      include: [{ model: FleetAccount, as: 'fleetAccount', where: { active: true } }],
+      transaction,
+    });
+    return !!booker;
+  }
+
+  /**
+   * Completed on-account bookings for a month, whether invoiced yet or not
+   */
+  async getStatement(fleetAccountId: string, month: string): Promise<FleetStatement> {
+    const period = getStatementPeriod(month);
+    const bookings = await Booking.findAll({
+      where: this.billableWhere(fleetAccountId, period),
+      order: [['date', 'ASC'], ['time', 'ASC']],
+    });
+
+    return {
+      fleetAccountId,
+      ...period,
+      bookings,
+      bookingCount: bookings.length,
+      total: sumTotals(bookings),
+      uninvoicedTotal: sumTotals(bookings.filter(booking => !booking.fleetInvoiceId)),
+    };
+  }
+
+  /**
+   * Bill a month's completed bookings that are not on an invoice yet, and email
+   * the statement. Returns null when there is nothing to bill.
+   */
+  async issueInvoice(account: FleetAccount, month: string, now: Date = new Date()): Promise<FleetInvoice | null> {
+    const period = getStatementPeriod(month);
+
+    const issued = await sequelize.transaction(async (transaction) => {
+      const bookings = await Booking.findAll({
+        where: { ...this.billableWhere(account.id, period), fleetInvoiceId: null },
+        order: [['date', 'ASC'], ['time', 'ASC']],
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+      if (bookings.length === 0) return null;
+
+      const invoice = await FleetInvoice.create({
+        fleetAccountId: account.id,
+        invoiceNumber: generateReferenceNumber('INV'),
+        periodStart: period.start,
+        periodEnd: period.end,
+        bookingCount: bookings.length,
+        total: sumTotals(bookings),
+        issuedAt: now,
+        dueDate: toDateKey(addDays(now, account.paymentTermsDays)),
+      }, { transaction });
+
+      await Booking.update(
+        { fleetInvoiceId: invoice.id },
+        { where: { id: { [Op.in]: bookings.map(booking => booking.id) } }, transaction }
+      );
+
+      return { invoice, bookings };
+    });
+
+    if (!issued) return null;
+
+    await emailService.sendFleetInvoice(account, issued.invoice, issued.bookings);
+    return issued.invoice;
+  }
+
+  /**
+   * Invoice every active account for the previous month. Safe to run repeatedly:
+   * bookings already on an invoice are skipped.
+   */
+  async issueMonthlyInvoices(now: Date = new Date()): Promise<FleetInvoice[]> {
+    const month = toDateKey(addMonths(getStartOfMonth(now), -1)).slice(0, 7);
+    const accounts = await FleetAccount.findAll({ where: { active: true } });
+
+    const invoices: FleetInvoice[] = [];
+    for (const account of accounts) {
+      const invoice = await this.issueInvoice(account, month, now);
+      if (invoice) invoices.push(invoice);
+    }
+    return invoices;
+  }
+
+  /**
+   * Settle or void an invoice. Paying marks its bookings paid; voiding frees them
+   * to be billed again.
+   */
+  async updateInvoiceStatus(
+    invoice: FleetInvoice,
+    status: FleetInvoiceStatus.PAID | FleetInvoiceStatus.VOID,
+    recordedById?: string | null
+  ): Promise<void> {
+    await sequelize.transaction(async (transaction) => {
+      if (status === FleetInvoiceStatus.PAID) {
+        await invoice.update({ status, paidAt: new Date() }, { transaction });
+
+        // Settling the invoice pays what each booking on it still owes, itemised so refunds can find it
+        const bookings = await Booking.findAll({ where: { fleetInvoiceId: invoice.id }, transaction });
+        for (const booking of bookings) {
+          const balance = getAmountDue(booking, PaymentKind.BALANCE);
+          if (balance > 0) {
+            await paymentService.recordPayment(booking, {
+              kind: PaymentKind.BALANCE,
+              amount: balance,
+              method: 'on_account',
+              reference: invoice.invoiceNumber,
+            }, recordedById, transaction);
+          }
+        }
+      } else {
+        await invoice.update({ status }, { transaction });
+        await Booking.update(
+          { fleetInvoiceId: null },
+          { where: { fleetInvoiceId: invoice.id }, transaction }
+        );
+      }
+    });
+  }
+
+  private billableWhere(fleetAccountId: string, period: StatementPeriod): WhereOptions<Booking> {
+    return {
+      fleetAccountId,
+      paymentMethod: 'on_account',
+      status: BookingStatus.COMPLETED,
+      date: { [Op.between]: [period.start, period.end] },
+    };
+  }
+}
+
+export const fleetService = new FleetService();
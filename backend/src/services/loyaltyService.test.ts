@@ -0,0 +1,67 @@
+import { Customer, LoyaltyTransaction } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { LoyaltyTransactionType } from '../models/LoyaltyTransaction';
+import { buildBooking } from '../test/bookingFactory';
+import { loyaltyService } from './loyaltyService';
+
+const completed = buildBooking({ status: BookingStatus.COMPLETED, totalPrice: 1000, referenceNumber: 'AG-1' });
+
+describe('loyaltyService.reverseForRefund', () => {
+  let customer: Customer;
+
+  beforeEach(() => {
+    customer = Customer.build({ name: 'Thandi', email: 'thandi@example.com', loyaltyPoints: 100, totalSpent: 1000 });
+    jest.spyOn(customer, 'update').mockImplementation(async values => customer.set(values as Partial<Customer>));
+    jest.spyOn(Customer, 'findByPk').mockResolvedValue(customer);
+    jest.spyOn(LoyaltyTransaction, 'findAll').mockResolvedValue([
+      LoyaltyTransaction.build({
+        customerId: customer.id,
+        type: LoyaltyTransactionType.EARN,
+        points: 100,
+        balanceAfter: 100,
+        description: 'Earned',
+      }),
+    ]);
+    jest.spyOn(LoyaltyTransaction, 'create').mockImplementation(async values => values as unknown as LoyaltyTransaction);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes back the refunded share of the points and spend', async () => {
+    const reversal = await loyaltyService.reverseForRefund(completed, 0, 500);
+
+    expect(reversal).toMatchObject({ type: LoyaltyTransactionType.REVERSAL, points: -50, balanceAfter: 50 });
+    expect(customer.totalSpent).toBe(500);
+  });
+
+  it('takes back only what each further refund adds', async () => {
+    const reversal = await loyaltyService.reverseForRefund(completed, 500, 750);
+
+    expect(reversal?.points).toBe(-25);
+    expect(customer.totalSpent).toBe(750);
+  });
+
+  it('leaves the part of a refund that was a tip', async () => {
+    const reversal = await loyaltyService.reverseForRefund(completed, 800, 1100);
+
+    expect(reversal?.points).toBe(-20);
+    expect(customer.totalSpent).toBe(800);
+  });
+
+  it('never takes the balance below zero', async () => {
+    customer.loyaltyPoints = 30;
+
+    const reversal = await loyaltyService.reverseForRefund(completed, 0, 1000);
+
+    expect(reversal).toMatchObject({ points: -30, balanceAfter: 0 });
+  });
+
+  it('leaves bookings that never earned anything alone', async () => {
+    const cancelled = buildBooking({ status: BookingStatus.CANCELLED, totalPrice: 1000 });
+
+    expect(await loyaltyService.reverseForRefund(cancelled, 0, 1000)).toBeNull();
+    expect(Customer.findByPk).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config/env';
+import { Booking, Customer, LoyaltyTransaction } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { LoyaltyTransactionType } from '../models/LoyaltyTransaction';
+import { calculateLoyaltyPoints } from '../utils/helpers';
+
+export interface RedemptionResult {
+  valid: boolean;
+  message?: string;
+  points?: number;
+  discount?: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export class LoyaltyService {
+  /**
+   * Rand value of a number of points
+   */
+  pointsToRand(points: number): number {
+    return round(points * config.LOYALTY_POINT_VALUE);
+  }
+
+  /**
+   * Credit the points a completed booking earns and add it to the customer's spend.
+   * Safe to call more than once for the same booking.
+   */
+  async awardForBooking(booking: Booking, transaction?: Transaction): Promise<LoyaltyTransaction | null> {
+    const earned = await this.sumForBooking(booking.id, [LoyaltyTransactionType.EARN], transaction);
+    if (earned > 0) return null;
+
+    const customer = await this.lockCustomer(booking.customerId, transaction);
+    if (!customer) return null;
+
+    const amount = Number(booking.totalPrice);
+    await customer.update({ totalSpent: Number(customer.totalSpent || 0) + amount }, { transaction });
+
+    const points = calculateLoyaltyPoints(amount);
+    if (points <= 0) return null;
+
+    return this.record(customer, {
+      bookingId: booking.id,
+      type: LoyaltyTransactionType.EARN,
+      points,
+      description: `Earned on booking ${booking.referenceNumber}`,
+    }, transaction);
+  }
+
+  /**
+   * Undo a booking's loyalty effects on cancellation: take back earned
+   * points and spend, and return any points redeemed against it
+   */
+  async reverseForBooking(booking: Booking, transaction?: Transaction): Promise<void> {
+    const reversed = await LoyaltyTransaction.count({
+      where: { bookingId: booking.id, type: LoyaltyTransactionType.REVERSAL },
+      transaction,
+    });
+    if (reversed > 0) return;
+
+    const customer = await this.lockCustomer(booking.customerId, transaction);
+    if (!customer) return;
+
+    const earned = await this.sumForBooking(booking.id, [LoyaltyTransactionType.EARN], transaction);
+    if (earned > 0) {
+      await customer.update({
+        totalSpent: Math.max(0, Number(customer.totalSpent || 0) - Number(booking.totalPrice)),
+      }, { transaction });
+    }
+
+    const net = await this.sumForBooking(
+      booking.id,
+      [LoyaltyTransactionType.EARN, LoyaltyTransactionType.REDEEM],
+      transaction
+    );
+
+    // Points already spent elsewhere cannot be clawed back below zero
+    const points = Math.max(-net, -customer.loyaltyPoints);
+    if (points === 0) return;
+
+    await this.record(customer, {
+      bookingId: booking.id,
+      type: LoyaltyTransactionType.REVERSAL,
+      points,
+      description: `Reversed for booking ${booking.referenceNumber}`,
+    }, transaction);
+  }
+
+  /**
+   * Take back the share of a completed booking's points and spend that has now
+   * been refunded, e.g. half of them once half the total is refunded. Amounts
+   * are what the booking had refunded before and after the refund, tips included.
+   */
+  async reverseForRefund(
+    booking: Booking,
+    refundedBefore: number,
+    refundedAfter: number,
+    transaction?: Transaction
+  ): Promise<LoyaltyTransaction | null> {
+    // Only completed bookings have earned anything; cancellations reverse in full
+    if (booking.status !== BookingStatus.COMPLETED) return null;
+
+    const total = Number(booking.totalPrice);
+    if (total <= 0) return null;
+
+    // Tips are refunded last, so anything over the total was a tip
+    const before = Math.min(refundedBefore, total);
+    const after = Math.min(refundedAfter, total);
+    if (after <= before) return null;
+
+    const customer = await this.lockCustomer(booking.customerId, transaction);
+    if (!customer) return null;
+
+    await customer.update({
+      totalSpent: Math.max(0, round(Number(customer.totalSpent || 0) - (after - before))),
+    }, { transaction });
+
+    const earned = await this.sumForBooking(booking.id, [LoyaltyTransactionType.EARN], transaction);
+    const due = Math.round(earned * after / total) - Math.round(earned * before / total);
+
+    // Points already spent elsewhere cannot be clawed back below zero
+    const points = Math.max(-due, -customer.loyaltyPoints);
+    if (points === 0) return null;
+
+    return this.record(customer, {
+      bookingId: booking.id,
+      type: LoyaltyTransactionType.REVERSAL,
+      points,
+      description: `Reversed for refund on booking ${booking.referenceNumber}`,
+    }, transaction);
+  }
+
+  /**
+   * Check a redemption against the customer's balance and cap it at the booking total
+   */
+  async checkRedemption(
+    customerId: string,
+    points: number,
+    bookingTotal: number,
+    transaction?: Transaction
+  ): Promise<RedemptionResult> {
+    const customer = await this.lockCustomer(customerId, transaction);
+    if (!customer) {
+      return { valid: false, message: 'Customer not found' };
+    }
+
+    if (points > customer.loyaltyPoints) {
+      return { valid: false, message: `Only ${customer.loyaltyPoints} Glow Points available` };
+    }
+
+    const usable = Math.min(points, Math.floor(bookingTotal / config.LOYALTY_POINT_VALUE));
+    return { valid: true, points: usable, discount: this.pointsToRand(usable) };
+  }
+
+  /**
+   * Debit redeemed points once the booking exists
+   */
+  async recordRedemption(booking: Booking, points: number, transaction?: Transaction): Promise<void> {
+    if (points <= 0) return;
+
+    const customer = await this.lockCustomer(booking.customerId, transaction);
+    if (!customer) return;
+
+    await this.record(customer, {
+      bookingId: booking.id,
+      type: LoyaltyTransactionType.REDEEM,
+      points: -points,
+      description: `Redeemed on booking ${booking.referenceNumber}`,
+    }, transaction);
+  }
+
+  async getHistory(customerId: string): Promise<LoyaltyTransaction[]> {
+    return LoyaltyTransaction.findAll({
+      where: { customerId },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+
+  private async lockCustomer(customerId: string, transaction?: Transaction): Promise<Customer | null> {
+    return Customer.findByPk(customerId, {
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+  }
+
+  private async sumForBooking(
+    bookingId: string,
+    types: LoyaltyTransactionType[],
+    transaction?: Transaction
+  ): Promise<number> {
+    const entries = await LoyaltyTransaction.findAll({ where: { bookingId, type: types }, transaction });
+    return entries.reduce((sum, entry) => sum + entry.points, 0);
+  }
+
+  /**
+   * Write a ledger entry and keep the customer's cached balance in step
+   */
+  private async record(
+    customer: Customer,
+    entry: { bookingId?: string; type: LoyaltyTransactionType; points: number; description: string },
+    transaction?: Transaction
+  ): Promise<LoyaltyTransaction> {
+    const balanceAfter = (customer.loyaltyPoints || 0) + entry.points;
+    await customer.update({ loyaltyPoints: balanceAfter }, { transaction });
+
+    return LoyaltyTransaction.create({
+      customerId: customer.id,
+      ...entry,
+      balanceAfter,
+    }, { transaction });
+  }
+}
+
+export const loyaltyService = new LoyaltyService();
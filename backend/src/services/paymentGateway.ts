@@ -0,0 +1,75 @@
+// Provider-neutral view of a card payment provider
+
+export enum GatewayEventType {
+  SUCCEEDED = 'payment.succeeded',
+  FAILED = 'payment.failed',
+  REQUIRES_ACTION = 'payment.requires_action', // the customer has to complete a 3-D Secure challenge
+  REFUND_SUCCEEDED = 'refund.succeeded',
+  REFUND_FAILED = 'refund.failed',
+  OTHER = 'other'
+}
+
+export interface IntentRequest {
+  amount: number; // in Rand
+  currency: string;
+  description: string;
+  metadata: Record<string, string>; // must include bookingId and paymentId for webhooks to find the payment
+}
+
+export interface GatewayIntent {
+  id: string;
+  clientSecret: string | null; // handed to the browser to complete the payment
+  amount: number; // in Rand
+  status: string;
+}
+
+export interface RefundRequest {
+  intentId: string; // the payment being refunded
+  amount: number; // in Rand
+  metadata: Record<string, string>; // must include bookingId and refundId for webhooks to find the refund
+}
+
+export interface GatewayRefund {
+  id: string;
+  amount: number; // in Rand
+  status: string; // the outcome arrives by webhook, even when the provider settles at once
+}
+
+export interface GatewayEvent {
+  id: string; // unique per provider, used to skip redeliveries
+  type: GatewayEventType;
+  providerType: string; // the provider's own name for the event
+  intentId?: string;
+  bookingId?: string;
+  paymentId?: string;
+  refundId?: string; // refund events only
+  amount?: number; // in Rand
+  failureReason?: string;
+  payload: object;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  readonly signatureHeader: string; // request header carrying the webhook signature
+
+  createIntent(request: IntentRequest): Promise<GatewayIntent>;
+
+  retrieveIntent(intentId: string): Promise<GatewayIntent>;
+
+  /**
+   * Change what an intent will charge before the customer pays it
+   */
+  updateIntentAmount(intentId: string, amount: number): Promise<GatewayIntent>;
+
+  createRefund(request: RefundRequest): Promise<GatewayRefund>;
+
+  /**
+   * Verify a webhook delivery against the raw request body and translate it.
+   * Throws when the signature does not match.
+   */
+  parseWebhook(payload: Buffer, signature: string): GatewayEvent;
+}
+
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+export const fromCents = (cents: number) => cents / 100;
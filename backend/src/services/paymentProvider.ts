@@ -0,0 +1,34 @@
+import { config } from '../config/env';
+import { PaymentGateway } from './paymentGateway';
+import { StripeGateway } from './stripeGateway';
+import { FakePaymentGateway } from './fakePaymentGateway';
+
+let sharedGateway: PaymentGateway | null = null;
+
+/**
+ * The provider named by PAYMENT_PROVIDER
+ */
+export function createPaymentGateway(): PaymentGateway {
+  switch (config.PAYMENT_PROVIDER) {
+    case 'stripe':
+      return new StripeGateway(config.STRIPE_SECRET_KEY, config.STRIPE_WEBHOOK_SECRET);
+    case 'fake':
+      if (config.NODE_ENV === 'production') {
+        throw new Error('The fake payment provider cannot be used in production');
+      }
+      return new FakePaymentGateway(config.FAKE_PAYMENT_WEBHOOK_SECRET);
+    default:
+      throw new Error(`Unknown payment provider '${config.PAYMENT_PROVIDER}'`);
+  }
+}
+
+/**
+ * The gateway shared by payments and refunds. It is created on first use, so
+ * importing this module needs no keys.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (!sharedGateway) {
+    sharedGateway = createPaymentGateway();
+  }
+  return sharedGateway;
+}
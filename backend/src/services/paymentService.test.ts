@@ -0,0 +1,166 @@
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, Payment, PaymentEvent } from '../models';
+import { PaymentKind, PaymentRecordStatus } from '../models/Payment';
+import { buildBooking } from '../test/bookingFactory';
+import { mockTransaction } from '../test/transaction';
+import { FAKE_CARDS, FakePaymentGateway } from './fakePaymentGateway';
+import { derivePaymentStatus, getAmountDue, isSecured, PaymentService } from './paymentService';
+
+const booking = (amountPaid: number, depositAmount = 0) =>
+  buildBooking({ paymentMethod: 'card', totalPrice: 1200, depositAmount, amountPaid });
+
+describe('getAmountDue', () => {
+  it('owes the deposit until it is paid', () => {
+    expect(getAmountDue(booking(0, 300), PaymentKind.DEPOSIT)).toBe(300);
+    expect(getAmountDue(booking(120, 300), PaymentKind.DEPOSIT)).toBe(180);
+    expect(getAmountDue(booking(300, 300), PaymentKind.DEPOSIT)).toBe(0);
+  });
+
+  it('owes no deposit on bookings without one', () => {
+    expect(getAmountDue(booking(0), PaymentKind.DEPOSIT)).toBe(0);
+  });
+
+  it('owes the rest of the total as the balance', () => {
+    expect(getAmountDue(booking(300, 300), PaymentKind.BALANCE)).toBe(900);
+    expect(getAmountDue(booking(1200, 300), PaymentKind.BALANCE)).toBe(0);
+  });
+
+  it('never owes more than nothing once overpaid', () => {
+    expect(getAmountDue(booking(1250), PaymentKind.BALANCE)).toBe(0);
+  });
+
+  it('never owes a tip', () => {
+    expect(getAmountDue(booking(0), PaymentKind.TIP)).toBe(0);
+  });
+});
+
+describe('derivePaymentStatus', () => {
+  it('follows what has been paid towards the total', () => {
+    expect(derivePaymentStatus(1200, 0)).toBe('pending');
+    expect(derivePaymentStatus(1200, 300)).toBe('partially_paid');
+    expect(derivePaymentStatus(1200, 1200)).toBe('paid');
+  });
+});
+
+describe('isSecured', () => {
+  it('is secured by the deposit when there is one', () => {
+    expect(isSecured(booking(299.99, 300))).toBe(false);
+    expect(isSecured(booking(300, 300))).toBe(true);
+  });
+
+  it('needs the full price when there is no deposit', () => {
+    expect(isSecured(booking(300))).toBe(false);
+    expect(isSecured(booking(1200))).toBe(true);
+  });
+});
+
+describe('handleWebhook', () => {
+  let gateway: FakePaymentGateway;
+  let service: PaymentService;
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('test_secret');
+    service = new PaymentService(gateway);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const paidWebhook = async () => {
+    const intent = await gateway.createIntent({
+      amount: 500,
+      currency: 'zar',
+      description: 'Booking AG-1',
+      metadata: { bookingId: 'booking-1', paymentId: 'payment-1', kind: 'balance' },
+    });
+    return gateway.confirm(intent.id, FAKE_CARDS.SUCCESS);
+  };
+
+  it('skips an event that was already recorded', async () => {
+    const webhook = await paidWebhook();
+    jest.spyOn(PaymentEvent, 'count').mockResolvedValue(1);
+    const transaction = jest.spyOn(sequelize, 'transaction');
+
+    expect(await service.handleWebhook(webhook.payload, webhook.signature)).toEqual({ valid: true, duplicate: true });
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('treats a redelivery that recorded the event first as a duplicate', async () => {
+    const webhook = await paidWebhook();
+    jest.spyOn(PaymentEvent, 'count').mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+    jest.spyOn(sequelize, 'transaction').mockRejectedValue(new UniqueConstraintError({}));
+
+    expect(await service.handleWebhook(webhook.payload, webhook.signature)).toEqual({ valid: true, duplicate: true });
+  });
+
+  it('fails on a unique violation from applying the event', async () => {
+    const webhook = await paidWebhook();
+    jest.spyOn(PaymentEvent, 'count').mockResolvedValue(0);
+    jest.spyOn(sequelize, 'transaction').mockRejectedValue(new UniqueConstraintError({}));
+
+    await expect(service.handleWebhook(webhook.payload, webhook.signature)).rejects.toThrow(UniqueConstraintError);
+  });
+});
+
+describe('createPaymentIntent', () => {
+  const metadata = { bookingId: 'booking-1', paymentId: 'payment-1', kind: 'balance' };
+  let gateway: FakePaymentGateway;
+  let service: PaymentService;
+  let transaction: Transaction;
+
+  const payment = (providerReference: string | null) => {
+    const record = Payment.build({
+      bookingId: 'booking-1',
+      kind: PaymentKind.BALANCE,
+      amount: 500,
+      method: 'card',
+      status: PaymentRecordStatus.PENDING,
+      provider: 'fake',
+      providerReference,
+    });
+    jest.spyOn(record, 'update').mockResolvedValue(record);
+    return record;
+  };
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('test_secret');
+    service = new PaymentService(gateway);
+    ({ transaction } = mockTransaction());
+    jest.spyOn(Booking, 'findByPk').mockResolvedValue(null);
+    jest.spyOn(Booking, 'update').mockResolvedValue([1]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('picks up the open intent and changes its amount', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'zar', description: 'Booking AG-1', metadata });
+    const open = payment(intent.id);
+    jest.spyOn(Payment, 'findOne').mockResolvedValue(open);
+    const create = jest.spyOn(gateway, 'createIntent');
+
+    const result = await service.createPaymentIntent(buildBooking(), PaymentKind.BALANCE, 350);
+
+    expect(result).toMatchObject({ paymentIntentId: intent.id, clientSecret: intent.clientSecret, amount: 350 });
+    expect(create).not.toHaveBeenCalled();
+    expect(open.update).toHaveBeenCalledWith({ amount: 350, providerReference: intent.id }, { transaction });
+  });
+
+  it('starts a new payment when the open intent can no longer be paid', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'zar', description: 'Booking AG-1', metadata });
+    gateway.confirm(intent.id, FAKE_CARDS.DECLINED);
+    jest.spyOn(Payment, 'findOne').mockResolvedValue(payment(intent.id));
+    const fresh = payment(null);
+    jest.spyOn(Payment, 'create').mockResolvedValue(fresh);
+
+    const result = await service.createPaymentIntent(buildBooking(), PaymentKind.BALANCE, 500);
+
+    expect(result.paymentIntentId).not.toBe(intent.id);
+    expect(result.paymentId).toBe(fresh.id);
+    expect(gateway.getIntent(result.paymentIntentId)?.metadata.paymentId).toBe(fresh.id);
+  });
+});
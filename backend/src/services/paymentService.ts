@@ -1,110 +1,375 @@
-import Stripe from 'stripe';
-import { config } from '../config/env';
-import { Booking } from '../models';
-import { BookingStatus } from '../types';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, Customer, Payment, PaymentEvent } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { PaymentKind, PaymentRecordStatus } from '../models/Payment';
+import { PaymentEventStatus } from '../models/PaymentEvent';
+import { PaymentGateway, GatewayEvent, GatewayEventType, GatewayIntent } from './paymentGateway';
+import { getPaymentGateway } from './paymentProvider';
+import { bookingStatusService, StatusChange } from './bookingStatusService';
+import { refundService } from './refundService';
+import { emailService } from './emailService';
+
+export interface WebhookResult {
+  valid: boolean;
+  message?: string;
+  duplicate?: boolean; // already processed on an earlier delivery
+}
+
+export interface PaymentInput {
+  kind: PaymentKind;
+  amount: number;
+  method: 'card' | 'cash' | 'on_account';
+  reference?: string | null; // card machine slip or cash receipt number
+}
+
+export interface PaymentSummary {
+  totalPrice: number;
+  depositAmount: number;
+  amountPaid: number; // towards the total, tips excluded
+  tipAmount: number;
+  amountRefunded: number; // tips included
+  depositDue: number;
+  balanceDue: number;
+  paymentStatus: Booking['paymentStatus'];
+}
+
+// Intents the customer can still pay, so a new checkout can pick them up
+const REUSABLE_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * What is still owed on a booking for a kind of payment. Tips are never owed.
+ */
+export function getAmountDue(booking: Booking, kind: PaymentKind): number {
+  const paid = Number(booking.amountPaid || 0);
+  switch (kind) {
+    case PaymentKind.DEPOSIT:
+      return round(Math.max(0, Number(booking.depositAmount || 0) - paid));
+    case PaymentKind.BALANCE:
+      return round(Math.max(0, Number(booking.totalPrice) - paid));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Payment status of a booking once an amount has been paid towards its total
+ */
+export function derivePaymentStatus(totalPrice: number, amountPaid: number): 'pending' | 'partially_paid' | 'paid' {
+  if (amountPaid <= 0) return 'pending';
+  return amountPaid >= totalPrice ? 'paid' : 'partially_paid';
+}
+
+/**
+ * A booking is secured once its deposit is in, or the full price when it has no deposit
+ */
+export function isSecured(booking: Booking): boolean {
+  const paid = Number(booking.amountPaid || 0);
+  const deposit = Number(booking.depositAmount || 0);
+  return paid > 0 && paid >= (deposit > 0 ? deposit : Number(booking.totalPrice));
+}
+
+export function summarisePayments(booking: Booking): PaymentSummary {
+  return {
+    totalPrice: Number(booking.totalPrice),
+    depositAmount: Number(booking.depositAmount || 0),
+    amountPaid: Number(booking.amountPaid || 0),
+    tipAmount: Number(booking.tipAmount || 0),
+    amountRefunded: Number(booking.amountRefunded || 0),
+    depositDue: getAmountDue(booking, PaymentKind.DEPOSIT),
+    balanceDue: getAmountDue(booking, PaymentKind.BALANCE),
+    paymentStatus: booking.paymentStatus,
+  };
+}
 
 export class PaymentService {
-  private stripe: Stripe;
+  private gateway: PaymentGateway | null;
 
-  constructor() {
-    this.stripe = new Stripe(config.STRIPE_SECRET_KEY, {
-      apiVersion: '2023-10-16',
-    });
+  constructor(gateway?: PaymentGateway) {
+    this.gateway = gateway || null;
   }
 
-  async createPaymentIntent(booking: Booking) {
-    try {
-      const paymentIntent = await this.stripe.paymentIntents.create({
-        amount: Math.round(booking.totalPrice * 100), // Convert to cents
+  getGateway(): PaymentGateway {
+    return this.gateway || getPaymentGateway();
+  }
+
+  /**
+   * Start an online payment of an amount towards a booking, or pick up the
+   * customer's unpaid intent for the same kind of payment. The payment is
+   * recorded as pending until the provider's webhook reports the outcome.
+   */
+  async createPaymentIntent(booking: Booking, kind: PaymentKind, amount: number) {
+    const gateway = this.getGateway();
+    const reserve = (transaction?: Transaction) => Payment.create({
+      bookingId: booking.id,
+      kind,
+      amount,
+      method: 'card',
+      provider: gateway.name,
+    }, { transaction });
+
+    // Checkouts opened side by side share one payment, reserved under the booking lock
+    let payment = await sequelize.transaction(async (transaction) => {
+      await Booking.findByPk(booking.id, { transaction, lock: transaction.LOCK.UPDATE });
+
+      const open = await Payment.findOne({
+        where: {
+          bookingId: booking.id,
+          kind,
+          status: PaymentRecordStatus.PENDING,
+          provider: gateway.name,
+        },
+        order: [['createdAt', 'DESC']],
+        transaction,
+      });
+      return open || reserve(transaction);
+    });
+
+    // The provider is only called once the lock is released, so a slow response holds
+    // up nobody. An intent that can no longer be paid is left to its webhook.
+    const existing = payment.providerReference ? await gateway.retrieveIntent(payment.providerReference) : null;
+    let intent: GatewayIntent;
+    if (existing && REUSABLE_INTENT_STATUSES.includes(existing.status)) {
+      intent = existing.amount === amount ? existing : await gateway.updateIntentAmount(existing.id, amount);
+    } else {
+      if (existing) {
+        payment = await reserve();
+      }
+
+      intent = await gateway.createIntent({
+        amount,
         currency: 'zar',
         metadata: {
           bookingId: booking.id,
+          paymentId: payment.id,
+          kind,
           referenceNumber: booking.referenceNumber,
           customerEmail: booking.customer?.email || '',
         },
-        description: `AquaGlow Booking: ${booking.referenceNumber}`,
+        description: `AquaGlow Booking: ${booking.referenceNumber} (${kind})`,
       });
-
-      return {
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id,
-        amount: booking.totalPrice,
-      };
-    } catch (error) {
-      console.error('Error creating payment intent:', error);
-      throw error;
     }
+
+    await sequelize.transaction(async (transaction) => {
+      // Lets staff find the payment in the provider's dashboard
+      await payment.update({ amount, providerReference: intent.id }, { transaction });
+      await Booking.update({ transactionId: intent.id }, { where: { id: booking.id }, transaction });
+    });
+
+    return {
+      clientSecret: intent.clientSecret,
+      paymentIntentId: intent.id,
+      paymentId: payment.id,
+      kind,
+      amount,
+      provider: gateway.name,
+    };
+  }
+
+  /**
+   * Record a payment taken in person, such as cash or a card machine at the bay
+   */
+  async recordPayment(
+    booking: Booking,
+    input: PaymentInput,
+    recordedById: string | null | undefined,
+    transaction: Transaction
+  ): Promise<Payment> {
+    await booking.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+    const payment = await Payment.create({
+      bookingId: booking.id,
+      kind: input.kind,
+      amount: input.amount,
+      method: input.method,
+      status: PaymentRecordStatus.SUCCEEDED,
+      providerReference: input.reference || null,
+      paidAt: new Date(),
+      recordedById: recordedById || null,
+    }, { transaction });
+
+    await this.applyPayment(booking, payment, { changedById: recordedById, reason: 'Payment received' }, transaction);
+    return payment;
   }
 
-  async handleWebhook(payload: any, signature: string) {
+  async getPayments(bookingId: string): Promise<Payment[]> {
+    return Payment.findAll({
+      where: { bookingId },
+      order: [['createdAt', 'ASC']],
+    });
+  }
+
+  /**
+   * Verify and apply a webhook delivery. The raw request body is needed for the
+   * signature check. Each event is recorded with its effects in one transaction,
+   * so a redelivery after success is skipped and one after a failure is retried.
+   */
+  async handleWebhook(payload: Buffer, signature: string): Promise<WebhookResult> {
+    const gateway = this.getGateway();
+
+    let event: GatewayEvent;
     try {
-      const event = this.stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        config.STRIPE_WEBHOOK_SECRET
-      );
-
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          await this.handlePaymentSuccess(event.data.object);
-          break;
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailure(event.data.object);
-          break;
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
-      }
+      event = gateway.parseWebhook(payload, signature);
+    } catch (error: any) {
+      return { valid: false, message: `Webhook signature verification failed: ${error.message}` };
+    }
+
+    if (await this.isRecorded(gateway.name, event.id)) {
+      return { valid: true, duplicate: true };
+    }
+
+    try {
+      await sequelize.transaction(async (transaction) => {
+        const record = await PaymentEvent.create({
+          provider: gateway.name,
+          eventId: event.id,
+          eventType: event.providerType,
+          bookingId: null,
+          status: PaymentEventStatus.IGNORED,
+          payload: event.payload,
+        }, { transaction });
 
-      return { success: true };
-    } catch (error) {
+        let booking: Booking | null = null;
+        switch (event.type) {
+          case GatewayEventType.SUCCEEDED:
+            booking = await this.handlePaymentSuccess(event, transaction);
+            break;
+          case GatewayEventType.FAILED:
+            booking = await this.handlePaymentFailure(event, transaction);
+            break;
+          case GatewayEventType.REFUND_SUCCEEDED:
+          case GatewayEventType.REFUND_FAILED:
+            booking = await refundService.handleGatewayEvent(event, transaction);
+            break;
+          case GatewayEventType.REQUIRES_ACTION:
+            // Nothing changes until the customer completes the challenge
+            booking = await this.findBooking(event, transaction);
+            break;
+          default:
+            console.log(`Unhandled event type: ${event.providerType}`);
+        }
+
+        if (booking) {
+          await record.update({ bookingId: booking.id, status: PaymentEventStatus.PROCESSED }, { transaction });
+        }
+      });
+
+      return { valid: true };
+    } catch (error: any) {
+      // A redelivery that raced this one past the check recorded the event first;
+      // any other failure, including one from the event's own effects, is retried
+      if (error.name === 'SequelizeUniqueConstraintError' && await this.isRecorded(gateway.name, event.id)) {
+        return { valid: true, duplicate: true };
+      }
       console.error('Error handling webhook:', error);
       throw error;
     }
   }
 
-  private async handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
-    const bookingId = paymentIntent.metadata?.bookingId;
-    
-    if (!bookingId) {
+  private async isRecorded(provider: string, eventId: string): Promise<boolean> {
+    return (await PaymentEvent.count({ where: { provider, eventId } })) > 0;
+  }
+
+  private async findBooking(event: GatewayEvent, transaction: Transaction): Promise<Booking | null> {
+    if (!event.bookingId) {
       console.error('No booking ID in payment intent metadata');
-      return;
+      return null;
     }
 
-    try {
-      const booking = await Booking.findByPk(bookingId);
-      if (booking) {
-        await booking.update({
-          paymentStatus: 'paid',
-          status: 'confirmed' as BookingStatus,
-        });
-        
-        // Send confirmation email
-        // emailService.sendPaymentReceipt(booking);
+    return Booking.findByPk(event.bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+  }
+
+  private async findPayment(event: GatewayEvent, booking: Booking, transaction: Transaction): Promise<Payment | null> {
+    const where = event.paymentId
+      ? { id: event.paymentId, bookingId: booking.id }
+      : event.intentId ? { providerReference: event.intentId, bookingId: booking.id } : null;
+    if (!where) return null;
+
+    return Payment.findOne({ where, transaction, lock: transaction.LOCK.UPDATE });
+  }
+
+  /**
+   * Add a successful payment to the booking's totals, confirming the booking
+   * once it is secured. The booking must be locked. Only what is still owed
+   * counts towards the total; anything over is left for staff to refund.
+   */
+  private async applyPayment(booking: Booking, payment: Payment, change: StatusChange, transaction: Transaction) {
+    const amount = Number(payment.amount);
+    const isTip = payment.kind === PaymentKind.TIP;
+    const credited = isTip ? 0 : Math.min(amount, getAmountDue(booking, PaymentKind.BALANCE));
+    if (!isTip && credited < amount) {
+      console.error(`Booking ${booking.referenceNumber} overpaid by R${(amount - credited).toFixed(2)} on payment ${payment.id}`);
+    }
+    const amountPaid = round(Number(booking.amountPaid || 0) + credited);
+
+    await booking.update({
+      amountPaid,
+      tipAmount: round(Number(booking.tipAmount || 0) + (isTip ? amount : 0)),
+      paymentStatus: derivePaymentStatus(Number(booking.totalPrice), amountPaid),
+    }, { transaction });
+
+    // Paying confirms the booking, unless no detailer can take it yet
+    if (booking.status === BookingStatus.PENDING && isSecured(booking)) {
+      const check = await bookingStatusService.changeStatus(booking, BookingStatus.CONFIRMED, change, transaction);
+      if (!check.valid) {
+        console.error(`Booking ${booking.referenceNumber} paid but not confirmed: ${check.message}`);
       }
-    } catch (error) {
-      console.error('Error updating booking after payment:', error);
     }
   }
 
-  private async handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
-    const bookingId = paymentIntent.metadata?.bookingId;
-    
-    if (!bookingId) {
-      console.error('No booking ID in payment intent metadata');
-      return;
+  private async handlePaymentSuccess(event: GatewayEvent, transaction: Transaction): Promise<Booking | null> {
+    const booking = await this.findBooking(event, transaction);
+    if (!booking) return null;
+
+    const payment = await this.findPayment(event, booking, transaction);
+    if (payment?.status === PaymentRecordStatus.SUCCEEDED) return booking;
+    if (!payment && booking.paymentStatus === 'paid') return booking;
+
+    // Intents created before payments were itemised settle the balance
+    const settled = payment
+      ? await payment.update({ status: PaymentRecordStatus.SUCCEEDED, paidAt: new Date() }, { transaction })
+      : await Payment.create({
+          bookingId: booking.id,
+          kind: PaymentKind.BALANCE,
+          amount: event.amount ?? getAmountDue(booking, PaymentKind.BALANCE),
+          method: 'card',
+          status: PaymentRecordStatus.SUCCEEDED,
+          provider: this.getGateway().name,
+          providerReference: event.intentId || null,
+          paidAt: new Date(),
+        }, { transaction });
+
+    await booking.update({ transactionId: event.intentId }, { transaction });
+    await this.applyPayment(booking, settled, { reason: 'Card payment received' }, transaction);
+
+    transaction.afterCommit(() => {
+      Booking.findByPk(booking.id, { include: [{ model: Customer, as: 'customer' }] })
+        .then(paid => paid && emailService.sendPaymentReceipt(paid, settled))
+        .catch(error => console.error('Error sending payment receipt:', error));
+    });
+
+    return booking;
+  }
+
+  private async handlePaymentFailure(event: GatewayEvent, transaction: Transaction): Promise<Booking | null> {
+    const booking = await this.findBooking(event, transaction);
+    if (!booking) return null;
+
+    const payment = await this.findPayment(event, booking, transaction);
+    if (payment?.status === PaymentRecordStatus.SUCCEEDED) return booking;
+    if (payment) {
+      await payment.update({ status: PaymentRecordStatus.FAILED }, { transaction });
     }
 
-    try {
-      const booking = await Booking.findByPk(bookingId);
-      if (booking) {
-        await booking.update({
-          paymentStatus: 'failed',
-        });
-      }
-    } catch (error) {
-      console.error('Error updating booking after payment failure:', error);
+    // A declined top-up leaves whatever was paid before standing
+    if (Number(booking.amountPaid || 0) <= 0 && booking.paymentStatus !== 'paid') {
+      await booking.update({ paymentStatus: 'failed' }, { transaction });
     }
+
+    return booking;
   }
 }
 
-export const paymentService = new PaymentService();
\ No newline at end of file
+export const paymentService = new PaymentService();
@@ -0,0 +1,105 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, Customer, Promotion } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { toDateKey } from '../utils/dateUtils';
+
+export interface PromotionContext {
+  serviceType: string;
+  vehicleType: string;
+  customerEmail?: string; // per-customer limits are only checked when known
+  date?: string; // appointment date, defaults to today
+}
+
+export interface PromotionCheck {
+  valid: boolean;
+  message?: string;
+  promotion?: Promotion;
+}
+
+// Cancelled bookings give their promo use back
+const COUNTED_STATUSES = { [Op.ne]: BookingStatus.CANCELLED };
+
+export class PromotionService {
+  async findByCode(code: string, transaction?: Transaction): Promise<Promotion | null> {
+    return Promotion.findOne({ where: { code: code.trim().toUpperCase() }, transaction });
+  }
+
+  /**
+   * Check whether a promo code can be used for a booking. Inside a transaction
+   * the promotion stays locked so concurrent bookings cannot exceed its limits.
+   */
+  async checkPromotion(code: string, context: PromotionContext, transaction?: Transaction): Promise<PromotionCheck> {
+    const promotion = await this.findByCode(code, transaction);
+    if (!promotion || !promotion.active) {
+      return { valid: false, message: 'Promo code not found' };
+    }
+
+    if (transaction) {
+      await this.lockPromotion(promotion.id, transaction);
+    }
+
+    const date = context.date || toDateKey(new Date());
+    if (promotion.validFrom && date < promotion.validFrom) {
+      return { valid: false, message: `Promo code is only valid from ${promotion.validFrom}` };
+    }
+    if (promotion.validUntil && date > promotion.validUntil) {
+      return { valid: false, message: 'Promo code has expired' };
+    }
+
+    if (promotion.serviceTypes.length > 0 && !promotion.serviceTypes.includes(context.serviceType)) {
+      return { valid: false, message: 'Promo code does not apply to this service' };
+    }
+    if (promotion.vehicleTypes.length > 0 && !promotion.vehicleTypes.includes(context.vehicleType.toUpperCase())) {
+      return { valid: false, message: 'Promo code does not apply to this vehicle type' };
+    }
+
+    if (promotion.maxUses) {
+      const uses = await Booking.count({
+        where: { promotionId: promotion.id, status: COUNTED_STATUSES },
+        transaction,
+      });
+      if (uses >= promotion.maxUses) {
+        return { valid: false, message: 'Promo code has reached its usage limit' };
+      }
+    }
+
+    if (context.customerEmail && (promotion.maxUsesPerCustomer || promotion.firstBookingOnly)) {
+      const customer = await Customer.findOne({ where: { email: context.customerEmail }, transaction });
+
+      if (customer && promotion.firstBookingOnly) {
+        const previous = await Booking.count({
+          where: { customerId: customer.id, status: COUNTED_STATUSES },
+          transaction,
+        });
+        if (previous > 0) {
+          return { valid: false, message: 'Promo code is only valid on your first booking' };
+        }
+      }
+
+      if (customer && promotion.maxUsesPerCustomer) {
+        const customerUses = await Booking.count({
+          where: { customerId: customer.id, promotionId: promotion.id, status: COUNTED_STATUSES },
+          transaction,
+        });
+        if (customerUses >= promotion.maxUsesPerCustomer) {
+          return { valid: false, message: 'You have already used this promo code' };
+        }
+      }
+    }
+
+    return { valid: true, promotion };
+  }
+
+  /**
+   * Serialize redemptions of a promotion until the transaction ends
+   */
+  async lockPromotion(promotionId: string, transaction: Transaction): Promise<void> {
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+      replacements: { key: `promotion:${promotionId}` },
+      transaction,
+    });
+  }
+}
+
+export const promotionService = new PromotionService();
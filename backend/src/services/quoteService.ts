@@ -0,0 +1,105 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config/env';
+import { Quote } from '../models';
+import { PricePreview, QuoteResponse } from '../types';
+import { calculatePriceBreakdown, buildLineItems, PriceCalculationInput } from '../utils/priceCalculator';
+
+export interface QuoteCheck {
+  valid: boolean;
+  message?: string;
+  quote?: Quote;
+}
+
+const normalizeExtras = (extras: string[] = []) =>
+  extras.map(extra => extra.toUpperCase()).sort().join(',');
+
+export class QuoteService {
+  /**
+   * Price a request without storing it, or null when the service does not exist
+   */
+  async previewQuote(input: PriceCalculationInput): Promise<PricePreview | null> {
+    const breakdown = await calculatePriceBreakdown(input);
+    if (!breakdown) return null;
+
+    return { ...breakdown, lineItems: buildLineItems(breakdown) };
+  }
+
+  /**
+   * Price a request and store the result as a quote, or null when the service does not exist
+   */
+  async createQuote(input: PriceCalculationInput): Promise<QuoteResponse | null> {
+    const preview = await this.previewQuote(input);
+    if (!preview) return null;
+
+    const { lineItems, ...breakdown } = preview;
+    const quote = await Quote.create({
+      serviceType: breakdown.service,
+      vehicleType: breakdown.vehicleType,
+      condition: breakdown.condition || null,
+      extras: breakdown.extras,
+      promotionId: breakdown.discount?.promotionId || null,
+      discountAmount: breakdown.discount?.amount || 0,
+      travelFee: breakdown.travel?.fee || 0,
+      lineItems,
+      totalPrice: breakdown.totalPrice,
+      expiresAt: new Date(Date.now() + config.QUOTE_TTL_MINUTES * 60 * 1000),
+    });
+
+    return {
+      ...breakdown,
+      quoteId: quote.id,
+      lineItems,
+      expiresAt: quote.expiresAt,
+    };
+  }
+
+  /**
+   * Check that a quote exists, is unused, has not expired and matches what is being booked
+   */
+  async checkQuote(
+    quoteId: string,
+    input: PriceCalculationInput & { totalPrice?: number },
+    transaction?: Transaction
+  ): Promise<QuoteCheck> {
+    const quote = await Quote.findByPk(quoteId, {
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+
+    if (!quote) {
+      return { valid: false, message: 'Quote not found' };
+    }
+
+    if (quote.bookingId) {
+      return { valid: false, message: 'Quote has already been used' };
+    }
+
+    if (quote.expiresAt.getTime() < Date.now()) {
+      return { valid: false, message: 'Quote has expired, please request a new price' };
+    }
+
+    const matches =
+      quote.serviceType === input.serviceType &&
+      quote.vehicleType === input.vehicleType.toUpperCase() &&
+      (quote.condition || null) === (input.condition ? input.condition.toUpperCase() : null) &&
+      normalizeExtras(quote.extras) === normalizeExtras(input.extras) &&
+      (quote.promotionId || null) === (input.promotion?.id || null) &&
+      parseFloat((quote.travelFee || 0).toString()) === (input.travel?.fee || 0);
+
+    const quotedTotal = parseFloat(quote.totalPrice.toString());
+    if (!matches || (input.totalPrice !== undefined && Number(input.totalPrice) !== quotedTotal)) {
+      return { valid: false, message: 'Booking details do not match the quote' };
+    }
+
+    return { valid: true, quote };
+  }
+
+  /**
+   * Mark a quote as used by a booking
+   */
+  async redeemQuote(quote: Quote, bookingId: string, transaction?: Transaction): Promise<void> {
+    await quote.update({ bookingId }, { transaction });
+  }
+}
+
+export const quoteService = new QuoteService();
@@ -0,0 +1,44 @@
+import { RecurrenceFrequency } from '../models/RecurringBooking';
+import { getOccurrenceDates } from './recurringBookingService';
+
+describe('getOccurrenceDates', () => {
+  it('repeats weekly from the start date', () => {
+    const rule = { frequency: RecurrenceFrequency.WEEKLY, startDate: '2025-03-04' };
+
+    expect(getOccurrenceDates(rule, '2025-03-01', '2025-03-25')).toEqual([
+      '2025-03-04',
+      '2025-03-11',
+      '2025-03-18',
+      '2025-03-25',
+    ]);
+  });
+
+  it('only returns dates inside the window', () => {
+    const rule = { frequency: RecurrenceFrequency.BIWEEKLY, startDate: '2025-01-07' };
+
+    expect(getOccurrenceDates(rule, '2025-02-01', '2025-03-01')).toEqual(['2025-02-04', '2025-02-18']);
+  });
+
+  it('stops at the end date', () => {
+    const rule = { frequency: RecurrenceFrequency.WEEKLY, startDate: '2025-03-04', endDate: '2025-03-12' };
+
+    expect(getOccurrenceDates(rule, '2025-03-01', '2025-12-31')).toEqual(['2025-03-04', '2025-03-11']);
+  });
+
+  it('counts occurrences from the start date, even before the window', () => {
+    const rule = { frequency: RecurrenceFrequency.WEEKLY, startDate: '2025-03-04', occurrences: 3 };
+
+    expect(getOccurrenceDates(rule, '2025-03-10', '2025-12-31')).toEqual(['2025-03-11', '2025-03-18']);
+  });
+
+  it('keeps the start day each month, clamped to shorter months', () => {
+    const rule = { frequency: RecurrenceFrequency.MONTHLY, startDate: '2024-01-31' };
+
+    expect(getOccurrenceDates(rule, '2024-01-01', '2024-04-30')).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+  });
+});
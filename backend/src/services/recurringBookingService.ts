@@ -0,0 +1,287 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { config } from '../config/env';
+import { Booking, RecurringBooking, Service } from '../models';
+import { BookingStatus, AppointmentType } from '../models/Booking';
+import { RecurrenceFrequency, RecurringBookingStatus } from '../models/RecurringBooking';
+import { TravelCharge } from '../types';
+import { calculatePriceBreakdown } from '../utils/priceCalculator';
+import { generateReferenceNumber } from '../utils/helpers';
+import { addDays, addMonths, combineDateTime, formatDateYYYYMMDD, fromDateKey, toDateKey } from '../utils/dateUtils';
+import { businessHoursService } from './businessHoursService';
+import { serviceAreaService } from './serviceAreaService';
+import { schedulingService } from './schedulingService';
+import { bookingStatusService } from './bookingStatusService';
+import { depositService } from './depositService';
+import { RefundQuote } from './cancellationService';
+
+export interface OccurrenceIssue {
+  date: string;
+  reason: string;
+}
+
+export interface MaterialiseReport {
+  created: Booking[];
+  skipped: OccurrenceIssue[]; // closed days and occurrences already in the past
+  clashes: OccurrenceIssue[]; // no bay, van or detailer free at the series time
+}
+
+export interface CancelledOccurrence {
+  bookingId: string;
+  date: string;
+  refund?: RefundQuote & { refundIds?: string[] };
+}
+
+type RecurrenceRule = Pick<RecurringBooking, 'frequency' | 'startDate' | 'endDate' | 'occurrences'>;
+
+// Bookings from a series that can still be called off
+const OPEN_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+/**
+ * Dates a rule falls on between two YYYY-MM-DD dates (inclusive), honouring its
+ * end date and occurrence count. Monthly series keep the start day, clamped to
+ * the end of shorter months.
+ */
+export function getOccurrenceDates(rule: RecurrenceRule, from: string, to: string): string[] {
+  const start = fromDateKey(rule.startDate);
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const dates: string[] = [];
+
+  for (let index = 0; !rule.occurrences || index < rule.occurrences; index++) {
+    const date = toDateKey(
+      rule.frequency === RecurrenceFrequency.MONTHLY
+        ? addMonths(start, index)
+        : addDays(start, index * (rule.frequency === RecurrenceFrequency.BIWEEKLY ? 14 : 7))
+    );
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+export class RecurringBookingService {
+  /**
+   * Create the series' bookings from today up to the booking horizon. Dates that
+   * already have a booking from the series, or that the customer skipped, are left alone.
+   */
+  async materialise(rule: RecurringBooking, now: Date = new Date()): Promise<MaterialiseReport> {
+    const report: MaterialiseReport = { created: [], skipped: [], clashes: [] };
+    if (rule.status !== RecurringBookingStatus.ACTIVE) return report;
+
+    const today = toDateKey(now);
+    const horizon = toDateKey(addDays(now, config.RECURRING_HORIZON_DAYS));
+    const dates = getOccurrenceDates(rule, today, horizon).filter(date => !rule.skippedDates.includes(date));
+    if (dates.length === 0) return report;
+
+    const existing = await Booking.findAll({
+      where: { recurringBookingId: rule.id, date: { [Op.in]: dates } },
+      attributes: ['date'],
+    });
+    const booked = new Set(existing.map(booking => formatDateYYYYMMDD(booking.date)));
+
+    // The service area may have shrunk since the series was set up
+    const areaCheck = rule.serviceAddress ? serviceAreaService.checkLocation(rule.serviceAddress) : null;
+
+    const service = await Service.findOne({ where: { name: rule.serviceType, active: true } });
+    const breakdown = service
+      ? await calculatePriceBreakdown({
+          serviceType: rule.serviceType,
+          vehicleType: rule.vehicleType,
+          extras: rule.extras,
+          condition: rule.condition || undefined,
+          travel: areaCheck?.travel,
+        })
+      : null;
+
+    for (const date of dates.filter(date => !booked.has(date))) {
+      if (combineDateTime(date, rule.time) <= now) {
+        report.skipped.push({ date, reason: 'Occurrence time has already passed' });
+        continue;
+      }
+
+      const closure = await businessHoursService.getClosureReason(date);
+      if (closure) {
+        report.skipped.push({ date, reason: `Closed: ${closure}` });
+        continue;
+      }
+
+      if (!service || !breakdown) {
+        report.clashes.push({ date, reason: `${rule.serviceType} is no longer offered` });
+        continue;
+      }
+
+      if (areaCheck && !areaCheck.valid) {
+        report.clashes.push({ date, reason: areaCheck.message! });
+        continue;
+      }
+
+      if (!(await schedulingService.fitsBusinessHours(date, rule.time, service.duration))) {
+        report.clashes.push({ date, reason: 'Series time is outside business hours on this day' });
+        continue;
+      }
+
+      const result = await sequelize.transaction(async (transaction) => {
+        await schedulingService.lockDate(date, transaction);
+
+        // Another run may have booked the date since the check above
+        if (await Booking.findOne({ where: { recurringBookingId: rule.id, date }, transaction })) {
+          return null;
+        }
+        return this.createOccurrence(rule, date, service.duration, breakdown.totalPrice, areaCheck?.travel, transaction);
+      });
+
+      if (result === null) continue;
+      if (result instanceof Booking) {
+        report.created.push(result);
+      } else {
+        report.clashes.push({ date, reason: result });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Top up every active series, e.g. from a daily job
+   */
+  async materialiseAll(now: Date = new Date()): Promise<MaterialiseReport> {
+    const rules = await RecurringBooking.findAll({ where: { status: RecurringBookingStatus.ACTIVE } });
+    const report: MaterialiseReport = { created: [], skipped: [], clashes: [] };
+
+    for (const rule of rules) {
+      const result = await this.materialise(rule, now);
+      report.created.push(...result.created);
+      report.skipped.push(...result.skipped);
+      report.clashes.push(...result.clashes);
+    }
+
+    return report;
+  }
+
+  /**
+   * Opt out of one occurrence, cancelling its booking if it was already created
+   */
+  async skipOccurrence(
+    rule: RecurringBooking,
+    date: string,
+    changedById?: string | null
+  ): Promise<{ valid: boolean; message?: string; cancelled?: CancelledOccurrence }> {
+    if (!getOccurrenceDates(rule, date, date).includes(date)) {
+      return { valid: false, message: 'The series has no occurrence on that date' };
+    }
+
+    return sequelize.transaction(async (transaction) => {
+      if (!rule.skippedDates.includes(date)) {
+        await rule.update({ skippedDates: [...rule.skippedDates, date] }, { transaction });
+      }
+
+      const booking = await Booking.findOne({
+        where: { recurringBookingId: rule.id, date, status: { [Op.in]: OPEN_STATUSES } },
+        transaction,
+      });
+      if (!booking) return { valid: true };
+
+      const change = await bookingStatusService.changeStatus(booking, BookingStatus.CANCELLED, {
+        changedById,
+        reason: 'Occurrence skipped',
+      }, transaction);
+      return { valid: true, cancelled: { bookingId: booking.id, date, refund: change.refund } };
+    });
+  }
+
+  /**
+   * End the series and cancel its upcoming bookings
+   */
+  async cancelSeries(rule: RecurringBooking, changedById?: string | null): Promise<CancelledOccurrence[]> {
+    return sequelize.transaction(async (transaction) => {
+      await rule.update({ status: RecurringBookingStatus.CANCELLED }, { transaction });
+
+      const upcoming = await Booking.findAll({
+        where: {
+          recurringBookingId: rule.id,
+          date: { [Op.gte]: toDateKey(new Date()) },
+          status: { [Op.in]: OPEN_STATUSES },
+        },
+        order: [['date', 'ASC']],
+        transaction,
+      });
+
+      const cancelled: CancelledOccurrence[] = [];
+      for (const booking of upcoming) {
+        const change = await bookingStatusService.changeStatus(booking, BookingStatus.CANCELLED, {
+          changedById,
+          reason: 'Recurring series cancelled',
+        }, transaction);
+        if (change.valid) {
+          cancelled.push({ bookingId: booking.id, date: formatDateYYYYMMDD(booking.date), refund: change.refund });
+        }
+      }
+      return cancelled;
+    });
+  }
+
+  /**
+   * Book one occurrence in a free bay or van, or explain why it could not be
+   */
+  private async createOccurrence(
+    rule: RecurringBooking,
+    date: string,
+    duration: number,
+    totalPrice: number,
+    travel: TravelCharge | undefined,
+    transaction: Transaction
+  ): Promise<Booking | string> {
+    const slot = {
+      date,
+      time: rule.time,
+      duration,
+      appointmentType: rule.appointmentType,
+      serviceType: rule.serviceType,
+      location: rule.serviceAddress || undefined,
+    };
+
+    const resourceId = await schedulingService.findAvailableResource(slot, transaction);
+    if (!resourceId) return 'No bay or mobile unit is free at the series time';
+
+    if (
+      (await schedulingService.isStaffingEnabled(transaction)) &&
+      !(await schedulingService.findAvailableStaff(slot, transaction))
+    ) {
+      return 'No detailer is available at the series time';
+    }
+
+    const isMobile = rule.appointmentType === AppointmentType.MOBILE;
+    const booking = await Booking.create({
+      customerId: rule.customerId,
+      recurringBookingId: rule.id,
+      date: fromDateKey(date),
+      time: rule.time,
+      serviceType: rule.serviceType,
+      vehicleType: rule.vehicleType,
+      vehicleYear: rule.vehicleYear || undefined,
+      vehicleMake: rule.vehicleMake || undefined,
+      vehicleModel: rule.vehicleModel || undefined,
+      condition: rule.condition || undefined,
+      extras: rule.extras,
+      appointmentType: rule.appointmentType,
+      bayId: isMobile ? null : resourceId,
+      mobileUnitId: isMobile ? resourceId : null,
+      serviceAddress: isMobile ? rule.serviceAddress : null,
+      travelDistanceKm: travel?.distanceKm ?? null,
+      travelFee: travel?.fee || 0,
+      totalPrice,
+      depositAmount: await depositService.getDeposit(rule.serviceType, rule.appointmentType, totalPrice, transaction),
+      status: BookingStatus.PENDING,
+      paymentMethod: rule.paymentMethod,
+      paymentStatus: 'pending',
+      notes: rule.notes || undefined,
+      referenceNumber: generateReferenceNumber(),
+    }, { transaction });
+
+    await bookingStatusService.recordHistory(booking, null, { reason: 'Created from recurring booking' }, transaction);
+    return booking;
+  }
+}
+
+export const recurringBookingService = new RecurringBookingService();
@@ -0,0 +1,151 @@
+import { Booking, Payment, Refund } from '../models';
+import { BookingStatus } from '../models/Booking';
+import { PaymentKind, PaymentRecordStatus } from '../models/Payment';
+import { RefundStatus } from '../models/Refund';
+import { buildBooking } from '../test/bookingFactory';
+import { mockTransaction } from '../test/transaction';
+import { GatewayEventType } from './paymentGateway';
+import { loyaltyService } from './loyaltyService';
+import { deriveRefundStatus, refundService } from './refundService';
+
+const payment = (kind: PaymentKind, amount: number, paidAt: Date) => Payment.build({
+  bookingId: 'booking-1',
+  kind,
+  amount,
+  method: 'card',
+  status: PaymentRecordStatus.SUCCEEDED,
+  provider: 'fake',
+  providerReference: `pi_${kind}`,
+  paidAt,
+});
+
+const refund = (amount: number, paymentId: string | null, status = RefundStatus.PROCESSED) => Refund.build({
+  bookingId: 'booking-1',
+  paymentId,
+  amountPaid: amount,
+  amount,
+  reason: 'Cancelled',
+  status,
+});
+
+describe('deriveRefundStatus', () => {
+  it('is refunded once everything received has gone back, tips included', () => {
+    const booking = buildBooking({ amountPaid: 250, tipAmount: 50 });
+
+    expect(deriveRefundStatus(booking, 250)).toBe('partially_refunded');
+    expect(deriveRefundStatus(booking, 300)).toBe('refunded');
+  });
+});
+
+describe('refundService', () => {
+  const deposit = payment(PaymentKind.DEPOSIT, 100, new Date(2025, 2, 1));
+  const balance = payment(PaymentKind.BALANCE, 150, new Date(2025, 2, 4));
+  const tip = payment(PaymentKind.TIP, 30, new Date(2025, 2, 5));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getRefundable', () => {
+    it('lists what is left of each payment, newest first with tips last', async () => {
+      jest.spyOn(Payment, 'findAll').mockResolvedValue([tip, balance, deposit]);
+      jest.spyOn(Refund, 'findAll').mockResolvedValue([refund(50, balance.id)]);
+
+      const shares = await refundService.getRefundable(buildBooking({ amountPaid: 250, tipAmount: 30 }));
+
+      expect(shares.map(share => [share.payment?.kind, share.amount])).toEqual([
+        [PaymentKind.BALANCE, 100],
+        [PaymentKind.DEPOSIT, 100],
+        [PaymentKind.TIP, 30],
+      ]);
+    });
+
+    it('refunds what was paid before payments were itemised as one share', async () => {
+      jest.spyOn(Payment, 'findAll').mockResolvedValue([deposit]);
+      jest.spyOn(Refund, 'findAll').mockResolvedValue([refund(20, null)]);
+
+      const shares = await refundService.getRefundable(buildBooking({ amountPaid: 250 }));
+
+      expect(shares).toEqual([{ payment: deposit, amount: 100 }, { payment: null, amount: 130 }]);
+    });
+  });
+
+  describe('createRefunds', () => {
+    it('splits a refund across payments and keeps the rest of the last as a fee', async () => {
+      const { transaction } = mockTransaction();
+      jest.spyOn(Payment, 'findAll').mockResolvedValue([balance, deposit]);
+      jest.spyOn(Refund, 'findAll').mockResolvedValue([]);
+      jest.spyOn(Refund, 'create').mockImplementation(async values => values as unknown as Refund);
+
+      const refunds = await refundService.createRefunds(
+        buildBooking({ amountPaid: 250 }),
+        200,
+        { reason: 'Late cancellation', withholdsFee: true },
+        'staff-1',
+        transaction
+      );
+
+      expect(refunds).toEqual([
+        expect.objectContaining({ paymentId: balance.id, provider: 'fake', amount: 150, fee: 0 }),
+        expect.objectContaining({ paymentId: deposit.id, paymentReference: 'pi_deposit', amount: 50, fee: 50 }),
+      ]);
+    });
+  });
+
+  describe('applyOutcome', () => {
+    let booking: Booking;
+
+    beforeEach(() => {
+      booking = buildBooking({ status: BookingStatus.COMPLETED, amountPaid: 250, amountRefunded: 50 });
+      jest.spyOn(booking, 'update').mockImplementation(async values => booking.set(values as Partial<Booking>));
+      jest.spyOn(Booking, 'findByPk').mockResolvedValue(booking);
+      jest.spyOn(loyaltyService, 'reverseForRefund').mockResolvedValue(null);
+    });
+
+    it('counts a paid-out refund against the booking and its points', async () => {
+      const { transaction, afterCommit } = mockTransaction();
+      const pending = refund(100, balance.id, RefundStatus.PENDING);
+      jest.spyOn(pending, 'update').mockImplementation(async values => pending.set(values as Partial<Refund>));
+
+      await refundService.applyOutcome(pending, RefundStatus.PROCESSED, transaction);
+
+      expect(pending.status).toBe(RefundStatus.PROCESSED);
+      expect(booking.amountRefunded).toBe(150);
+      expect(booking.paymentStatus).toBe('partially_refunded');
+      expect(loyaltyService.reverseForRefund).toHaveBeenCalledWith(booking, 50, 150, transaction);
+      expect(afterCommit).toHaveLength(1);
+    });
+
+    it('leaves the booking alone when a refund fails', async () => {
+      const { transaction, afterCommit } = mockTransaction();
+      const pending = refund(100, balance.id, RefundStatus.PENDING);
+      jest.spyOn(pending, 'update').mockImplementation(async values => pending.set(values as Partial<Refund>));
+
+      await refundService.applyOutcome(pending, RefundStatus.FAILED, transaction, 'Card expired');
+
+      expect(pending).toMatchObject({ status: RefundStatus.FAILED, failureReason: 'Card expired' });
+      expect(booking.update).not.toHaveBeenCalled();
+      expect(loyaltyService.reverseForRefund).not.toHaveBeenCalled();
+      expect(afterCommit).toHaveLength(0);
+    });
+  });
+
+  describe('handleGatewayEvent', () => {
+    it('leaves a refund that is already settled alone', async () => {
+      const { transaction } = mockTransaction();
+      jest.spyOn(Refund, 'findByPk').mockResolvedValue(refund(100, balance.id));
+      jest.spyOn(Booking, 'findByPk').mockResolvedValue(buildBooking());
+      const applyOutcome = jest.spyOn(refundService, 'applyOutcome');
+
+      await refundService.handleGatewayEvent({
+        id: 'evt_1',
+        type: GatewayEventType.REFUND_SUCCEEDED,
+        providerType: 'refund.succeeded',
+        refundId: 'refund-1',
+        payload: {},
+      }, transaction);
+
+      expect(applyOutcome).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Booking, Customer, Payment, Refund } from '../models';
+import { PaymentKind, PaymentRecordStatus } from '../models/Payment';
+import { RefundStatus } from '../models/Refund';
+import { PaymentGateway, GatewayEvent, GatewayEventType } from './paymentGateway';
+import { getPaymentGateway } from './paymentProvider';
+import { loyaltyService } from './loyaltyService';
+import { emailService } from './emailService';
+
+export interface RefundDetails {
+  reason: string;
+  withholdsFee?: boolean; // what is kept back of each payment is a fee, e.g. for a late cancellation
+}
+
+// What is left to refund of one payment
+export interface RefundableShare {
+  payment: Payment | null; // null for payments made before they were itemised
+  amount: number;
+}
+
+export interface RefundCheck {
+  valid: boolean;
+  message?: string;
+  refunds?: Refund[];
+}
+
+// Refunds paid out or on their way count against what is left to refund
+const OUTSTANDING_STATUSES = [RefundStatus.PENDING, RefundStatus.PROCESSED];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Payment status of a booking once it has refunded an amount of what it received
+ */
+export function deriveRefundStatus(booking: Booking, amountRefunded: number): 'partially_refunded' | 'refunded' {
+  const received = Number(booking.amountPaid || 0) + Number(booking.tipAmount || 0);
+  return amountRefunded >= received ? 'refunded' : 'partially_refunded';
+}
+
+export class RefundService {
+  private gateway: PaymentGateway | null;
+
+  constructor(gateway?: PaymentGateway) {
+    this.gateway = gateway || null;
+  }
+
+  getGateway(): PaymentGateway {
+    return this.gateway || getPaymentGateway();
+  }
+
+  /**
+   * What is left to refund of each payment on a booking, newest first with tips last
+   */
+  async getRefundable(booking: Booking, transaction?: Transaction): Promise<RefundableShare[]> {
+    const payments = await Payment.findAll({
+      where: { bookingId: booking.id, status: PaymentRecordStatus.SUCCEEDED },
+      order: [['paidAt', 'DESC']],
+      transaction,
+    });
+    payments.sort((a, b) => Number(a.kind === PaymentKind.TIP) - Number(b.kind === PaymentKind.TIP));
+
+    const refunds = await Refund.findAll({
+      where: { bookingId: booking.id, status: { [Op.in]: OUTSTANDING_STATUSES } },
+      transaction,
+    });
+
+    const refundedFrom = (paymentId: string | null) => round(refunds
+      .filter(refund => (refund.paymentId || null) === paymentId)
+      .reduce((sum, refund) => sum + Number(refund.amount), 0));
+
+    const shares: RefundableShare[] = payments.map(payment => ({
+      payment,
+      amount: round(Number(payment.amount) - refundedFrom(payment.id)),
+    }));
+
+    // Bookings paid before payments were itemised have no payment to refund against
+    const itemised = payments
+      .filter(payment => payment.kind !== PaymentKind.TIP)
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const unitemised = round(Number(booking.amountPaid || 0) - itemised - refundedFrom(null));
+    if (unitemised > 0) {
+      shares.push({ payment: null, amount: unitemised });
+    }
+
+    return shares.filter(share => share.amount > 0);
+  }
+
+  /**
+   * Record a refund of an amount, split across the booking's payments newest
+   * first. Each refund goes back the way its payment came in; call submit()
+   * once the transaction commits to send card refunds to the provider.
+   */
+  async createRefunds(
+    booking: Booking,
+    amount: number,
+    details: RefundDetails,
+    requestedById: string | null | undefined,
+    transaction: Transaction
+  ): Promise<Refund[]> {
+    const refunds: Refund[] = [];
+    let remaining = round(amount);
+
+    for (const share of await this.getRefundable(booking, transaction)) {
+      if (remaining <= 0) break;
+
+      const refunded = Math.min(share.amount, remaining);
+      refunds.push(await Refund.create({
+        bookingId: booking.id,
+        paymentId: share.payment?.id || null,
+        paymentReference: share.payment ? share.payment.providerReference || null : booking.transactionId || null,
+        provider: share.payment?.provider || null,
+        amountPaid: share.amount,
+        fee: details.withholdsFee ? round(share.amount - refunded) : 0,
+        amount: refunded,
+        reason: details.reason,
+        requestedById: requestedById || null,
+      }, { transaction }));
+
+      remaining = round(remaining - refunded);
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Refund a booking in full, or an amount of it, through the payment provider
+   */
+  async refundBooking(
+    booking: Booking,
+    request: { amount?: number; reason: string },
+    requestedById: string | null | undefined
+  ): Promise<RefundCheck> {
+    const result = await sequelize.transaction(async (transaction): Promise<RefundCheck> => {
+      await booking.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+      const refundable = round((await this.getRefundable(booking, transaction))
+        .reduce((sum, share) => sum + share.amount, 0));
+      if (refundable <= 0) {
+        return { valid: false, message: 'Nothing is left to refund on this booking' };
+      }
+
+      const amount = request.amount ?? refundable;
+      if (amount > refundable) {
+        return { valid: false, message: `Only R${refundable.toFixed(2)} is left to refund on this booking` };
+      }
+
+      const refunds = await this.createRefunds(booking, amount, { reason: request.reason }, requestedById, transaction);
+      return { valid: true, refunds };
+    });
+
+    if (result.refunds) {
+      await this.submit(result.refunds);
+    }
+    return result;
+  }
+
+  /**
+   * Send pending card refunds to the provider. The outcome arrives by webhook;
+   * a refund the provider turns down straight away is marked failed.
+   */
+  async submit(refunds: Refund[]): Promise<void> {
+    const gateway = this.getGateway();
+
+    for (const refund of refunds) {
+      if (refund.status !== RefundStatus.PENDING || !refund.provider || refund.providerRefundId) continue;
+
+      // Cash, and payments taken through a provider no longer in use, are refunded by hand
+      if (refund.provider !== gateway.name || !refund.paymentReference) {
+        console.error(`Refund ${refund.id} must be paid out by hand: the payment went through ${refund.provider}`);
+        continue;
+      }
+
+      try {
+        const submitted = await gateway.createRefund({
+          intentId: refund.paymentReference,
+          amount: Number(refund.amount),
+          metadata: {
+            bookingId: refund.bookingId,
+            refundId: refund.id,
+          },
+        });
+        await refund.update({ providerRefundId: submitted.id });
+      } catch (error: any) {
+        console.error(`Error submitting refund ${refund.id}:`, error);
+        await refund.update({ status: RefundStatus.FAILED, failureReason: error.message });
+      }
+    }
+  }
+
+  /**
+   * Settle a pending refund. A paid-out refund counts against the booking's
+   * payments and the customer is told once the change commits.
+   */
+  async applyOutcome(
+    refund: Refund,
+    status: RefundStatus.PROCESSED | RefundStatus.FAILED,
+    transaction: Transaction,
+    failureReason?: string
+  ): Promise<Booking | null> {
+    const booking = await Booking.findByPk(refund.bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+
+    await refund.update({
+      status,
+      processedAt: status === RefundStatus.PROCESSED ? new Date() : null,
+      failureReason: status === RefundStatus.FAILED ? failureReason || null : null,
+    }, { transaction });
+
+    if (booking && status === RefundStatus.PROCESSED) {
+      const refundedBefore = Number(booking.amountRefunded || 0);
+      const amountRefunded = round(refundedBefore + Number(refund.amount));
+      await booking.update({
+        amountRefunded,
+        paymentStatus: deriveRefundStatus(booking, amountRefunded),
+      }, { transaction });
+
+      // Points and spend follow the money back to the customer
+      await loyaltyService.reverseForRefund(booking, refundedBefore, amountRefunded, transaction);
+
+      transaction.afterCommit(() => {
+        Booking.findByPk(booking.id, { include: [{ model: Customer, as: 'customer' }] })
+          .then(refunded => refunded && emailService.sendRefundNotification(refunded, refund))
+          .catch(error => console.error('Error sending refund email:', error));
+      });
+    }
+
+    return booking;
+  }
+
+  /**
+   * Apply a refund webhook. Refunds already settled are left alone.
+   */
+  async handleGatewayEvent(event: GatewayEvent, transaction: Transaction): Promise<Booking | null> {
+    if (!event.refundId) {
+      console.error('No refund ID in refund metadata');
+      return null;
+    }
+
+    const refund = await Refund.findByPk(event.refundId, { transaction, lock: transaction.LOCK.UPDATE });
+    if (!refund) return null;
+
+    if (refund.status !== RefundStatus.PENDING) {
+      return Booking.findByPk(refund.bookingId, { transaction });
+    }
+
+    const status = event.type === GatewayEventType.REFUND_SUCCEEDED ? RefundStatus.PROCESSED : RefundStatus.FAILED;
+    return this.applyOutcome(refund, status, transaction, event.failureReason);
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,142 @@
+import { Op } from 'sequelize';
+import { Booking, Service } from '../models';
+import { BookingStatus, AppointmentType } from '../models/Booking';
+import { GeoPoint } from '../utils/geo';
+import { timeToMinutes, minutesToTime } from '../utils/dateUtils';
+import { ACTIVE_BOOKING_STATUSES, DEFAULT_DURATION_MINUTES } from './schedulingService';
+import { serviceAreaService, estimateRoadKm, estimateTravelMinutes, formatServiceAddress } from './serviceAreaService';
+
+export interface RouteStop {
+  bookingId: string;
+  referenceNumber: string;
+  serviceType: string;
+  address: string;
+  location: GeoPoint;
+  bookedTime: string; // HH:MM the customer booked
+  distanceKm: number; // estimated road distance from the previous stop
+  travelMinutes: number;
+  arriveAt: string; // HH:MM
+  startAt: string; // HH:MM, later than booked when the van cannot get there in time
+  finishAt: string; // HH:MM
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface RouteLeg {
+  distanceKm: number;
+  travelMinutes: number;
+  arriveAt: string; // HH:MM
+}
+
+export interface RoutePlan {
+  mobileUnitId: string;
+  date: string;
+  departAt: string | null; // HH:MM leaving the studio, null with no stops
+  stops: RouteStop[];
+  returnLeg: RouteLeg | null; // back to the studio after the last job
+  totalDistanceKm: number;
+  totalTravelMinutes: number;
+  unplanned: { bookingId: string; referenceNumber: string; bookedTime: string; reason: string }[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export class RoutePlanningService {
+  /**
+   * A van's itinerary for a day: out from the studio, each job in turn, and back.
+   * Customers booked their times, so stops follow them; travel is kept down when
+   * each job is given the van least out of its way (see getReachableVans).
+   */
+  async planRoute(mobileUnitId: string, date: string): Promise<RoutePlan> {
+    const bookings = await Booking.findAll({
+      where: {
+        mobileUnitId,
+        date,
+        appointmentType: AppointmentType.MOBILE,
+        status: { [Op.in]: [...ACTIVE_BOOKING_STATUSES, BookingStatus.COMPLETED] },
+      },
+      order: [['time', 'ASC']],
+    });
+
+    const services = await Service.findAll({
+      where: { name: { [Op.in]: [...new Set(bookings.map(booking => booking.serviceType))] } },
+    });
+    const durations = new Map(services.map(service => [service.name, service.duration]));
+
+    const plan: RoutePlan = {
+      mobileUnitId,
+      date,
+      departAt: null,
+      stops: [],
+      returnLeg: null,
+      totalDistanceKm: 0,
+      totalTravelMinutes: 0,
+      unplanned: [],
+    };
+
+    const studio = serviceAreaService.getServiceArea().centre;
+    let position = studio;
+    let freeAt: number | null = null; // when the van finished its last job
+
+    for (const booking of bookings) {
+      if (!booking.serviceAddress) {
+        plan.unplanned.push({
+          bookingId: booking.id,
+          referenceNumber: booking.referenceNumber,
+          bookedTime: booking.time,
+          reason: 'Booking has no service address',
+        });
+        continue;
+      }
+
+      const location = { latitude: booking.serviceAddress.latitude, longitude: booking.serviceAddress.longitude };
+      const distance = estimateRoadKm(position, location);
+      const travelMinutes = estimateTravelMinutes(position, location);
+      const booked = timeToMinutes(booking.time);
+
+      // The first trip leaves the studio just in time; later ones leave when the last job is done
+      const arrival = freeAt === null ? booked : freeAt + travelMinutes;
+      if (freeAt === null) plan.departAt = minutesToTime(booked - travelMinutes);
+
+      const start = Math.max(booked, arrival);
+      const finish = start + (durations.get(booking.serviceType) ?? DEFAULT_DURATION_MINUTES);
+
+      plan.stops.push({
+        bookingId: booking.id,
+        referenceNumber: booking.referenceNumber,
+        serviceType: booking.serviceType,
+        address: formatServiceAddress(booking.serviceAddress),
+        location,
+        bookedTime: booking.time,
+        distanceKm: distance,
+        travelMinutes,
+        arriveAt: minutesToTime(arrival),
+        startAt: minutesToTime(start),
+        finishAt: minutesToTime(finish),
+        waitMinutes: Math.max(0, booked - arrival),
+        lateMinutes: Math.max(0, arrival - booked),
+      });
+
+      plan.totalDistanceKm += distance;
+      plan.totalTravelMinutes += travelMinutes;
+      position = location;
+      freeAt = finish;
+    }
+
+    if (freeAt !== null) {
+      const travelMinutes = estimateTravelMinutes(position, studio);
+      plan.returnLeg = {
+        distanceKm: estimateRoadKm(position, studio),
+        travelMinutes,
+        arriveAt: minutesToTime(freeAt + travelMinutes),
+      };
+      plan.totalDistanceKm += plan.returnLeg.distanceKm;
+      plan.totalTravelMinutes += travelMinutes;
+    }
+
+    plan.totalDistanceKm = round(plan.totalDistanceKm);
+    return plan;
+  }
+}
+
+export const routePlanningService = new RoutePlanningService();
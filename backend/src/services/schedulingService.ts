@@ -0,0 +1,469 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { config } from '../config/env';
+import { Booking, Service, Bay, MobileUnit, Staff, StaffShift, SlotHold } from '../models';
+import { BookingStatus, AppointmentType } from '../models/Booking';
+import { MOBILE_UNIT_SKILL } from '../models/Staff';
+import { getAppointmentBuffer } from '../utils/helpers';
+import { GeoPoint } from '../utils/geo';
+import { timeToMinutes, minutesToTime, formatDateYYYYMMDD } from '../utils/dateUtils';
+import { businessHoursService } from './businessHoursService';
+import { serviceAreaService, estimateRoadKm, estimateTravelMinutes } from './serviceAreaService';
+
+export const DEFAULT_DURATION_MINUTES = 60;
+
+// Bookings in these statuses occupy time on the schedule
+export const ACTIVE_BOOKING_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.IN_PROGRESS];
+
+export interface ScheduledInterval {
+  bookingId?: string;
+  holdId?: string;
+  resourceId?: string | null; // bay for studio jobs, van for mobile jobs
+  start: number; // minutes since midnight
+  end: number; // minutes since midnight, including turnaround buffer
+  location?: GeoPoint; // where a mobile job is done
+}
+
+export interface SlotRequest {
+  date: string;
+  time: string;
+  duration: number; // in minutes
+  appointmentType: AppointmentType | string;
+  serviceType?: string; // narrows staff to detailers with the skill
+  excludeBookingId?: string;
+  excludeHoldId?: string; // the caller's own hold does not block its slot
+  location?: GeoPoint; // mobile jobs: vans must be able to drive there in time
+}
+
+export interface IntervalOptions {
+  excludeBookingId?: string;
+  excludeHoldId?: string;
+  transaction?: Transaction;
+}
+
+export interface RosteredStaff {
+  staffId: string;
+  shifts: ScheduledInterval[];
+}
+
+export interface SlotCapacity {
+  time: string;
+  available: number;
+  total: number;
+}
+
+export function intervalsOverlap(a: ScheduledInterval, b: ScheduledInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Resources not busy during the candidate interval. Bookings that were never
+ * assigned a resource still consume one unit of capacity each.
+ */
+export function getFreeResources(
+  candidate: ScheduledInterval,
+  resourceIds: string[],
+  booked: ScheduledInterval[]
+): string[] {
+  const busy = new Set<string>();
+  let unassigned = 0;
+
+  booked
+    .filter(interval => intervalsOverlap(candidate, interval))
+    .forEach(interval => {
+      if (interval.resourceId && resourceIds.includes(interval.resourceId)) {
+        busy.add(interval.resourceId);
+      } else {
+        unassigned++;
+      }
+    });
+
+  const free = resourceIds.filter(id => !busy.has(id));
+  return free.slice(0, Math.max(0, free.length - unassigned));
+}
+
+/**
+ * Free vans that can drive to the candidate from their previous job and on to their
+ * next one in time, cheapest detour first. The turnaround buffer covers short trips;
+ * longer ones need the extra minutes. Jobs without an address are not checked.
+ */
+export function getReachableVans(
+  candidate: ScheduledInterval,
+  location: GeoPoint,
+  vanIds: string[],
+  booked: ScheduledInterval[],
+  studio: GeoPoint
+): string[] {
+  const buffer = getAppointmentBuffer(AppointmentType.MOBILE);
+  const extraMinutes = (from: GeoPoint, to: GeoPoint) => Math.max(0, estimateTravelMinutes(from, to) - buffer);
+
+  const detours = vanIds.map(vanId => {
+    const jobs = booked
+      .filter(interval => interval.resourceId === vanId)
+      .sort((a, b) => a.start - b.start);
+    const previous = jobs.filter(job => job.end <= candidate.start).pop();
+    const next = jobs.find(job => job.start >= candidate.end);
+
+    const reachable =
+      (!previous?.location || previous.end + extraMinutes(previous.location, location) <= candidate.start) &&
+      (!next?.location || candidate.end + extraMinutes(location, next.location) <= next.start);
+
+    const from = previous?.location || studio;
+    const to = next?.location || studio;
+    return {
+      vanId,
+      reachable,
+      detour: estimateRoadKm(from, location) + estimateRoadKm(location, to) - estimateRoadKm(from, to),
+    };
+  });
+
+  return detours
+    .filter(van => van.reachable)
+    .sort((a, b) => a.detour - b.detour)
+    .map(van => van.vanId);
+}
+
+/**
+ * Whether a detailer's skills cover the service and, for mobile jobs, driving the van
+ */
+export function staffHasSkills(
+  skills: string[],
+  serviceType: string | undefined,
+  appointmentType: AppointmentType | string
+): boolean {
+  if (serviceType && !skills.includes(serviceType)) return false;
+  return appointmentType !== AppointmentType.MOBILE || skills.includes(MOBILE_UNIT_SKILL);
+}
+
+/**
+ * Staff whose shift covers the whole job (turnaround buffer excluded)
+ */
+export function getStaffOnShift(rostered: RosteredStaff[], start: number, end: number): string[] {
+  return rostered
+    .filter(member => member.shifts.some(shift => shift.start <= start && end <= shift.end))
+    .map(member => member.staffId);
+}
+
+export class SchedulingService {
+  buildInterval(time: string, duration: number, appointmentType: AppointmentType | string): ScheduledInterval {
+    const start = timeToMinutes(time);
+    return {
+      start,
+      end: start + duration + getAppointmentBuffer(appointmentType),
+    };
+  }
+
+  async getServiceDuration(serviceType: string, transaction?: Transaction): Promise<number> {
+    const service = await Service.findOne({ where: { name: serviceType }, transaction });
+    return service ? service.duration : DEFAULT_DURATION_MINUTES;
+  }
+
+  /**
+   * Whether a job starting at the given time finishes within trading hours
+   */
+  async fitsBusinessHours(date: string, time: string, duration: number): Promise<boolean> {
+    const hours = await businessHoursService.getHoursForDate(date);
+    if (!hours) return false;
+
+    const start = timeToMinutes(time);
+    return start >= timeToMinutes(hours.open) && start + duration <= timeToMinutes(hours.close);
+  }
+
+  /**
+   * Active bays or vans that can take an appointment of the given type
+   */
+  async getResourceIds(appointmentType: AppointmentType | string, transaction?: Transaction): Promise<string[]> {
+    const resources = appointmentType === AppointmentType.MOBILE
+      ? await MobileUnit.findAll({ where: { active: true }, order: [['name', 'ASC']], transaction })
+      : await Bay.findAll({ where: { active: true }, order: [['name', 'ASC']], transaction });
+
+    return resources.map(resource => resource.id);
+  }
+
+  /**
+   * Time occupied by active bookings and unexpired holds of one appointment type
+   * on a date, sized by each booked service's duration
+   */
+  async getBookedIntervals(
+    date: string,
+    appointmentType: AppointmentType | string,
+    options: IntervalOptions = {}
+  ): Promise<ScheduledInterval[]> {
+    const where: any = {
+      date,
+      appointmentType,
+      status: { [Op.in]: ACTIVE_BOOKING_STATUSES },
+    };
+    if (options.excludeBookingId) {
+      where.id = { [Op.ne]: options.excludeBookingId };
+    }
+
+    const resourceOf = (item: Booking | SlotHold) =>
+      item.appointmentType === AppointmentType.MOBILE ? item.mobileUnitId : item.bayId;
+    const [bookings, held] = await Promise.all([
+      Booking.findAll({ where, transaction: options.transaction }),
+      this.getHeldIntervals(date, { appointmentType }, resourceOf, options),
+    ]);
+    return [...await this.toIntervals(bookings, resourceOf, options.transaction), ...held];
+  }
+
+  /**
+   * Time each detailer is busy on a date, across studio and mobile jobs and holds
+   */
+  async getStaffBookedIntervals(
+    date: string,
+    options: IntervalOptions = {}
+  ): Promise<ScheduledInterval[]> {
+    const where: any = {
+      date,
+      status: { [Op.in]: ACTIVE_BOOKING_STATUSES },
+    };
+    if (options.excludeBookingId) {
+      where.id = { [Op.ne]: options.excludeBookingId };
+    }
+
+    const [bookings, held] = await Promise.all([
+      Booking.findAll({ where, transaction: options.transaction }),
+      this.getHeldIntervals(date, {}, hold => hold.staffId, options),
+    ]);
+    return [...await this.toIntervals(bookings, booking => booking.staffId, options.transaction), ...held];
+  }
+
+  /**
+   * Slots reserved by checkouts that have neither completed nor expired
+   */
+  private async getHeldIntervals(
+    date: string,
+    filter: { appointmentType?: AppointmentType | string },
+    resourceOf: (hold: SlotHold) => string | null | undefined,
+    options: IntervalOptions
+  ): Promise<ScheduledInterval[]> {
+    const where: any = {
+      date,
+      bookingId: null,
+      expiresAt: { [Op.gt]: new Date() },
+      ...filter,
+    };
+    if (options.excludeHoldId) {
+      where.id = { [Op.ne]: options.excludeHoldId };
+    }
+
+    const holds = await SlotHold.findAll({ where, transaction: options.transaction });
+    return holds.map(hold => ({
+      holdId: hold.id,
+      resourceId: resourceOf(hold),
+      ...this.buildInterval(hold.time, hold.duration, hold.appointmentType),
+    }));
+  }
+
+  /**
+   * Shift rosters are only enforced once at least one detailer is set up
+   */
+  async isStaffingEnabled(transaction?: Transaction): Promise<boolean> {
+    return (await Staff.count({ where: { active: true }, transaction })) > 0;
+  }
+
+  /**
+   * Active detailers with the right skills and a shift on the date
+   */
+  async getRosteredStaff(
+    date: string,
+    serviceType: string | undefined,
+    appointmentType: AppointmentType | string,
+    transaction?: Transaction
+  ): Promise<RosteredStaff[]> {
+    const staff = await Staff.findAll({ where: { active: true }, order: [['name', 'ASC']], transaction });
+    const qualified = staff.filter(member => staffHasSkills(member.skills, serviceType, appointmentType));
+    if (qualified.length === 0) return [];
+
+    const shifts = await StaffShift.findAll({
+      where: { date, staffId: { [Op.in]: qualified.map(member => member.id) } },
+      transaction,
+    });
+
+    return qualified
+      .map(member => ({
+        staffId: member.id,
+        shifts: shifts
+          .filter(shift => shift.staffId === member.id)
+          .map(shift => ({ start: timeToMinutes(shift.startTime), end: timeToMinutes(shift.endTime) })),
+      }))
+      .filter(member => member.shifts.length > 0);
+  }
+
+  /**
+   * Pick a qualified detailer who is on shift and free for the slot, or null when none is
+   */
+  async findAvailableStaff(request: SlotRequest, transaction?: Transaction): Promise<string | null> {
+    const requested = this.buildInterval(request.time, request.duration, request.appointmentType);
+    const [rostered, booked] = await Promise.all([
+      this.getRosteredStaff(request.date, request.serviceType, request.appointmentType, transaction),
+      this.getStaffBookedIntervals(request.date, {
+        excludeBookingId: request.excludeBookingId,
+        excludeHoldId: request.excludeHoldId,
+        transaction,
+      }),
+    ]);
+
+    const onShift = getStaffOnShift(rostered, requested.start, requested.start + request.duration);
+    const free = getFreeResources(requested, onShift, booked);
+    return free.length > 0 ? free[0] : null;
+  }
+
+  /**
+   * Give a booking a free detailer unless it already has one. Returns false when
+   * nobody qualified is on shift and free; always true while staffing is not enforced.
+   */
+  async assignStaff(booking: Booking, transaction: Transaction): Promise<boolean> {
+    if (booking.staffId || !(await this.isStaffingEnabled(transaction))) return true;
+
+    const date = formatDateYYYYMMDD(booking.date);
+    await this.lockDate(date, transaction);
+    const staffId = await this.findAvailableStaff({
+      date,
+      time: booking.time,
+      duration: await this.getServiceDuration(booking.serviceType, transaction),
+      appointmentType: booking.appointmentType,
+      serviceType: booking.serviceType,
+      excludeBookingId: booking.id,
+    }, transaction);
+
+    if (!staffId) return false;
+    await booking.update({ staffId }, { transaction });
+    return true;
+  }
+
+  private async toIntervals(
+    bookings: Booking[],
+    resourceOf: (booking: Booking) => string | null | undefined,
+    transaction?: Transaction
+  ): Promise<ScheduledInterval[]> {
+    if (bookings.length === 0) return [];
+
+    const serviceNames = [...new Set(bookings.map(booking => booking.serviceType))];
+    const services = await Service.findAll({
+      where: { name: { [Op.in]: serviceNames } },
+      transaction,
+    });
+    const durations = new Map(services.map(service => [service.name, service.duration]));
+
+    return bookings.map(booking => ({
+      bookingId: booking.id,
+      resourceId: resourceOf(booking),
+      ...this.buildInterval(
+        booking.time,
+        durations.get(booking.serviceType) ?? DEFAULT_DURATION_MINUTES,
+        booking.appointmentType
+      ),
+      ...(booking.serviceAddress
+        ? { location: { latitude: booking.serviceAddress.latitude, longitude: booking.serviceAddress.longitude } }
+        : {}),
+    }));
+  }
+
+  /**
+   * Pick a free bay or van for the requested slot, or null when fully booked. Given
+   * an address, the van that has to go least out of its way gets the job.
+   */
+  async findAvailableResource(request: SlotRequest, transaction?: Transaction): Promise<string | null> {
+    const requested = this.buildInterval(request.time, request.duration, request.appointmentType);
+    const [resourceIds, booked] = await Promise.all([
+      this.getResourceIds(request.appointmentType, transaction),
+      this.getBookedIntervals(request.date, request.appointmentType, {
+        excludeBookingId: request.excludeBookingId,
+        excludeHoldId: request.excludeHoldId,
+        transaction,
+      }),
+    ]);
+
+    const free = this.withTravel(requested, request, getFreeResources(requested, resourceIds, booked), booked);
+    return free.length > 0 ? free[0] : null;
+  }
+
+  /**
+   * Free bays or vans per slot, limited by rostered detailers when staffing is enforced
+   */
+  async getSlotCapacity(
+    date: string,
+    duration: number,
+    appointmentType: AppointmentType | string = AppointmentType.STUDIO,
+    serviceType?: string,
+    location?: GeoPoint
+  ): Promise<SlotCapacity[]> {
+    const hours = await businessHoursService.getHoursForDate(date);
+    if (!hours) return [];
+
+    const [resourceIds, booked, staffingEnabled] = await Promise.all([
+      this.getResourceIds(appointmentType),
+      this.getBookedIntervals(date, appointmentType),
+      this.isStaffingEnabled(),
+    ]);
+    const [rostered, staffBooked] = staffingEnabled
+      ? await Promise.all([
+          this.getRosteredStaff(date, serviceType, appointmentType),
+          this.getStaffBookedIntervals(date),
+        ])
+      : [[], []];
+    const close = timeToMinutes(hours.close);
+    const slots: SlotCapacity[] = [];
+
+    for (let start = timeToMinutes(hours.open); start + duration <= close; start += config.SLOT_INTERVAL_MINUTES) {
+      const candidate = this.buildInterval(minutesToTime(start), duration, appointmentType);
+      let available = this.withTravel(
+        candidate,
+        { appointmentType, location },
+        getFreeResources(candidate, resourceIds, booked),
+        booked
+      ).length;
+
+      if (staffingEnabled) {
+        const onShift = getStaffOnShift(rostered, start, start + duration);
+        available = Math.min(available, getFreeResources(candidate, onShift, staffBooked).length);
+      }
+
+      slots.push({
+        time: minutesToTime(start),
+        available,
+        total: resourceIds.length,
+      });
+    }
+
+    return slots;
+  }
+
+  async getAvailableSlots(
+    date: string,
+    duration: number,
+    appointmentType: AppointmentType | string = AppointmentType.STUDIO,
+    serviceType?: string,
+    location?: GeoPoint
+  ): Promise<string[]> {
+    const capacity = await this.getSlotCapacity(date, duration, appointmentType, serviceType, location);
+    return capacity.filter(slot => slot.available > 0).map(slot => slot.time);
+  }
+
+  /**
+   * Narrow free vans to those that can reach a mobile job's address in time
+   */
+  private withTravel(
+    candidate: ScheduledInterval,
+    request: Pick<SlotRequest, 'appointmentType' | 'location'>,
+    free: string[],
+    booked: ScheduledInterval[]
+  ): string[] {
+    if (request.appointmentType !== AppointmentType.MOBILE || !request.location) return free;
+    return getReachableVans(candidate, request.location, free, booked, serviceAreaService.getServiceArea().centre);
+  }
+
+  /**
+   * Serialize schedule changes for a date until the transaction ends
+   */
+  async lockDate(date: string, transaction: Transaction): Promise<void> {
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+      replacements: { key: `schedule:${date}` },
+      transaction,
+    });
+  }
+}
+
+export const schedulingService = new SchedulingService();
@@ -0,0 +1,100 @@
+import { config } from '../config/env';
+import { ServiceAddress, TravelCharge } from '../types';
+import { GeoPoint, distanceKm, isInsidePolygon } from '../utils/geo';
+
+export interface AreaCheck {
+  valid: boolean;
+  message?: string;
+  travel?: TravelCharge;
+}
+
+export interface ServiceArea {
+  centre: GeoPoint;
+  radiusKm?: number;
+  polygon?: GeoPoint[];
+  freeKm: number;
+  feePerKm: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Travel fee for a distance: free near the studio, then charged per km beyond that
+ */
+export function calculateTravelFee(distance: number): number {
+  return round(Math.max(0, distance - config.TRAVEL_FEE_FREE_KM) * config.TRAVEL_FEE_PER_KM);
+}
+
+/**
+ * Driving distance between two points, estimated from the straight line
+ */
+export function estimateRoadKm(from: GeoPoint, to: GeoPoint): number {
+  return round(distanceKm(from, to) * config.ROAD_DISTANCE_FACTOR);
+}
+
+/**
+ * Minutes a van needs to drive between two points, rounded up to the minute
+ */
+export function estimateTravelMinutes(from: GeoPoint, to: GeoPoint): number {
+  return Math.ceil(estimateRoadKm(from, to) / config.MOBILE_AVERAGE_SPEED_KMH * 60);
+}
+
+/**
+ * One-line address for the customer record and emails
+ */
+export function formatServiceAddress(address: ServiceAddress): string {
+  return [address.line1, address.line2, address.suburb, address.city, address.postalCode]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export class ServiceAreaService {
+  /**
+   * The configured area: a polygon when one is set, otherwise a radius around the studio
+   */
+  getServiceArea(): ServiceArea {
+    const centre = { latitude: config.STUDIO_LATITUDE, longitude: config.STUDIO_LONGITUDE };
+    const polygon = this.parsePolygon(config.SERVICE_AREA_POLYGON);
+
+    return {
+      centre,
+      ...(polygon ? { polygon } : { radiusKm: config.SERVICE_AREA_RADIUS_KM }),
+      freeKm: config.TRAVEL_FEE_FREE_KM,
+      feePerKm: config.TRAVEL_FEE_PER_KM,
+    };
+  }
+
+  /**
+   * Whether a mobile job can be done at a location, and what travelling there costs
+   */
+  checkLocation(point: GeoPoint): AreaCheck {
+    const area = this.getServiceArea();
+    const distance = distanceKm(area.centre, point);
+
+    const inside = area.polygon
+      ? isInsidePolygon(point, area.polygon)
+      : distance <= area.radiusKm!;
+    if (!inside) {
+      return { valid: false, message: 'Address is outside our mobile service area' };
+    }
+
+    return {
+      valid: true,
+      travel: { distanceKm: round(distance), fee: calculateTravelFee(distance) },
+    };
+  }
+
+  private parsePolygon(value: string): GeoPoint[] | null {
+    if (!value) return null;
+
+    try {
+      const points = (JSON.parse(value) as [number, number][])
+        .map(([latitude, longitude]) => ({ latitude, longitude }));
+      return points.length >= 3 ? points : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const serviceAreaService = new ServiceAreaService();
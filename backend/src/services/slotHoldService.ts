@@ -0,0 +1,105 @@
+import { Op, Transaction } from 'sequelize';
+import { SlotHold } from '../models';
+import { AppointmentType } from '../models/Booking';
+import { schedulingService } from './schedulingService';
+
+export interface HoldRequest {
+  date: string;
+  time: string;
+  duration: number; // in minutes
+  appointmentType: AppointmentType;
+  serviceType?: string;
+  holderIp?: string; // checkout holds only
+}
+
+export interface HoldResult {
+  hold: SlotHold | null;
+  message?: string;
+}
+
+export class SlotHoldService {
+  /**
+   * Reserve a bay or van, and a detailer when rosters are enforced, for a few
+   * minutes. The caller must already hold the date lock.
+   */
+  async createHold(request: HoldRequest, ttlMinutes: number, transaction: Transaction): Promise<HoldResult> {
+    const resourceId = await schedulingService.findAvailableResource(request, transaction);
+    if (!resourceId) {
+      return { hold: null, message: 'Selected time slot is fully booked' };
+    }
+
+    let staffId: string | null = null;
+    if (await schedulingService.isStaffingEnabled(transaction)) {
+      staffId = await schedulingService.findAvailableStaff(request, transaction);
+      if (!staffId) {
+        return { hold: null, message: 'No detailer is available for the selected time slot' };
+      }
+    }
+
+    const hold = await SlotHold.create({
+      date: request.date,
+      time: request.time,
+      duration: request.duration,
+      serviceType: request.serviceType || null,
+      appointmentType: request.appointmentType,
+      bayId: request.appointmentType === AppointmentType.MOBILE ? null : resourceId,
+      mobileUnitId: request.appointmentType === AppointmentType.MOBILE ? resourceId : null,
+      staffId,
+      holderIp: request.holderIp || null,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    }, { transaction });
+
+    return { hold };
+  }
+
+  /**
+   * A hold that has neither lapsed nor been booked, locked when a transaction is given
+   */
+  async findActiveHold(id: string, transaction?: Transaction): Promise<SlotHold | null> {
+    return SlotHold.findOne({
+      where: { id, bookingId: null, expiresAt: { [Op.gt]: new Date() } },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  /**
+   * Holds a client has open during checkout
+   */
+  async countActiveHolds(holderIp: string, transaction?: Transaction): Promise<number> {
+    return SlotHold.count({
+      where: { holderIp, bookingId: null, expiresAt: { [Op.gt]: new Date() } },
+      transaction,
+    });
+  }
+
+  /**
+   * Mark a hold as turned into a booking so it stops blocking the slot twice
+   */
+  async convert(hold: SlotHold, bookingId: string, transaction: Transaction): Promise<void> {
+    await hold.update({ bookingId }, { transaction });
+  }
+
+  /**
+   * Give a slot back before the hold runs out. Converted holds are kept; when a
+   * holder is given, only a hold it created is released.
+   */
+  async release(id: string, transaction?: Transaction, holderIp?: string): Promise<boolean> {
+    const released = await SlotHold.destroy({
+      where: { id, bookingId: null, ...(holderIp !== undefined ? { holderIp } : {}) },
+      transaction,
+    });
+    return released > 0;
+  }
+
+  /**
+   * Delete holds that lapsed without being booked
+   */
+  async sweepExpired(now: Date = new Date()): Promise<number> {
+    return SlotHold.destroy({
+      where: { bookingId: null, expiresAt: { [Op.lte]: now } },
+    });
+  }
+}
+
+export const slotHoldService = new SlotHoldService();
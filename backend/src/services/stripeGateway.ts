@@ -0,0 +1,132 @@
+import Stripe from 'stripe';
+import {
+  PaymentGateway,
+  GatewayEvent,
+  GatewayEventType,
+  GatewayIntent,
+  GatewayRefund,
+  IntentRequest,
+  RefundRequest,
+  toCents,
+  fromCents
+} from './paymentGateway';
+
+const EVENT_TYPES: Record<string, GatewayEventType> = {
+  'payment_intent.succeeded': GatewayEventType.SUCCEEDED,
+  'payment_intent.payment_failed': GatewayEventType.FAILED,
+  'payment_intent.requires_action': GatewayEventType.REQUIRES_ACTION,
+};
+
+// Refund events carry the refund; its status decides the outcome
+const REFUND_EVENTS = ['refund.created', 'refund.updated', 'charge.refund.updated'];
+
+const refundEventType = (refund: Stripe.Refund): GatewayEventType => {
+  switch (refund.status) {
+    case 'succeeded':
+      return GatewayEventType.REFUND_SUCCEEDED;
+    case 'failed':
+    case 'canceled':
+      return GatewayEventType.REFUND_FAILED;
+    default:
+      return GatewayEventType.OTHER;
+  }
+};
+
+export class StripeGateway implements PaymentGateway {
+  readonly name = 'stripe';
+  readonly signatureHeader = 'stripe-signature';
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret: string) {
+    this.stripe = new Stripe(secretKey, {
+      apiVersion: '2023-10-16',
+    });
+  }
+
+  async createIntent(request: IntentRequest): Promise<GatewayIntent> {
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: toCents(request.amount),
+      currency: request.currency,
+      metadata: request.metadata,
+      description: request.description,
+    });
+
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      amount: request.amount,
+      status: paymentIntent.status,
+    };
+  }
+
+  async retrieveIntent(intentId: string): Promise<GatewayIntent> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(intentId);
+
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      amount: fromCents(paymentIntent.amount),
+      status: paymentIntent.status,
+    };
+  }
+
+  async updateIntentAmount(intentId: string, amount: number): Promise<GatewayIntent> {
+    const paymentIntent = await this.stripe.paymentIntents.update(intentId, {
+      amount: toCents(amount),
+    });
+
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      amount: fromCents(paymentIntent.amount),
+      status: paymentIntent.status,
+    };
+  }
+
+  async createRefund(request: RefundRequest): Promise<GatewayRefund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: request.intentId,
+      amount: toCents(request.amount),
+      metadata: request.metadata,
+    });
+
+    return {
+      id: refund.id,
+      amount: fromCents(refund.amount),
+      status: refund.status || 'pending',
+    };
+  }
+
+  parseWebhook(payload: Buffer, signature: string): GatewayEvent {
+    const event = this.stripe.webhooks.constructEvent(payload, signature, this.webhookSecret);
+
+    if (REFUND_EVENTS.includes(event.type)) {
+      const refund = event.data.object as Stripe.Refund;
+      return {
+        id: event.id,
+        type: refundEventType(refund),
+        providerType: event.type,
+        intentId: typeof refund.payment_intent === 'string' ? refund.payment_intent : refund.payment_intent?.id,
+        bookingId: refund.metadata?.bookingId,
+        refundId: refund.metadata?.refundId,
+        amount: fromCents(refund.amount),
+        failureReason: refund.failure_reason || undefined,
+        payload: event,
+      };
+    }
+
+    const type = EVENT_TYPES[event.type] || GatewayEventType.OTHER;
+    const paymentIntent = type === GatewayEventType.OTHER ? null : event.data.object as Stripe.PaymentIntent;
+
+    return {
+      id: event.id,
+      type,
+      providerType: event.type,
+      intentId: paymentIntent?.id,
+      bookingId: paymentIntent?.metadata?.bookingId,
+      paymentId: paymentIntent?.metadata?.paymentId,
+      amount: paymentIntent ? fromCents(paymentIntent.amount) : undefined,
+      payload: event,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { config } from '../config/env';
+import { WaitlistEntry } from '../models';
+import { AppointmentType } from '../models/Booking';
+import { WaitlistStatus } from '../models/WaitlistEntry';
+import { generateResetToken, hashToken } from '../utils/helpers';
+import { combineDateTime, timeToMinutes, toDateKey } from '../utils/dateUtils';
+import { schedulingService, DEFAULT_DURATION_MINUTES } from './schedulingService';
+import { slotHoldService } from './slotHoldService';
+import { emailService } from './emailService';
+
+/**
+ * Whether a job at the given time suits the customer's preferred window
+ */
+export function fitsWindow(entry: WaitlistEntry, time: string, duration: number): boolean {
+  const start = timeToMinutes(time);
+  if (entry.windowStart && start < timeToMinutes(entry.windowStart)) return false;
+  if (entry.windowEnd && start + duration > timeToMinutes(entry.windowEnd)) return false;
+  return true;
+}
+
+export class WaitlistService {
+  /**
+   * Offer a freed slot on a date to the longest-waiting customer it suits. The
+   * slot is held for the customer until the offer lapses, so it is not offered twice.
+   */
+  async offerNext(date: string, appointmentType: AppointmentType | string): Promise<WaitlistEntry | null> {
+    const now = new Date();
+    if (date < toDateKey(now)) return null;
+
+    const offer = await sequelize.transaction(async (transaction) => {
+      await schedulingService.lockDate(date, transaction);
+
+      const waiting = await WaitlistEntry.findAll({
+        where: { date, appointmentType, status: WaitlistStatus.WAITING },
+        order: [['createdAt', 'ASC']],
+        transaction,
+      });
+      if (waiting.length === 0) return null;
+
+      for (const entry of waiting) {
+        const duration = entry.serviceType
+          ? await schedulingService.getServiceDuration(entry.serviceType, transaction)
+          : DEFAULT_DURATION_MINUTES;
+        const capacity = await schedulingService.getSlotCapacity(
+          date,
+          duration,
+          appointmentType,
+          entry.serviceType || undefined
+        );
+
+        const candidates = capacity.filter(candidate => candidate.available > 0
+          && fitsWindow(entry, candidate.time, duration)
+          && combineDateTime(date, candidate.time) > now);
+
+        for (const candidate of candidates) {
+          const { hold } = await slotHoldService.createHold({
+            date,
+            time: candidate.time,
+            duration,
+            appointmentType: appointmentType as AppointmentType,
+            serviceType: entry.serviceType || undefined,
+          }, config.WAITLIST_OFFER_MINUTES, transaction);
+          if (!hold) continue;
+
+          const token = generateResetToken();
+          await entry.update({
+            status: WaitlistStatus.OFFERED,
+            offeredTime: candidate.time,
+            offerTokenHash: hashToken(token),
+            offerExpiresAt: hold.expiresAt,
+            holdId: hold.id,
+          }, { transaction });
+          return { entry, token };
+        }
+      }
+
+      return null;
+    });
+
+    if (!offer) return null;
+
+    const claimUrl = `${config.FRONTEND_URL}/waitlist/claim?token=${offer.token}`;
+    await emailService.sendWaitlistOffer(offer.entry, claimUrl);
+    return offer.entry;
+  }
+
+  /**
+   * An offer that can still be claimed, locked when a transaction is given
+   */
+  async findOffer(token: string, transaction?: Transaction): Promise<WaitlistEntry | null> {
+    return WaitlistEntry.findOne({
+      where: {
+        offerTokenHash: hashToken(token),
+        status: WaitlistStatus.OFFERED,
+        offerExpiresAt: { [Op.gt]: new Date() },
+      },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  /**
+   * Turn down an offer and pass the slot to the next customer in line
+   */
+  async declineOffer(entry: WaitlistEntry): Promise<void> {
+    await entry.update({ status: WaitlistStatus.CANCELLED });
+    if (entry.holdId) await slotHoldService.release(entry.holdId);
+    await this.offerNext(entry.date, entry.appointmentType);
+  }
+
+  /**
+   * Lapse offers nobody claimed in time and pass their slots on; entries for
+   * days that have gone by are closed
+   */
+  async expireOffers(now: Date = new Date()): Promise<number> {
+    const lapsed = await WaitlistEntry.findAll({
+      where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { [Op.lte]: now } },
+    });
+
+    for (const entry of lapsed) {
+      await entry.update({ status: WaitlistStatus.EXPIRED });
+      if (entry.holdId) await slotHoldService.release(entry.holdId);
+      await this.offerNext(entry.date, entry.appointmentType);
+    }
+
+    await WaitlistEntry.update(
+      { status: WaitlistStatus.EXPIRED },
+      { where: { status: WaitlistStatus.WAITING, date: { [Op.lt]: toDateKey(now) } } }
+    );
+
+    return lapsed.length;
+  }
+}
+
+export const waitlistService = new WaitlistService();
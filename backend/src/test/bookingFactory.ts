@@ -0,0 +1,20 @@
+import { Booking } from '../models';
+import { AppointmentType, BookingStatus } from '../models/Booking';
+
+/**
+ * An unsaved confirmed booking for unit tests, with any fields overridden
+ */
+export const buildBooking = (overrides: Partial<Booking> = {}): Booking => Booking.build({
+  customerId: 'customer-1',
+  date: new Date(2025, 2, 4),
+  time: '09:00',
+  serviceType: 'Express Wash',
+  vehicleType: 'SEDAN',
+  extras: [],
+  appointmentType: AppointmentType.STUDIO,
+  status: BookingStatus.CONFIRMED,
+  paymentMethod: 'cash',
+  paymentStatus: 'pending',
+  totalPrice: 250,
+  ...overrides,
+});
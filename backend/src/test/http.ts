@@ -0,0 +1,14 @@
+import { Response } from 'express';
+
+/**
+ * A response that records the status and body a controller sends
+ */
+export const mockResponse = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res as typeof res & Response;
+};
@@ -0,0 +1,19 @@
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+
+/**
+ * Run managed transactions straight through against a stand-in transaction,
+ * with its after-commit hooks collected rather than run
+ */
+export const mockTransaction = () => {
+  const afterCommit: Array<() => unknown> = [];
+  const transaction = {
+    LOCK: { UPDATE: 'UPDATE' },
+    afterCommit: (hook: () => unknown) => afterCommit.push(hook),
+  } as unknown as Transaction;
+
+  jest.spyOn(sequelize, 'transaction').mockImplementation((async (callback: (t: Transaction) => unknown) =>
+    callback(transaction)) as never);
+
+  return { transaction, afterCommit };
+};
@@ -28,13 +28,24 @@ export enum AppointmentType {
 export enum BookingStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
+  IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  NO_SHOW = 'no_show'
 }
 
 export enum PaymentStatus {
   PENDING = 'pending',
+  PARTIALLY_PAID = 'partially_paid',
   PAID = 'paid',
+  FAILED = 'failed',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded'
+}
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  PROCESSED = 'processed',
   FAILED = 'failed'
 }
 
@@ -74,12 +85,32 @@ export interface Booking extends BookingDetails {
   vehicleYear?: string;
   vehicleMake?: string;
   vehicleModel?: string;
+  vehicleId?: string | null;
+  bookingGroupId?: string | null;
+  fleetAccountId?: string | null;
+  fleetInvoiceId?: string | null;
   condition?: CarCondition;
   extras: ExtraService[];
+  bayId?: string | null;
+  mobileUnitId?: string | null;
+  staffId?: string | null;
+  serviceAddress?: ServiceAddress | null;
+  travelDistanceKm?: number | null;
+  travelFee?: number;
+  recurringBookingId?: string | null;
+  promotionId?: string | null;
+  discountAmount?: number;
+  pointsRedeemed?: number;
+  loyaltyDiscount?: number;
   totalPrice: number;
+  depositAmount?: number;
+  amountPaid?: number;
+  tipAmount?: number;
+  amountRefunded?: number;
   status: BookingStatus;
-  paymentMethod?: 'card' | 'cash';
+  paymentMethod?: 'card' | 'cash' | 'on_account';
   paymentStatus: PaymentStatus;
+  transactionId?: string | null;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -97,6 +128,63 @@ export interface Customer {
   updatedAt: Date;
 }
 
+export interface BookingGroup {
+  id: string;
+  referenceNumber: string;
+  customerId: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  appointmentType: 'studio' | 'mobile';
+  schedulingMode: 'back_to_back' | 'parallel';
+  serviceAddress?: ServiceAddress | null;
+  paymentMethod: 'card' | 'cash';
+  notes?: string | null;
+  lines?: Booking[];
+  totalPrice?: number;
+  amountDue?: number;
+}
+
+export interface FleetAccount {
+  id: string;
+  name: string;
+  contactName?: string | null;
+  contactEmail: string;
+  phone?: string | null;
+  billingAddress?: string | null;
+  vatNumber?: string | null;
+  paymentTermsDays: number;
+  active: boolean;
+}
+
+export interface FleetInvoice {
+  id: string;
+  fleetAccountId: string;
+  invoiceNumber: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  bookingCount: number;
+  total: number;
+  status: 'issued' | 'paid' | 'void';
+  issuedAt: Date;
+  dueDate: string; // YYYY-MM-DD
+  paidAt?: Date | null;
+}
+
+export interface Vehicle {
+  id: string;
+  customerId: string;
+  vehicleType: CarType;
+  make?: string | null;
+  model?: string | null;
+  year?: string | null;
+  colour?: string | null;
+  registrationNumber?: string | null;
+  notes?: string | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Service {
   id: string;
   name: string;
@@ -150,7 +238,9 @@ export interface CreateBookingRequest {
   extras?: ExtraService[];
   appointmentType?: AppointmentType;
   notes?: string;
-  paymentMethod?: 'card' | 'cash';
+  paymentMethod?: 'card' | 'cash' | 'on_account';
+  fleetAccountId?: string;
+  serviceAddress?: ServiceAddress; // required for mobile appointments
 }
 
 export interface UpdateBookingStatusRequest {
@@ -168,6 +258,8 @@ export interface CalculatePriceRequest {
   vehicleType: CarType;
   extras: ExtraService[];
   condition?: CarCondition;
+  appointmentType?: AppointmentType;
+  serviceAddress?: ServiceAddress;
 }
 
 export interface CalculatePriceResponse {
@@ -178,10 +270,50 @@ export interface CalculatePriceResponse {
   basePrice: number;
   vehicleMultiplier: number;
   conditionMultiplier: number;
+  extrasBreakdown: { extra: ExtraService; price: number }[];
   extrasTotal: number;
+  discount?: PriceDiscount;
+  travel?: TravelCharge;
   totalPrice: number;
 }
 
+export interface ServiceAddress {
+  line1: string;
+  line2?: string;
+  suburb?: string;
+  city: string;
+  postalCode?: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface TravelCharge {
+  distanceKm: number; // straight line from the studio
+  fee: number;
+}
+
+export interface PriceDiscount {
+  promotionId: string;
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface QuoteLineItem {
+  code: string; // service name or extra code
+  description: string;
+  amount: number;
+}
+
+export interface PricePreview extends CalculatePriceResponse {
+  lineItems: QuoteLineItem[];
+}
+
+export interface QuoteResponse extends PricePreview {
+  quoteId: string;
+  expiresAt: Date;
+}
+
 // Statistics types
 export interface BookingStats {
   totalBookings: number;
@@ -220,10 +352,168 @@ export interface TimeSlot {
   available: boolean;
 }
 
+export interface SlotCapacity {
+  time: string;
+  available: number;
+  total: number;
+}
+
 export interface AvailableSlotsResponse {
   date: string;
+  duration: number;
+  appointmentType: AppointmentType;
   availableSlots: string[];
-  bookedSlots: string[];
+  totalSlots: number;
+  capacity: Record<AppointmentType, SlotCapacity[]>;
+}
+
+// Capacity resources
+export interface Bay {
+  id: string;
+  name: string;
+  notes?: string;
+  active: boolean;
+}
+
+export interface MobileUnit {
+  id: string;
+  name: string;
+  registrationNumber?: string;
+  notes?: string;
+  active: boolean;
+}
+
+// Business calendar
+export interface OperatingHours {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  openTime: string; // HH:MM
+  closeTime: string; // HH:MM
+  isClosed: boolean;
+}
+
+export interface Closure {
+  id: string;
+  date: string; // YYYY-MM-DD
+  reason: string;
+}
+
+export interface Staff {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  userId?: string | null;
+  skills: string[];
+  active: boolean;
+}
+
+export interface StaffShift {
+  id: string;
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export interface RecurringBooking {
+  id: string;
+  customerId: string;
+  frequency: 'weekly' | 'biweekly' | 'monthly';
+  startDate: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  endDate?: string | null;
+  occurrences?: number | null;
+  serviceType: string;
+  vehicleType: CarType;
+  condition?: CarCondition | null;
+  extras: ExtraService[];
+  appointmentType: 'studio' | 'mobile';
+  serviceAddress?: ServiceAddress | null;
+  paymentMethod: 'card' | 'cash';
+  skippedDates: string[];
+  status: 'active' | 'paused' | 'cancelled';
+}
+
+export interface WaitlistEntry {
+  id: string;
+  customerId?: string | null;
+  name: string;
+  email: string;
+  phone?: string | null;
+  date: string; // YYYY-MM-DD
+  windowStart?: string | null; // HH:MM
+  windowEnd?: string | null; // HH:MM
+  serviceType?: string | null;
+  appointmentType: 'studio' | 'mobile';
+  status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+  offeredTime?: string | null;
+  offerExpiresAt?: Date | null;
+  bookingId?: string | null;
+}
+
+export interface SlotHold {
+  id: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  duration: number;
+  serviceType?: string | null;
+  appointmentType: 'studio' | 'mobile';
+  bayId?: string | null;
+  mobileUnitId?: string | null;
+  staffId?: string | null;
+  expiresAt: Date;
+  bookingId?: string | null;
+}
+
+export interface Refund {
+  id: string;
+  bookingId: string;
+  paymentReference?: string | null;
+  amountPaid: number;
+  fee: number;
+  amount: number;
+  reason: string;
+  status: RefundStatus;
+  requestedById?: string | null;
+  processedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface BookingStatusHistory {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus | null;
+  toStatus: BookingStatus;
+  changedById?: string | null;
+  reason?: string | null;
+  createdAt: Date;
+}
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  serviceTypes: string[];
+  vehicleTypes: string[];
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  firstBookingOnly: boolean;
+  active: boolean;
+}
+
+export interface LoyaltyTransaction {
+  id: string;
+  customerId: string;
+  bookingId?: string | null;
+  type: 'earn' | 'redeem' | 'reversal' | 'adjustment';
+  points: number;
+  balanceAfter: number;
+  description: string;
+  createdAt: Date;
 }
 
 // Email templates
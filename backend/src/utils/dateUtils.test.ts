@@ -0,0 +1,80 @@
+import { BusinessCalendar, fromDateKey, getClosureReason, getEasterSunday, getPublicHolidays, isPublicHoliday } from './dateUtils';
+
+const calendar = (overrides: Partial<BusinessCalendar> = {}): BusinessCalendar => ({
+  weeklyHours: {
+    0: null,
+    1: { open: '08:00', close: '17:00' },
+    2: { open: '08:00', close: '17:00' },
+    3: { open: '08:00', close: '17:00' },
+    4: { open: '08:00', close: '17:00' },
+    5: { open: '08:00', close: '17:00' },
+    6: { open: '08:00', close: '13:00' },
+  },
+  closures: {},
+  closedOnPublicHolidays: true,
+  ...overrides,
+});
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+  ])('finds Easter Sunday in %i', (year, expected) => {
+    expect(getEasterSunday(year)).toEqual(fromDateKey(expected));
+  });
+});
+
+describe('getPublicHolidays', () => {
+  it('moves Good Friday and Family Day with Easter', () => {
+    const holidays = getPublicHolidays(2024);
+
+    expect(holidays).toContainEqual({ date: '2024-03-29', name: 'Good Friday' });
+    expect(holidays).toContainEqual({ date: '2024-04-01', name: 'Family Day' });
+  });
+
+  it('observes a Sunday holiday on the Monday', () => {
+    const holidays = getPublicHolidays(2024);
+
+    expect(holidays).toContainEqual({ date: '2024-06-16', name: 'Youth Day' });
+    expect(holidays).toContainEqual({ date: '2024-06-17', name: 'Youth Day (observed)' });
+  });
+
+  it('lists the holidays in date order', () => {
+    const dates = getPublicHolidays(2025).map(holiday => holiday.date);
+
+    expect(dates).toEqual([...dates].sort());
+  });
+});
+
+describe('isPublicHoliday', () => {
+  it('matches holidays and observed Mondays only', () => {
+    expect(isPublicHoliday(fromDateKey('2025-12-25'))).toBe(true);
+    expect(isPublicHoliday(fromDateKey('2024-06-17'))).toBe(true);
+    expect(isPublicHoliday(fromDateKey('2025-12-24'))).toBe(false);
+  });
+});
+
+describe('getClosureReason', () => {
+  it('gives a configured closure before a public holiday', () => {
+    const closed = calendar({ closures: { '2025-12-25': 'Staff party' } });
+
+    expect(getClosureReason(fromDateKey('2025-12-25'), closed)).toBe('Staff party');
+  });
+
+  it('names the public holiday when closed on holidays', () => {
+    expect(getClosureReason(fromDateKey('2025-12-25'), calendar())).toBe('Christmas Day');
+  });
+
+  it('trades on a weekday holiday when holidays are not observed', () => {
+    expect(getClosureReason(fromDateKey('2025-12-25'), calendar({ closedOnPublicHolidays: false }))).toBeNull();
+  });
+
+  it('is closed on days without weekly hours', () => {
+    expect(getClosureReason(fromDateKey('2025-10-19'), calendar())).toBe('Closed on this day of the week');
+  });
+
+  it('is open on an ordinary trading day', () => {
+    expect(getClosureReason(fromDateKey('2025-10-20'), calendar())).toBeNull();
+  });
+});
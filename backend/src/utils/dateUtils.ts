@@ -31,6 +31,17 @@ export function addDays(date: Date | string, days: number): Date {
   return result;
 }
 
+/**
+ * Add months to a date, clamping to the last day of shorter months
+ * (31 January + 1 month is 28 or 29 February)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
 /**
  * Get start of week (Monday)
  */
@@ -161,47 +172,160 @@ export function isWeekend(date: Date): boolean {
   return day === 0 || day === 6;
 }
 
+export interface PublicHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface DayHours {
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+/**
+ * Snapshot of the configured trading calendar
+ */
+export interface BusinessCalendar {
+  weeklyHours: Record<number, DayHours | null>; // keyed by getDay(), null when closed
+  closures: Record<string, string>; // YYYY-MM-DD -> reason
+  closedOnPublicHolidays: boolean;
+}
+
+/**
+ * Format date to YYYY-MM-DD using local date parts
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a local date
+ */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Get Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Get South African public holidays for a year, including movable Easter
+ * holidays and Mondays observed when a holiday falls on a Sunday
+ */
+export function getPublicHolidays(year: number): PublicHoliday[] {
+  const fixed: [number, number, string][] = [
+    [1, 1, "New Year's Day"],
+    [3, 21, 'Human Rights Day'],
+    [4, 27, 'Freedom Day'],
+    [5, 1, "Workers' Day"],
+    [6, 16, 'Youth Day'],
+    [8, 9, "National Women's Day"],
+    [9, 24, 'Heritage Day'],
+    [12, 16, 'Day of Reconciliation'],
+    [12, 25, 'Christmas Day'],
+    [12, 26, 'Day of Goodwill'],
+  ];
+
+  const easter = getEasterSunday(year);
+  const holidays: PublicHoliday[] = [
+    { date: toDateKey(addDays(easter, -2)), name: 'Good Friday' },
+    { date: toDateKey(addDays(easter, 1)), name: 'Family Day' },
+  ];
+
+  fixed.forEach(([month, day, name]) => {
+    const date = new Date(year, month - 1, day);
+    holidays.push({ date: toDateKey(date), name });
+
+    // Public Holidays Act: a Sunday holiday is observed on the Monday
+    if (date.getDay() === 0) {
+      holidays.push({ date: toDateKey(addDays(date, 1)), name: `${name} (observed)` });
+    }
+  });
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
 /**
  * Check if date is a public holiday (South Africa)
  */
 export function isPublicHoliday(date: Date): boolean {
-  const holidays = [
-    '01-01', // New Year's Day
-    '03-21', // Human Rights Day
-    '04-19', // Good Friday (example)
-    '04-22', // Family Day (example)
-    '04-27', // Freedom Day
-    '05-01', // Workers' Day
-    '06-16', // Youth Day
-    '08-09', // National Women's Day
-    '09-24', // Heritage Day
-    '12-16', // Day of Reconciliation
-    '12-25', // Christmas Day
-    '12-26', // Day of Goodwill
-  ];
-  
-  const monthDay = `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
-  return holidays.includes(monthDay);
+  const key = toDateKey(date);
+  return getPublicHolidays(date.getFullYear()).some(holiday => holiday.date === key);
+}
+
+/**
+ * Get the reason the business is closed on a date, or null when trading
+ */
+export function getClosureReason(date: Date, calendar: BusinessCalendar): string | null {
+  const key = toDateKey(date);
+
+  if (calendar.closures[key]) {
+    return calendar.closures[key];
+  }
+
+  if (calendar.closedOnPublicHolidays) {
+    const holiday = getPublicHolidays(date.getFullYear()).find(h => h.date === key);
+    if (holiday) return holiday.name;
+  }
+
+  if (!calendar.weeklyHours[date.getDay()]) {
+    return 'Closed on this day of the week';
+  }
+
+  return null;
 }
 
 /**
- * Check if date is valid for business (not weekend or holiday)
+ * Get trading hours for a date, or null when closed
  */
-export function isBusinessDay(date: Date): boolean {
+export function getBusinessHours(date: Date, calendar: BusinessCalendar): DayHours | null {
+  return getClosureReason(date, calendar) ? null : calendar.weeklyHours[date.getDay()];
+}
+
+/**
+ * Check if date is valid for business. Without a calendar this falls back
+ * to excluding weekends and public holidays.
+ */
+export function isBusinessDay(date: Date, calendar?: BusinessCalendar): boolean {
+  if (calendar) {
+    return getBusinessHours(date, calendar) !== null;
+  }
   return !isWeekend(date) && !isPublicHoliday(date);
 }
 
 /**
  * Get next business day
  */
-export function getNextBusinessDay(date: Date = new Date()): Date {
+export function getNextBusinessDay(date: Date = new Date(), calendar?: BusinessCalendar): Date {
   const nextDay = new Date(date);
   nextDay.setDate(nextDay.getDate() + 1);
-  
-  while (!isBusinessDay(nextDay)) {
+
+  // A calendar with no trading days would never terminate
+  for (let i = 0; i < 366 && !isBusinessDay(nextDay, calendar); i++) {
     nextDay.setDate(nextDay.getDate() + 1);
   }
-  
+
   return nextDay;
 }
 
@@ -229,6 +353,35 @@ export function formatTime24h(time: string): string {
   return `${militaryHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Convert a time string (24h "HH:MM" or 12h "h:mm AM") to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const normalized = /(AM|PM)$/i.test(time.trim())
+    ? formatTime24h(time.trim().toUpperCase())
+    : time.trim();
+  const [hours, minutes] = normalized.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight to a 24h "HH:MM" string
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Combine a YYYY-MM-DD date and HH:MM time into a local Date
+ */
+export function combineDateTime(date: string, time: string): Date {
+  const result = fromDateKey(date);
+  result.setMinutes(timeToMinutes(time));
+  return result;
+}
+
 /**
  * Get current timestamp in ISO format
  */
@@ -248,6 +401,7 @@ export default {
   formatDateYYYYMMDD,
   formatDateDDMMYYYY,
   addDays,
+  addMonths,
   getStartOfWeek,
   getEndOfWeek,
   getStartOfMonth,
@@ -260,11 +414,20 @@ export default {
   getBusinessDays,
   getDateRange,
   isWeekend,
+  toDateKey,
+  fromDateKey,
+  getEasterSunday,
+  getPublicHolidays,
   isPublicHoliday,
+  getClosureReason,
+  getBusinessHours,
   isBusinessDay,
   getNextBusinessDay,
   formatTime12h,
   formatTime24h,
+  timeToMinutes,
+  minutesToTime,
+  combineDateTime,
   getCurrentTimestamp,
   parseDate
 };
\ No newline at end of file
@@ -1,15 +1,14 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
 import { 
-  CarType, 
-  CarCondition, 
-  ExtraService, 
   AppointmentType,
   BookingStatus 
 } from '../types';
 import logger from './logger';
+import { BusinessCalendar, getClosureReason } from './dateUtils';
 
 /**
  * Generate a unique reference number for bookings
@@ -38,59 +37,6 @@ export function formatPrice(amount: number): string {
   }).format(amount);
 }
 
-/**
- * Calculate total price based on vehicle type, condition, and extras
- */
-export function calculateTotalPrice(
-  basePrice: number,
-  vehicleType: CarType,
-  condition: CarCondition = CarCondition.LIGHT,
-  extras: ExtraService[] = []
-): number {
-  // Vehicle type multipliers
-  const vehicleMultipliers: Record<CarType, number> = {
-    [CarType.SEDAN]: 1.0,
-    [CarType.COUPE]: 1.1,
-    [CarType.HATCHBACK]: 1.0,
-    [CarType.SUV]: 1.3,
-    [CarType.TRUCK]: 1.5,
-    [CarType.LUXURY]: 1.8,
-  };
-
-  // Condition multipliers
-  const conditionMultipliers: Record<CarCondition, number> = {
-    [CarCondition.LIGHT]: 1.0,
-    [CarCondition.MODERATE]: 1.2,
-    [CarCondition.HEAVY]: 1.5,
-  };
-
-  // Extra service prices
-  const extraPrices: Record<ExtraService, number> = {
-    [ExtraService.INTERIOR]: 150,
-    [ExtraService.WAX]: 200,
-    [ExtraService.ENGINE]: 300,
-  };
-
-  let totalPrice = basePrice;
-
-  // Apply vehicle type multiplier
-  const vehicleMultiplier = vehicleMultipliers[vehicleType] || 1.0;
-  totalPrice *= vehicleMultiplier;
-
-  // Apply condition multiplier
-  const conditionMultiplier = conditionMultipliers[condition] || 1.0;
-  totalPrice *= conditionMultiplier;
-
-  // Add extra services
-  const extrasTotal = extras.reduce((sum, extra) => {
-    return sum + (extraPrices[extra] || 0);
-  }, 0);
-  totalPrice += extrasTotal;
-
-  // Round to 2 decimal places
-  return Math.round(totalPrice * 100) / 100;
-}
-
 /**
  * Format date to display format
  */
@@ -113,9 +59,13 @@ export function formatDate(date: Date | string, includeTime: boolean = false): s
 }
 
 /**
- * Check if a date is valid for booking (not in past, within 90 days)
+ * Check if a date is valid for booking (not in past, within 90 days, and open
+ * according to the trading calendar when one is given)
  */
-export function isValidBookingDate(date: Date | string): { valid: boolean; message?: string } {
+export function isValidBookingDate(
+  date: Date | string,
+  calendar?: BusinessCalendar
+): { valid: boolean; message?: string } {
   const bookingDate = typeof date === 'string' ? new Date(date) : date;
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -131,6 +81,11 @@ export function isValidBookingDate(date: Date | string): { valid: boolean; messa
     return { valid: false, message: 'Booking date cannot be more than 90 days in the future' };
   }
 
+  const closureReason = calendar ? getClosureReason(bookingDate, calendar) : null;
+  if (closureReason) {
+    return { valid: false, message: `We are closed on the selected date: ${closureReason}` };
+  }
+
   return { valid: true };
 }
 
@@ -170,7 +125,7 @@ export async function comparePassword(password: string, hash: string): Promise<b
 export function generateToken(payload: object, expiresIn: string = '7d'): string {
   // Use config.JWT_SECRET if it exists, otherwise use a fallback
   const secret = config.JWT_SECRET || process.env.JWT_SECRET || 'your-jwt-secret-key';
-  return jwt.sign(payload, secret, { expiresIn });
+  return jwt.sign(payload, secret, { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] });
 }
 
 /**
@@ -266,8 +221,10 @@ export function getBookingProgress(status: BookingStatus): number {
   const progressMap: Record<BookingStatus, number> = {
     [BookingStatus.PENDING]: 25,
     [BookingStatus.CONFIRMED]: 50,
+    [BookingStatus.IN_PROGRESS]: 75,
     [BookingStatus.COMPLETED]: 100,
     [BookingStatus.CANCELLED]: 0,
+    [BookingStatus.NO_SHOW]: 0,
   };
   
   return progressMap[status] || 0;
@@ -280,13 +237,23 @@ export function getStatusColor(status: BookingStatus): string {
   const colorMap: Record<BookingStatus, string> = {
     [BookingStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
     [BookingStatus.CONFIRMED]: 'bg-blue-100 text-blue-800',
+    [BookingStatus.IN_PROGRESS]: 'bg-indigo-100 text-indigo-800',
     [BookingStatus.COMPLETED]: 'bg-green-100 text-green-800',
     [BookingStatus.CANCELLED]: 'bg-red-100 text-red-800',
+    [BookingStatus.NO_SHOW]: 'bg-gray-100 text-gray-800',
   };
   
   return colorMap[status] || 'bg-gray-100 text-gray-800';
 }
 
+/**
+ * Get the turnaround buffer (in minutes) added after a job
+ * Mobile jobs need extra time to pack up and travel
+ */
+export function getAppointmentBuffer(appointmentType: AppointmentType | string): number {
+  return appointmentType === AppointmentType.MOBILE ? 30 : 15;
+}
+
 /**
  * Calculate estimated completion time
  */
@@ -311,7 +278,7 @@ export function calculateCompletionTime(
   startDate.setHours(hours, minutes, 0, 0);
   
   // Add buffer based on appointment type
-  const buffer = appointmentType === AppointmentType.MOBILE ? 30 : 15;
+  const buffer = getAppointmentBuffer(appointmentType);
   const totalDuration = duration + buffer;
   
   const endDate = new Date(startDate.getTime() + totalDuration * 60000);
@@ -472,6 +439,20 @@ export function generateResetToken(): string {
   return uuidv4().replace(/-/g, '');
 }
 
+/**
+ * Generate an opaque refresh token
+ */
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('hex');
+}
+
+/**
+ * Hash a token for storage so a leaked table cannot be replayed
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Calculate loyalty points based on purchase amount
  */
@@ -0,0 +1,105 @@
+import { PriceRule, Promotion, Service } from '../models';
+import { PriceRuleType } from '../models/PriceRule';
+import { PromotionDiscountType } from '../models/Promotion';
+import { calculatePriceBreakdown } from './priceCalculator';
+
+const service = Service.build({
+  name: 'Full Detail',
+  description: 'Inside and out',
+  basePrice: 500,
+  duration: 120,
+  vehicleTypes: [],
+  category: 'premium',
+  features: [],
+  active: true,
+});
+
+const rule = (ruleType: PriceRuleType, code: string, value: number, fleetAccountId: string | null = null) =>
+  PriceRule.build({ ruleType, code, value, fleetAccountId, active: true });
+
+describe('calculatePriceBreakdown', () => {
+  beforeEach(() => {
+    jest.spyOn(Service, 'findOne').mockResolvedValue(service);
+    jest.spyOn(PriceRule, 'findAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is null for a service that is not offered', async () => {
+    jest.spyOn(Service, 'findOne').mockResolvedValue(null);
+
+    expect(await calculatePriceBreakdown({ serviceType: 'Unknown', vehicleType: 'SEDAN' })).toBeNull();
+  });
+
+  it('falls back to the default rules while none are configured', async () => {
+    const breakdown = await calculatePriceBreakdown({
+      serviceType: 'Full Detail',
+      vehicleType: 'suv',
+      condition: 'heavy',
+      extras: ['wax'],
+    });
+
+    expect(breakdown).toMatchObject({
+      vehicleType: 'SUV',
+      vehicleMultiplier: 1.3,
+      conditionMultiplier: 1.5,
+      extrasTotal: 200,
+      totalPrice: 1175,
+    });
+  });
+
+  it('uses configured rules instead of the defaults', async () => {
+    jest.spyOn(PriceRule, 'findAll').mockResolvedValue([
+      rule(PriceRuleType.VEHICLE_MULTIPLIER, 'SUV', 1.2),
+      rule(PriceRuleType.EXTRA_PRICE, 'WAX', 250),
+    ]);
+
+    const breakdown = await calculatePriceBreakdown({
+      serviceType: 'Full Detail',
+      vehicleType: 'SUV',
+      condition: 'HEAVY',
+      extras: ['WAX'],
+    });
+
+    expect(breakdown).toMatchObject({ vehicleMultiplier: 1.2, conditionMultiplier: 1, totalPrice: 850 });
+  });
+
+  it("lets a fleet account's negotiated rule replace the standard one", async () => {
+    jest.spyOn(PriceRule, 'findAll').mockResolvedValue([
+      rule(PriceRuleType.VEHICLE_MULTIPLIER, 'SUV', 1.2),
+      rule(PriceRuleType.VEHICLE_MULTIPLIER, 'SUV', 1.0, 'fleet-1'),
+    ]);
+
+    const breakdown = await calculatePriceBreakdown({
+      serviceType: 'Full Detail',
+      vehicleType: 'SUV',
+      fleetAccountId: 'fleet-1',
+    });
+
+    expect(breakdown?.totalPrice).toBe(500);
+  });
+
+  it('takes the discount off before adding the travel fee', async () => {
+    const promotion = Promotion.build({
+      code: 'HALF',
+      discountType: PromotionDiscountType.PERCENTAGE,
+      discountValue: 50,
+      serviceTypes: [],
+      vehicleTypes: [],
+      firstBookingOnly: false,
+      active: true,
+    });
+
+    const breakdown = await calculatePriceBreakdown({
+      serviceType: 'Full Detail',
+      vehicleType: 'SEDAN',
+      promotion,
+      travel: { distanceKm: 12, fee: 60 },
+    });
+
+    expect(breakdown?.discount?.amount).toBe(250);
+    expect(breakdown?.totalPrice).toBe(310);
+  });
+});
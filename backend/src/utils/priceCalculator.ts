@@ -1,60 +1,212 @@
-import { Service } from '../models';
+import { Op } from 'sequelize';
+import { Service, PriceRule, Promotion } from '../models';
+import { PriceRuleType } from '../models/PriceRule';
+import { PromotionDiscountType } from '../models/Promotion';
+import { CalculatePriceResponse, QuoteLineItem, CarType, CarCondition, ExtraService, TravelCharge } from '../types';
 
 export interface PriceCalculationInput {
   serviceType: string;
   vehicleType: string;
-  extras: string[];
-  condition: string;
+  extras?: string[];
+  condition?: string;
+  promotion?: Promotion | null; // already checked for eligibility by the caller
+  fleetAccountId?: string | null; // applies the account's negotiated rules
+  travel?: TravelCharge | null; // mobile jobs only, already checked against the service area
 }
 
-export async function calculatePrice(input: PriceCalculationInput): Promise<number> {
-  const service = await Service.findOne({
-    where: { name: input.serviceType, active: true }
-  });
-
-  if (!service) {
-    throw new Error(`Service '${input.serviceType}' not found`);
-  }
+export interface PriceRuleTables {
+  vehicleMultipliers: Record<string, number>;
+  conditionMultipliers: Record<string, number>;
+  extraPrices: Record<string, number>;
+}
 
-  // Vehicle type multipliers
-  const vehicleMultipliers: Record<string, number> = {
+// Used only until the price_rules table has been populated
+export const DEFAULT_PRICE_RULES: PriceRuleTables = {
+  vehicleMultipliers: {
     'SEDAN': 1.0,
     'COUPE': 1.1,
     'HATCHBACK': 1.0,
     'SUV': 1.3,
     'TRUCK': 1.5,
     'LUXURY': 1.8
-  };
-
-  // Condition multipliers
-  const conditionMultipliers: Record<string, number> = {
+  },
+  conditionMultipliers: {
     'LIGHT': 1.0,
     'MODERATE': 1.2,
     'HEAVY': 1.5
-  };
-
-  // Extra service prices
-  const extraPrices: Record<string, number> = {
+  },
+  extraPrices: {
     'INTERIOR': 150,
     'WAX': 200,
     'ENGINE': 300
+  }
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Load active price rules from the database. A fleet account's negotiated rules
+ * replace the standard rule with the same type and code.
+ */
+export async function loadPriceRules(fleetAccountId?: string | null): Promise<PriceRuleTables> {
+  const rules = await PriceRule.findAll({
+    where: {
+      active: true,
+      fleetAccountId: fleetAccountId ? { [Op.or]: [null, fleetAccountId] } : null
+    }
+  });
+  const standard = rules.filter(rule => !rule.fleetAccountId);
+  const negotiated = rules.filter(rule => rule.fleetAccountId);
+
+  const tables: PriceRuleTables = standard.length === 0
+    ? {
+        vehicleMultipliers: { ...DEFAULT_PRICE_RULES.vehicleMultipliers },
+        conditionMultipliers: { ...DEFAULT_PRICE_RULES.conditionMultipliers },
+        extraPrices: { ...DEFAULT_PRICE_RULES.extraPrices }
+      }
+    : {
+        vehicleMultipliers: {},
+        conditionMultipliers: {},
+        extraPrices: {}
+      };
+
+  [...standard, ...negotiated].forEach(rule => {
+    const value = parseFloat(rule.value.toString());
+    switch (rule.ruleType) {
+      case PriceRuleType.VEHICLE_MULTIPLIER:
+        tables.vehicleMultipliers[rule.code] = value;
+        break;
+      case PriceRuleType.CONDITION_MULTIPLIER:
+        tables.conditionMultipliers[rule.code] = value;
+        break;
+      case PriceRuleType.EXTRA_PRICE:
+        tables.extraPrices[rule.code] = value;
+        break;
+    }
+  });
+
+  return tables;
+}
+
+/**
+ * Apply price rules to a service base price
+ */
+export function applyPriceRules(
+  serviceName: string,
+  basePrice: number,
+  input: PriceCalculationInput,
+  rules: PriceRuleTables
+): CalculatePriceResponse {
+  const vehicleType = input.vehicleType.toUpperCase();
+  const condition = input.condition?.toUpperCase();
+  const extras = (input.extras || []).map(extra => extra.toUpperCase());
+
+  const vehicleMultiplier = rules.vehicleMultipliers[vehicleType] || 1.0;
+  const conditionMultiplier = (condition && rules.conditionMultipliers[condition]) || 1.0;
+
+  const extrasBreakdown = extras.map(extra => ({
+    extra: extra as ExtraService,
+    price: rules.extraPrices[extra] || 0
+  }));
+  const extrasTotal = extrasBreakdown.reduce((sum, line) => sum + line.price, 0);
+
+  return {
+    service: serviceName,
+    vehicleType: vehicleType as CarType,
+    condition: condition as CarCondition | undefined,
+    extras: extras as ExtraService[],
+    basePrice,
+    vehicleMultiplier,
+    conditionMultiplier,
+    extrasBreakdown,
+    extrasTotal,
+    totalPrice: round(basePrice * vehicleMultiplier * conditionMultiplier + extrasTotal)
+  };
+}
+
+/**
+ * Take a promotion's discount off a breakdown, never below zero
+ */
+export function applyPromotion(breakdown: CalculatePriceResponse, promotion: Promotion): CalculatePriceResponse {
+  const value = parseFloat(promotion.discountValue.toString());
+  const amount = promotion.discountType === PromotionDiscountType.PERCENTAGE
+    ? round(breakdown.totalPrice * value / 100)
+    : Math.min(value, breakdown.totalPrice);
+
+  return {
+    ...breakdown,
+    discount: {
+      promotionId: promotion.id,
+      code: promotion.code,
+      description: promotion.description || `Promo ${promotion.code}`,
+      amount
+    },
+    totalPrice: round(breakdown.totalPrice - amount)
   };
+}
+
+/**
+ * Add the mobile travel fee after any discount, so promotions never reduce it
+ */
+export function applyTravelFee(breakdown: CalculatePriceResponse, travel: TravelCharge): CalculatePriceResponse {
+  return {
+    ...breakdown,
+    travel,
+    totalPrice: round(breakdown.totalPrice + travel.fee)
+  };
+}
+
+/**
+ * Itemise a breakdown: the service adjusted for vehicle and condition, each extra, any discount, then travel
+ */
+export function buildLineItems(breakdown: CalculatePriceResponse): QuoteLineItem[] {
+  const serviceAmount = round(breakdown.basePrice * breakdown.vehicleMultiplier * breakdown.conditionMultiplier);
+  const adjustments = [breakdown.vehicleType, breakdown.condition].filter(Boolean).join(', ');
+
+  return [
+    {
+      code: breakdown.service,
+      description: adjustments ? `${breakdown.service} (${adjustments})` : breakdown.service,
+      amount: serviceAmount
+    },
+    ...breakdown.extrasBreakdown.map(line => ({
+      code: line.extra,
+      description: `Extra: ${line.extra}`,
+      amount: line.price
+    })),
+    ...(breakdown.discount
+      ? [{ code: breakdown.discount.code, description: breakdown.discount.description, amount: -breakdown.discount.amount }]
+      : []),
+    ...(breakdown.travel
+      ? [{ code: 'TRAVEL', description: `Travel fee (${breakdown.travel.distanceKm} km)`, amount: breakdown.travel.fee }]
+      : [])
+  ];
+}
+
+/**
+ * Full price breakdown for a service, or null when the service does not exist
+ */
+export async function calculatePriceBreakdown(input: PriceCalculationInput): Promise<CalculatePriceResponse | null> {
+  const service = await Service.findOne({
+    where: { name: input.serviceType, active: true }
+  });
 
-  let totalPrice = parseFloat(service.basePrice.toString());
+  if (!service) {
+    return null;
+  }
 
-  // Apply vehicle type multiplier
-  const vehicleMultiplier = vehicleMultipliers[input.vehicleType.toUpperCase()] || 1.0;
-  totalPrice *= vehicleMultiplier;
+  const rules = await loadPriceRules(input.fleetAccountId);
+  const breakdown = applyPriceRules(service.name, parseFloat(service.basePrice.toString()), input, rules);
+  const discounted = input.promotion ? applyPromotion(breakdown, input.promotion) : breakdown;
+  return input.travel ? applyTravelFee(discounted, input.travel) : discounted;
+}
 
-  // Apply condition multiplier
-  const conditionMultiplier = conditionMultipliers[input.condition?.toUpperCase()] || 1.0;
-  totalPrice *= conditionMultiplier;
+export async function calculatePrice(input: PriceCalculationInput): Promise<number> {
+  const breakdown = await calculatePriceBreakdown(input);
 
-  // Add extra services
-  const extrasTotal = input.extras.reduce((sum: number, extra: string) => {
-    return sum + (extraPrices[extra] || 0);
-  }, 0);
-  totalPrice += extrasTotal;
+  if (!breakdown) {
+    throw new Error(`Service '${input.serviceType}' not found`);
+  }
 
-  return Math.round(totalPrice * 100) / 100; // Round to 2 decimal places
-}
\ No newline at end of file
+  return breakdown.totalPrice;
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState } from 'react';
 import { Navbar } from './components/Navbar';
 import { ServiceCard } from './components/ServiceCard';
 import { RecommendationWizard } from './components/RecommendationWizard';
@@ -14,8 +14,9 @@ import {
   WashPackage, 
   BookingDetails 
 } from './types';
-import { WASH_PACKAGES, GALLERY_DEMOS, ICONS, CONTACT_INFO, CAR_TYPE_BASE_PRICES, EXTRAS_LIST } from './constants';
+import { WASH_PACKAGES, GALLERY_DEMOS, ICONS, CONTACT_INFO } from './constants';
 import { getAIRecommendation } from './services/geminiService';
+import { usePriceQuote } from './hooks/usePricing';
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.HOME);
@@ -28,15 +29,8 @@ const App: React.FC = () => {
   // Chatbot state – now controlled by click instead of hover
   const [isChatOpen, setIsChatOpen] = useState(false);
 
-  const calculateTotalPrice = useCallback((pkg: WashPackage, details: CarDetails | null) => {
-    if (!details) return CAR_TYPE_BASE_PRICES[CarType.SEDAN] + pkg.price;
-    const base = CAR_TYPE_BASE_PRICES[details.type] || 100;
-    const extrasTotal = details.extras.reduce((acc, extraId) => {
-      const extra = EXTRAS_LIST.find(e => e.id === extraId);
-      return acc + (extra?.price || 0);
-    }, 0);
-    return base + pkg.price + extrasTotal;
-  }, []);
+  // Same engine the backend charges with when the booking is created
+  const { totalPrice } = usePriceQuote(recommendedPkg, carDetails);
 
   const handleRecommendation = async (details: CarDetails) => {
     setCarDetails(details);
@@ -250,7 +244,7 @@ const App: React.FC = () => {
                       <div className="text-left space-y-4">
                         <h4 className="text-4xl font-black text-white">{recommendedPkg?.name}</h4>
                         <p className="text-blue-400 text-6xl font-black">
-                          R{recommendedPkg ? calculateTotalPrice(recommendedPkg, carDetails) : 0}
+                          R{totalPrice}
                         </p>
                         <button onClick={() => setStep(AppStep.BOOKING)} className="mt-6 px-12 py-5 bg-blue-600 rounded-full font-black uppercase tracking-[0.2em] text-xs hover:bg-blue-500 transition-all shadow-glow active:scale-95">Lock This Protocol</button>
                       </div>
@@ -302,7 +296,8 @@ const App: React.FC = () => {
               <CheckoutPage 
                 pkg={recommendedPkg} 
                 booking={booking} 
-                totalPrice={calculateTotalPrice(recommendedPkg, carDetails)}
+                carDetails={carDetails}
+                totalPrice={totalPrice}
                 onSuccess={() => {
                   alert("Protocol Transmitted. See you at the hub.");
                   handleReset();
@@ -1,6 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import { WashPackage, BookingDetails, AppointmentType, CarDetails } from '../types';
-import { ICONS, CAR_TYPE_BASE_PRICES, EXTRAS_LIST } from '../constants';
+import { ICONS } from '../constants';
+import { usePriceQuote } from '../hooks/usePricing';
+import { holdSlot } from '../services/bookingService';
 
 interface BookingFormProps {
   selectedPackage: WashPackage;
@@ -22,15 +24,7 @@ export const BookingForm: React.FC<BookingFormProps> = ({ selectedPackage, carDe
     appointmentType: AppointmentType.STUDIO
   });
 
-  const totalPrice = useMemo(() => {
-    if (!carDetails) return selectedPackage.price;
-    const base = CAR_TYPE_BASE_PRICES[carDetails.type] || 100;
-    const extrasTotal = carDetails.extras.reduce((acc, extraId) => {
-      const extra = EXTRAS_LIST.find(e => e.id === extraId);
-      return acc + (extra?.price || 0);
-    }, 0);
-    return base + selectedPackage.price + extrasTotal;
-  }, [carDetails, selectedPackage]);
+  const { quote, totalPrice } = usePriceQuote(selectedPackage, carDetails, true);
 
   const validate = () => {
     const errors: { [key: string]: string } = {};
@@ -75,8 +69,11 @@ export const BookingForm: React.FC<BookingFormProps> = ({ selectedPackage, carDe
     setError(null);
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      onConfirm(form);
+      // Keep the hold so picking another slot releases it instead of leaving it to expire
+      const hold = await holdSlot(form, selectedPackage.name);
+      const held = { ...form, holdId: hold.id, holdExpiresAt: hold.expiresAt };
+      setForm(held);
+      onConfirm({ ...held, quoteId: quote?.quoteId, totalPrice });
     } catch (err: any) {
       setError(err.message || "An unexpected error occurred.");
     } finally {
@@ -1,16 +1,24 @@
 
 import React, { useState } from 'react';
 import { ICONS } from '../constants';
-import { WashPackage, BookingDetails } from '../types';
+import { WashPackage, BookingDetails, CarDetails, PriceBreakdown } from '../types';
+import { validatePromoCode } from '../services/pricingService';
 
 interface CheckoutProps {
   pkg: WashPackage;
   booking: BookingDetails;
+  carDetails: CarDetails | null;
   totalPrice: number;
   onSuccess: () => void;
 }
 
-export const CheckoutPage: React.FC<CheckoutProps> = ({ pkg, booking, totalPrice, onSuccess }) => {
+export const CheckoutPage: React.FC<CheckoutProps> = ({ pkg, booking, carDetails, totalPrice: quotedPrice, onSuccess }) => {
+  const [promoCode, setPromoCode] = useState('');
+  const [promoPrice, setPromoPrice] = useState<PriceBreakdown | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const totalPrice = promoPrice ? promoPrice.totalPrice : quotedPrice;
+
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'cash'>('card');
@@ -41,6 +49,21 @@ export const CheckoutPage: React.FC<CheckoutProps> = ({ pkg, booking, totalPrice
     return newErrors.length === 0;
   };
 
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      setPromoPrice(await validatePromoCode(promoCode.trim(), pkg.name, carDetails, booking));
+    } catch (err: any) {
+      setPromoPrice(null);
+      setPromoError(err.message || "Invalid promo code.");
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
   const handlePay = () => {
     if (!validate()) return;
 
@@ -119,6 +142,9 @@ export const CheckoutPage: React.FC<CheckoutProps> = ({ pkg, booking, totalPrice
              {[
                { label: "Date", value: booking.date },
                { label: "Time Slot", value: booking.time },
+               ...(booking.holdExpiresAt
+                 ? [{ label: "Held Until", value: new Date(booking.holdExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) }]
+                 : []),
                { label: "Vehicle", value: "Registered Machine" },
                { label: "Location", value: "Sandton Detailing Hub" }
              ].map((item, i) => (
@@ -129,6 +155,32 @@ export const CheckoutPage: React.FC<CheckoutProps> = ({ pkg, booking, totalPrice
              ))}
           </div>
 
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="PROMO CODE"
+                value={promoCode}
+                onChange={(e) => { setPromoCode(e.target.value.toUpperCase()); setPromoError(null); }}
+                className="flex-1 p-4 bg-white/5 border border-white/10 rounded-xl font-bold text-white uppercase tracking-widest text-xs outline-none focus:border-blue-500 placeholder:text-slate-700"
+              />
+              <button
+                onClick={handleApplyPromo}
+                disabled={isApplyingPromo || !promoCode.trim()}
+                className="px-6 bg-white/5 border border-white/10 rounded-xl font-black text-[10px] text-white uppercase tracking-widest hover:border-blue-500 transition-all disabled:opacity-40"
+              >
+                {isApplyingPromo ? '...' : 'Apply'}
+              </button>
+            </div>
+            {promoError && <p className="text-[9px] font-black text-red-400 uppercase tracking-widest px-1">{promoError}</p>}
+            {promoPrice?.discount && (
+              <div className="flex justify-between py-3 border-b border-white/5">
+                <span className="text-xs font-bold text-green-400 uppercase tracking-widest">{promoPrice.discount.description}</span>
+                <span className="text-xs font-black text-green-400">-R{promoPrice.discount.amount}</span>
+              </div>
+            )}
+          </div>
+
           <div className="pt-8 border-t border-white/5 space-y-2">
             <div className="flex justify-between items-baseline">
               <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Amount Due</span>
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { CarType, CarCondition, ExtraService, CarDetails } from '../types';
 import { EXTRAS_LIST, ICONS } from '../constants';
+import { useExtraPrices } from '../hooks/usePricing';
 
 interface WizardProps {
   onComplete: (details: CarDetails) => void;
@@ -10,6 +11,7 @@ interface WizardProps {
 
 export const RecommendationWizard: React.FC<WizardProps> = ({ onComplete, onCancel }) => {
   const [step, setStep] = useState(1);
+  const extraPrices = useExtraPrices();
   const [details, setDetails] = useState<CarDetails>({
     type: CarType.SEDAN,
     year: '',
@@ -162,7 +164,7 @@ export const RecommendationWizard: React.FC<WizardProps> = ({ onComplete, onCanc
                   </div>
                   <div className="text-left">
                     <p className="uppercase tracking-widest">{extra.label}</p>
-                    <p className={`text-[10px] mt-1 font-bold ${details.extras.includes(extra.id) ? 'text-blue-400' : 'text-slate-600'}`}>+ R{extra.price} UNIT COST</p>
+                    <p className={`text-[10px] mt-1 font-bold ${details.extras.includes(extra.id) ? 'text-blue-400' : 'text-slate-600'}`}>+ R{extraPrices[extra.id] ?? '—'} UNIT COST</p>
                   </div>
                 </div>
                 <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${details.extras.includes(extra.id) ? 'border-blue-600 bg-blue-600' : 'border-white/10'}`}>
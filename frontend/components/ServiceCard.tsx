@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { WashPackage, CarType } from '../types';
-import { ICONS, CAR_TYPE_BASE_PRICES } from '../constants';
+import { WashPackage, CarType, CarCondition } from '../types';
+import { ICONS } from '../constants';
+import { usePriceQuote } from '../hooks/usePricing';
 
 interface ServiceCardProps {
   pkg: WashPackage;
@@ -10,8 +11,14 @@ interface ServiceCardProps {
 }
 
 export const ServiceCard: React.FC<ServiceCardProps> = ({ pkg, carType, onSelect }) => {
-  const currentBase = carType ? CAR_TYPE_BASE_PRICES[carType] : CAR_TYPE_BASE_PRICES[CarType.SEDAN];
-  const totalPrice = currentBase + pkg.price;
+  const { totalPrice } = usePriceQuote(pkg, {
+    type: carType ?? CarType.SEDAN,
+    year: '',
+    make: '',
+    model: '',
+    condition: CarCondition.LIGHT,
+    extras: []
+  });
 
   return (
     <div className="glass-card rounded-[2.5rem] overflow-hidden group hover:border-blue-500/50 transition-all duration-500 flex flex-col h-full shadow-2xl">
@@ -1,21 +1,39 @@
 
 import React from 'react';
-import { WashPackage, ExtraService, CarType } from './types';
+import { WashPackage, ExtraService, CarType, CarCondition, AppointmentType } from './types';
 
-export const CAR_TYPE_BASE_PRICES: Record<CarType, number> = {
-  [CarType.SEDAN]: 100,
-  [CarType.COUPE]: 120,
-  [CarType.HATCHBACK]: 140,
-  [CarType.SUV]: 160,
-  [CarType.TRUCK]: 200,
-  [CarType.LUXURY]: 250,
+// Codes the backend pricing engine expects
+export const CAR_TYPE_CODES: Record<CarType, string> = {
+  [CarType.SEDAN]: 'SEDAN',
+  [CarType.COUPE]: 'COUPE',
+  [CarType.HATCHBACK]: 'HATCHBACK',
+  [CarType.SUV]: 'SUV',
+  [CarType.TRUCK]: 'TRUCK',
+  [CarType.LUXURY]: 'LUXURY',
+};
+
+export const CAR_CONDITION_CODES: Record<CarCondition, string> = {
+  [CarCondition.LIGHT]: 'LIGHT',
+  [CarCondition.MODERATE]: 'MODERATE',
+  [CarCondition.HEAVY]: 'HEAVY',
+};
+
+export const EXTRA_SERVICE_CODES: Record<ExtraService, string> = {
+  [ExtraService.INTERIOR]: 'INTERIOR',
+  [ExtraService.WAX]: 'WAX',
+  [ExtraService.ENGINE]: 'ENGINE',
+};
+
+export const APPOINTMENT_TYPE_CODES: Record<AppointmentType, string> = {
+  [AppointmentType.STUDIO]: 'studio',
+  [AppointmentType.MOBILE]: 'mobile',
 };
 
 export const WASH_PACKAGES: WashPackage[] = [
   {
     id: 'basic',
     name: 'Eco Refresh',
-    price: 0, // Base price only
+    price: 100, // Sedan starting price, live quotes come from the API
     duration: '30 mins',
     description: 'A swift, high-pressure foam bath followed by a spot-free rinse. Perfect for regular maintenance.',
     features: ['Snow Foam Treatment', 'Wheel & Rim Scrub', 'Towel Dry', 'Tire Dressing'],
@@ -24,7 +42,7 @@ export const WASH_PACKAGES: WashPackage[] = [
   {
     id: 'deluxe',
     name: 'Aqua Glow Deluxe',
-    price: 300, // Surcharge over base
+    price: 400, // Sedan starting price, live quotes come from the API
     duration: '60 mins',
     description: 'Our most popular choice. Combines exterior brilliance with a deep interior vacuum and sanitization.',
     features: ['All Basic Features', 'Spray Wax Shield', 'Deep Interior Vacuum', 'AC Vents Sanitized', 'Fragrance Mist'],
@@ -33,7 +51,7 @@ export const WASH_PACKAGES: WashPackage[] = [
   {
     id: 'premium',
     name: 'Executive Detail',
-    price: 850, // Surcharge over base
+    price: 950, // Sedan starting price, live quotes come from the API
     duration: '120 mins',
     description: 'Showroom-level restoration. Includes paint decontamination and premium polymer sealant protection.',
     features: ['All Deluxe Features', 'Clay Bar Paint Prep', 'Carnauba Wax Polish', 'Engine Bay Detailing', 'Steam Upholstery Clean'],
@@ -60,9 +78,9 @@ export const GALLERY_DEMOS = [
 ];
 
 export const EXTRAS_LIST = [
-  { id: ExtraService.INTERIOR, label: 'Interior Rejuvenation', price: 150 },
-  { id: ExtraService.WAX, label: 'Nano-Ceramic Wax', price: 200 },
-  { id: ExtraService.ENGINE, label: 'Precision Engine Clean', price: 300 }
+  { id: ExtraService.INTERIOR, label: 'Interior Rejuvenation' },
+  { id: ExtraService.WAX, label: 'Nano-Ceramic Wax' },
+  { id: ExtraService.ENGINE, label: 'Precision Engine Clean' }
 ];
 
 export const CONTACT_INFO = {
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { CarDetails, ExtraService, PriceBreakdown, WashPackage } from '../types';
+import { getPriceQuote, getExtraPrices } from '../services/pricingService';
+
+/**
+ * Live quote for a package. Falls back to the package's starting price until the API answers.
+ * Pass persist only from the booking flow, which needs a stored quote to lock in the price.
+ */
+export const usePriceQuote = (pkg: WashPackage | null, details: CarDetails | null, persist = false) => {
+  const [quote, setQuote] = useState<PriceBreakdown | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so a new but equal details object does not refetch
+  const detailsKey = details ? `${details.type}|${details.condition}|${details.extras.join(',')}` : '';
+
+  useEffect(() => {
+    if (!pkg) return;
+    let cancelled = false;
+
+    getPriceQuote(pkg.name, details, persist)
+      .then(result => {
+        if (!cancelled) {
+          setQuote(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setQuote(null);
+          setError(err.message);
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [pkg?.name, detailsKey, persist]);
+
+  return { quote, totalPrice: quote?.totalPrice ?? pkg?.price ?? 0, error };
+};
+
+export const useExtraPrices = () => {
+  const [prices, setPrices] = useState<Partial<Record<ExtraService, number>>>({});
+
+  useEffect(() => {
+    getExtraPrices().then(setPrices).catch(() => setPrices({}));
+  }, []);
+
+  return prices;
+};
@@ -0,0 +1,46 @@
+import { BookingDetails } from "../types";
+import { APPOINTMENT_TYPE_CODES } from "../constants";
+
+const API_URL = process.env.API_URL;
+
+export interface SlotHold {
+  id: string;
+  date: string;
+  time: string;
+  expiresAt: string;
+}
+
+/**
+ * Convert a "09:30 AM" style slot label to the 24-hour HH:MM the backend expects
+ */
+export const to24HourTime = (time: string): string => {
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  if (!match) return time;
+
+  const hours = Number(match[1]) % 12 + (match[3].toUpperCase() === 'PM' ? 12 : 0);
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * Hold the chosen slot for a few minutes while the customer checks out.
+ * Picking a new slot gives up the one held before.
+ */
+export const holdSlot = async (booking: BookingDetails, serviceName: string): Promise<SlotHold> => {
+  const response = await fetch(`${API_URL}/slot-holds`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      date: booking.date,
+      time: to24HourTime(booking.time),
+      serviceType: serviceName,
+      appointmentType: APPOINTMENT_TYPE_CODES[booking.appointmentType],
+      replaceHoldId: booking.holdId,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'That slot is no longer available');
+  }
+  return result.data;
+};
@@ -0,0 +1,85 @@
+import { CarDetails, CarType, ExtraService, PriceBreakdown } from "../types";
+import { CAR_TYPE_CODES, CAR_CONDITION_CODES, EXTRA_SERVICE_CODES } from "../constants";
+
+const API_URL = process.env.API_URL;
+
+// Reverse lookup so extra prices from the API can be keyed by the UI enum
+const EXTRA_BY_CODE = Object.fromEntries(
+  Object.entries(EXTRA_SERVICE_CODES).map(([extra, code]) => [code, extra as ExtraService])
+) as Record<string, ExtraService>;
+
+/**
+ * Price a package through the backend pricing engine. Only a persisted quote comes back with
+ * a quote id, which locks in the total when booking.
+ */
+export const getPriceQuote = async (
+  serviceName: string,
+  details: CarDetails | null,
+  persist = false
+): Promise<PriceBreakdown> => {
+  const response = await fetch(`${API_URL}/services/calculate-price`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      serviceType: serviceName,
+      vehicleType: CAR_TYPE_CODES[details?.type ?? CarType.SEDAN],
+      condition: details ? CAR_CONDITION_CODES[details.condition] : undefined,
+      extras: details ? details.extras.map(extra => EXTRA_SERVICE_CODES[extra]) : [],
+      persist,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Unable to calculate price');
+  }
+  return result.data;
+};
+
+/**
+ * Check a promo code at checkout and preview the discounted price
+ */
+export const validatePromoCode = async (
+  code: string,
+  serviceName: string,
+  details: CarDetails | null,
+  booking: { customerEmail?: string; date?: string } = {}
+): Promise<PriceBreakdown> => {
+  const response = await fetch(`${API_URL}/promotions/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code,
+      serviceType: serviceName,
+      vehicleType: CAR_TYPE_CODES[details?.type ?? CarType.SEDAN],
+      condition: details ? CAR_CONDITION_CODES[details.condition] : undefined,
+      extras: details ? details.extras.map(extra => EXTRA_SERVICE_CODES[extra]) : [],
+      customerEmail: booking.customerEmail || undefined,
+      date: booking.date || undefined,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Invalid promo code');
+  }
+  return result.data;
+};
+
+/**
+ * Current add-on prices keyed by extra service
+ */
+export const getExtraPrices = async (): Promise<Partial<Record<ExtraService, number>>> => {
+  const response = await fetch(`${API_URL}/pricing/rules?ruleType=extra_price`);
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Unable to load extra prices');
+  }
+
+  const prices: Partial<Record<ExtraService, number>> = {};
+  result.data.forEach((rule: { code: string; value: string | number }) => {
+    const extra = EXTRA_BY_CODE[rule.code];
+    if (extra) prices[extra] = Number(rule.value);
+  });
+  return prices;
+};
@@ -10,7 +10,7 @@ export enum CarType {
 
 export enum CarCondition {
   LIGHT = 'Light',
-  MEDIUM = 'Medium',
+  MODERATE = 'Moderate',
   HEAVY = 'Heavy'
 }
 
@@ -34,6 +34,24 @@ export interface CarDetails {
   extras: ExtraService[];
 }
 
+// Mirrors the backend CalculatePriceResponse
+export interface PriceBreakdown {
+  service: string;
+  vehicleType: string;
+  condition?: string;
+  extras: string[];
+  basePrice: number;
+  vehicleMultiplier: number;
+  conditionMultiplier: number;
+  extrasBreakdown: { extra: string; price: number }[];
+  extrasTotal: number;
+  discount?: { promotionId: string; code: string; description: string; amount: number };
+  totalPrice: number;
+  quoteId?: string;
+  lineItems: { code: string; description: string; amount: number }[];
+  expiresAt: string;
+}
+
 export interface WashPackage {
   id: string;
   name: string;
@@ -62,6 +80,9 @@ date: string;
   notes?: string;
   referenceNumber?: string;
   totalPrice?: number;
+  quoteId?: string;
+  holdId?: string;
+  holdExpiresAt?: string;
   id?: string | number;
 }
 